@@ -11,6 +11,11 @@ import AddBalance from "@/pages/add-balance";
 import Withdraw from "@/pages/withdraw";
 import DepositToCard from "@/pages/withdraw-card";
 import ACH from "@/pages/ach";
+import Reserves from "@/pages/reserves";
+import Jobs from "@/pages/jobs";
+import History from "@/pages/history";
+import TransactionDetail from "@/pages/transaction-detail";
+import PaymentMethods from "@/pages/payment-methods";
 import NotFound from "@/pages/not-found";
 
 function AppContent() {
@@ -25,6 +30,11 @@ function AppContent() {
           <Route path="/withdraw" component={Withdraw} />
           <Route path="/deposit-to-card" component={DepositToCard} />
           <Route path="/ach" component={ACH} />
+          <Route path="/history" component={History} />
+          <Route path="/transactions/:id" component={TransactionDetail} />
+          <Route path="/settings/payment-methods" component={PaymentMethods} />
+          <Route path="/reserves" component={Reserves} />
+          <Route path="/jobs" component={Jobs} />
           <Route component={NotFound} />
         </Switch>
       </div>
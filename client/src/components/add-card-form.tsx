@@ -0,0 +1,162 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { stripePromise } from "@/lib/stripe";
+import { Lock } from "lucide-react";
+
+// Card details go from the Stripe PaymentElement straight to Stripe; only the confirmed SetupIntent id reaches us
+function VaultCardForm({ onAdd }: { onAdd: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [name, setName] = useState("");
+  const [isConfirming, setIsConfirming] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveCardMutation = useMutation({
+    mutationFn: async (setupIntentId: string) => {
+      const response = await apiRequest("POST", "/api/payment-methods/cards", { name, setupIntentId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({
+        title: "Card Added",
+        description: "Your card has been saved securely with Stripe.",
+      });
+      onAdd();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Card Not Saved",
+        description: error.message || "Failed to add card.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please name this card.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsConfirming(true);
+    const { error, setupIntent } = await stripe.confirmSetup({
+      elements,
+      redirect: "if_required",
+    });
+    setIsConfirming(false);
+
+    if (error) {
+      toast({
+        title: "Card Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (setupIntent) {
+      saveCardMutation.mutate(setupIntent.id);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="cardName">Card Name</Label>
+        <Input
+          id="cardName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Main Visa, Business Card"
+          className="mt-2"
+          data-testid="input-card-name"
+          required
+        />
+      </div>
+
+      <div className="p-4 border border-border rounded-lg">
+        <PaymentElement />
+      </div>
+
+      <div className="flex items-center text-xs text-muted-foreground">
+        <Lock className="w-3 h-3 mr-1" />
+        <span>Card details are sent directly to Stripe and never stored by BalanceFlow</span>
+      </div>
+
+      <div className="flex space-x-2 pt-4">
+        <Button
+          type="submit"
+          className="flex-1"
+          disabled={!stripe || isConfirming || saveCardMutation.isPending}
+          data-testid="button-save-card"
+        >
+          {isConfirming || saveCardMutation.isPending ? "Adding..." : "Add Card"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default function AddCardForm({ onAdd }: { onAdd: () => void }) {
+  const { toast } = useToast();
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/payment-methods/cards/setup", {});
+      return response.json() as Promise<{ clientSecret: string }>;
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Setup Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One SetupIntent per time the dialog opens
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  if (!stripePromise) {
+    return (
+      <div className="text-center text-red-600 dark:text-red-400">
+        <p className="font-medium">Stripe Configuration Error</p>
+        <p className="text-sm mt-2">Please check Stripe API keys configuration</p>
+      </div>
+    );
+  }
+
+  const clientSecret = setupMutation.data?.clientSecret;
+  if (!clientSecret) {
+    return setupMutation.isError ? (
+      <div className="text-center space-y-4">
+        <p className="text-sm text-muted-foreground">Could not start card setup.</p>
+        <Button variant="outline" onClick={() => setupMutation.mutate()}>Try Again</Button>
+      </div>
+    ) : (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret }}>
+      <VaultCardForm onAdd={onAdd} />
+    </Elements>
+  );
+}
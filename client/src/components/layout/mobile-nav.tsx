@@ -3,7 +3,9 @@ import {
   LayoutDashboard, 
   Plus, 
   ArrowRight,
-  CreditCard
+  CreditCard,
+  History,
+  Wallet
 } from "lucide-react";
 
 export default function MobileNav() {
@@ -15,6 +17,11 @@ export default function MobileNav() {
       href: "/",
       icon: LayoutDashboard,
     },
+    {
+      name: "History",
+      href: "/history",
+      icon: History,
+    },
     {
       name: "Add Balance",
       href: "/add-balance",
@@ -30,6 +37,11 @@ export default function MobileNav() {
       href: "/deposit-to-card", 
       icon: CreditCard,
     },
+    {
+      name: "Methods",
+      href: "/settings/payment-methods",
+      icon: Wallet,
+    },
   ];
 
   return (
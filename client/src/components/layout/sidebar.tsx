@@ -1,6 +1,6 @@
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { authService } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { 
@@ -9,6 +9,10 @@ import {
   ArrowRight, 
   CreditCard,
   Building2,
+  History,
+  Landmark,
+  ListChecks,
+  Wallet,
   LogOut 
 } from "lucide-react";
 
@@ -17,10 +21,17 @@ export default function Sidebar() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: authStatus } = useQuery({
+    queryKey: ['/api/auth/status'],
+    queryFn: () => authService.getStatus(),
+    staleTime: 30000,
+  });
+
   const logoutMutation = useMutation({
     mutationFn: authService.logout,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/auth/status'] });
+      // Drop everything cached for this user, then re-check auth status
+      queryClient.resetQueries();
       toast({
         title: "Logged out",
         description: "You have been successfully logged out.",
@@ -41,6 +52,11 @@ export default function Sidebar() {
       href: "/",
       icon: LayoutDashboard,
     },
+    {
+      name: "History",
+      href: "/history",
+      icon: History,
+    },
     {
       name: "Add Balance",
       href: "/add-balance",
@@ -61,6 +77,21 @@ export default function Sidebar() {
       href: "/ach",
       icon: Building2,
     },
+    {
+      name: "Payment Methods",
+      href: "/settings/payment-methods",
+      icon: Wallet,
+    },
+    // Operators only; the API rejects everyone else
+    ...(authStatus?.user?.isAdmin ? [{
+      name: "Reserves",
+      href: "/reserves",
+      icon: Landmark,
+    }, {
+      name: "Jobs",
+      href: "/jobs",
+      icon: ListChecks,
+    }] : []),
   ];
 
   return (
@@ -0,0 +1,38 @@
+import { useLimitStatus } from "@/hooks/use-limit-status";
+import { formatMoney } from "@shared/money";
+
+interface LimitSummaryProps {
+  type: "deposit" | "withdrawal";
+  method: string;
+}
+
+// One line of remaining limits under an amount field
+export default function LimitSummary({ type, method }: LimitSummaryProps) {
+  const { data: limits } = useLimitStatus(type, method);
+  if (!limits) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (limits.maxPerTransaction !== null) {
+    lines.push(`Up to ${formatMoney(limits.maxPerTransaction)} per ${type}`);
+  }
+  for (const window of limits.windows) {
+    const scope = window.method ? ` (${window.method})` : "";
+    if (window.remainingAmount !== null) {
+      lines.push(`${formatMoney(window.remainingAmount)} left this ${window.period}${scope}`);
+    }
+    if (window.remainingCount !== null) {
+      lines.push(`${window.remainingCount} ${type}${window.remainingCount === 1 ? "" : "s"} left this ${window.period}${scope}`);
+    }
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <p className="text-xs text-muted-foreground" data-testid={`text-${type}-limits`}>
+      Limits: {lines.join(" • ")}
+    </p>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Lock } from "lucide-react";
+import type { PaymentMethod } from "@shared/schema";
+import { MAX_VERIFICATION_ATTEMPTS, isValidRoutingNumber, type BankAccountType } from "@shared/payment-methods";
+
+// Full account numbers go to the server once, for the micro-deposits; only the last four are kept
+export function LinkBankAccountForm({ onLinked }: { onLinked: (account: PaymentMethod) => void }) {
+  const [name, setName] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [holderName, setHolderName] = useState("");
+  const [routingNumber, setRoutingNumber] = useState("");
+  const [accountNumber, setAccountNumber] = useState("");
+  const [accountType, setAccountType] = useState<BankAccountType>("checking");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const routingInvalid = routingNumber.length === 9 && !isValidRoutingNumber(routingNumber);
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/payment-methods/bank-accounts", {
+        name,
+        bankName,
+        holderName,
+        routingNumber,
+        accountNumber,
+        accountType,
+      });
+      return response.json() as Promise<{ paymentMethod: PaymentMethod }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({
+        title: "Micro-deposits Sent",
+        description: "Two deposits under $1 will appear in 1-2 business days. Enter them to verify the account.",
+      });
+      onLinked(data.paymentMethod);
+    },
+    onError: (error: any) => {
+      toast({ title: "Bank Account Not Linked", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValidRoutingNumber(routingNumber)) {
+      toast({ title: "Invalid routing number", description: "Check the 9-digit routing number", variant: "destructive" });
+      return;
+    }
+    linkMutation.mutate();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="link-name">Nickname</Label>
+          <Input id="link-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Everyday Checking" maxLength={50} required data-testid="input-link-name" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="link-bank-name">Bank Name</Label>
+          <Input id="link-bank-name" value={bankName} onChange={(e) => setBankName(e.target.value)} placeholder="Chase, Wells Fargo, etc." required data-testid="input-bank-name" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="link-holder-name">Account Holder</Label>
+          <Input id="link-holder-name" value={holderName} onChange={(e) => setHolderName(e.target.value)} placeholder="Name on the account" required data-testid="input-holder-name" />
+        </div>
+        <div className="space-y-2">
+          <Label>Account Type</Label>
+          <Select value={accountType} onValueChange={(value) => setAccountType(value as BankAccountType)}>
+            <SelectTrigger data-testid="select-account-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="checking">Checking</SelectItem>
+              <SelectItem value="savings">Savings</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="link-routing-number">Routing Number</Label>
+          <Input
+            id="link-routing-number"
+            inputMode="numeric"
+            maxLength={9}
+            value={routingNumber}
+            onChange={(e) => setRoutingNumber(e.target.value.replace(/\D/g, ""))}
+            placeholder="9 digit routing number"
+            required
+            data-testid="input-routing-number"
+          />
+          {routingInvalid && <p className="text-xs text-red-500">This routing number fails the ABA checksum</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="link-account-number">Account Number</Label>
+          <Input
+            id="link-account-number"
+            inputMode="numeric"
+            maxLength={17}
+            value={accountNumber}
+            onChange={(e) => setAccountNumber(e.target.value.replace(/\D/g, ""))}
+            placeholder="Your account number"
+            required
+            data-testid="input-account-number"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center text-xs text-muted-foreground">
+        <Lock className="w-3 h-3 mr-1" />
+        <span>BalanceFlow keeps only the routing number and the last four digits of your account</span>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={linkMutation.isPending || routingInvalid} data-testid="button-link-bank">
+        {linkMutation.isPending ? "Sending micro-deposits..." : "Link Bank Account"}
+      </Button>
+    </form>
+  );
+}
+
+export function VerifyBankAccountForm({ account, onVerified }: { account: PaymentMethod; onVerified: () => void }) {
+  const [first, setFirst] = useState("");
+  const [second, setSecond] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/payment-methods/${account.id}/verify`, {
+        amounts: [Number(first), Number(second)],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({ title: "Bank Account Verified", description: `${account.name} can now receive withdrawals.` });
+      onVerified();
+    },
+    onError: (error: any) => {
+      // Wrong guesses are counted, so refresh the attempts left
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({ title: "Verification Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        verifyMutation.mutate();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        Enter the two deposits under $1 sent to {account.brand} ••••{account.identifier}, in cents.
+        {account.verificationAttempts > 0 && ` ${MAX_VERIFICATION_ATTEMPTS - account.verificationAttempts} attempts left.`}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { id: "first", value: first, set: setFirst },
+          { id: "second", value: second, set: setSecond },
+        ].map(field => (
+          <div key={field.id} className="relative">
+            <Input
+              type="number"
+              min="1"
+              max="99"
+              placeholder="32"
+              value={field.value}
+              onChange={(e) => field.set(e.target.value)}
+              required
+              data-testid={`input-deposit-${field.id}`}
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">¢</span>
+          </div>
+        ))}
+      </div>
+      <Button type="submit" className="w-full" disabled={verifyMutation.isPending} data-testid="button-verify-bank">
+        {verifyMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+    </form>
+  );
+}
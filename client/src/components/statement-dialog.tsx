@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FileText } from "lucide-react";
+import type { StatementFormat } from "@shared/statements";
+
+const FORMATS: { value: Exclude<StatementFormat, "json">; label: string }[] = [
+  { value: "pdf", label: "PDF (printable)" },
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "ofx", label: "OFX (accounting software)" },
+  { value: "qfx", label: "QFX (Quicken)" },
+];
+
+// Statement periods are UTC days; the server's `to` is exclusive
+function nextDay(day: string) {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export default function StatementDialog() {
+  const [period, setPeriod] = useState<"month" | "custom">("month");
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [format, setFormat] = useState<Exclude<StatementFormat, "json">>("pdf");
+
+  const ready = period === "month" ? Boolean(month) : Boolean(from && to && from <= to);
+  const params = new URLSearchParams(period === "month"
+    ? { month, format }
+    : { from, to: to && nextDay(to), format });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-white/50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800"
+          data-testid="button-statements"
+        >
+          <FileText className="w-5 h-5 mr-2" />
+          Statement
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Download Statement</DialogTitle>
+          <DialogDescription>Opening balance, itemized activity, fees and closing balance for a period</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Period</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as "month" | "custom")}>
+              <SelectTrigger className="mt-2" data-testid="select-statement-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Calendar month</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {period === "month" ? (
+            <div>
+              <Label htmlFor="statement-month">Month</Label>
+              <Input
+                id="statement-month"
+                type="month"
+                className="mt-2"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                data-testid="input-statement-month"
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="statement-from">From</Label>
+                <Input
+                  id="statement-from"
+                  type="date"
+                  className="mt-2"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  data-testid="input-statement-from"
+                />
+              </div>
+              <div>
+                <Label htmlFor="statement-to">To</Label>
+                <Input
+                  id="statement-to"
+                  type="date"
+                  className="mt-2"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  data-testid="input-statement-to"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as Exclude<StatementFormat, "json">)}>
+              <SelectTrigger className="mt-2" data-testid="select-statement-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">Dates are in UTC.</p>
+          {ready ? (
+            <Button asChild className="w-full" data-testid="button-download-statement">
+              <a href={`/api/statements?${params}`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          ) : (
+            <Button className="w-full" disabled data-testid="button-download-statement">
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { Badge } from "@/components/ui/badge";
+import { Clock, CreditCard, Building2, TrendingUp, Zap } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Link } from "wouter";
+import type { Transaction } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+interface TransactionRowProps {
+  transaction: Transaction;
+}
+
+export default function TransactionRow({ transaction }: TransactionRowProps) {
+  return (
+    <Link
+      href={`/transactions/${transaction.id}`}
+      className="flex items-center justify-between p-4 rounded-lg border border-border/50 hover:bg-primary/5 transition-colors"
+      data-testid={`transaction-${transaction.id}`}
+    >
+      <div className="flex items-center space-x-4">
+        <div className={`p-2 rounded-lg ${
+          transaction.type === 'deposit' 
+            ? 'bg-green-500/10' 
+            : 'bg-red-500/10'
+        }`}>
+          {transaction.type === 'deposit' ? (
+            <TrendingUp className="w-5 h-5 text-green-400" />
+          ) : transaction.paymentMethodName && (transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX')) ? (
+            <CreditCard className="w-5 h-5 text-red-400" />
+          ) : (
+            <Building2 className="w-5 h-5 text-red-400" />
+          )}
+        </div>
+        <div>
+          <p className="font-semibold text-foreground">
+            {transaction.type === 'deposit' 
+              ? transaction.fundingMethod === 'ach' ? 'Bank Deposit' : 'Card Deposit' 
+              : transaction.paymentMethodName && (transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX'))
+                ? 'Instant Card Transfer'
+                : 'Standard Transfer'
+            }
+          </p>
+          {transaction.type === 'withdrawal' && transaction.paymentMethodName && (
+            <div>
+              <p className="text-sm text-muted-foreground">
+                To: {transaction.paymentMethodName}
+              </p>
+              {transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX') ? (
+                <div className="flex items-center text-xs text-muted-foreground">
+                  <Zap className="w-3 h-3 mr-1" />
+                  <span>Instant transfer</span>
+                </div>
+              ) : (
+                <div className="flex items-center text-xs text-muted-foreground">
+                  <Clock className="w-3 h-3 mr-1" />
+                  <span>1-3 business days</span>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Clock className="w-3 h-3 mr-1" />
+            {formatDistanceToNow(new Date(transaction.createdAt), { addSuffix: true })}
+          </div>
+          {transaction.status === 'pending' && transaction.settlesAt && (
+            <p className="text-xs text-muted-foreground" data-testid={`settles-at-${transaction.id}`}>
+              Available {format(new Date(transaction.settlesAt), "MMM d")}
+            </p>
+          )}
+          {(transaction.status === 'failed' || transaction.status === 'returned') && transaction.failureReason && (
+            <p className="text-xs text-red-400" data-testid={`failure-reason-${transaction.id}`}>
+              {transaction.failureReason}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="text-right">
+        {transaction.isSandbox && (
+          <Badge
+            variant="outline"
+            className="mb-1 mr-1 border-purple-400 text-purple-300"
+            data-testid={`sandbox-${transaction.id}`}
+          >
+            Test funds
+          </Badge>
+        )}
+        {transaction.status !== 'completed' && (
+          <Badge
+            variant={transaction.status === 'pending' ? 'secondary' : 'destructive'}
+            className="mb-1"
+            data-testid={`status-${transaction.id}`}
+          >
+            {transaction.status === 'failed' ? 'Failed' : transaction.status === 'returned' ? 'Returned' : 'Pending'}
+          </Badge>
+        )}
+        <p className={`font-semibold ${
+          transaction.status === 'failed' || transaction.status === 'returned'
+            ? 'text-muted-foreground line-through'
+            : transaction.type === 'deposit' ? 'text-green-400' : 'text-red-400'
+        }`}>
+          {transaction.type === 'deposit' ? '+' : '-'}{formatMoney(transaction.amount, transaction.currency)}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Net: {formatMoney(transaction.netAmount, transaction.currency)}
+        </p>
+        {transaction.fee > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Fee: {formatMoney(transaction.fee, transaction.currency)}
+          </p>
+        )}
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query"
+import type { FeeDirection, FeeQuote, FeeRule } from "@shared/fees"
+
+type DescribedFeeRule = FeeRule & { description: string }
+
+/**
+ * Fee breakdown from the server for an amount in minor units; nothing is
+ * fetched until there is a positive amount and a method
+ */
+export function useFeeQuote(type: FeeDirection, method: string | undefined, amount: number) {
+  const params = new URLSearchParams({ type, method: method ?? "", amount: String(amount) })
+
+  return useQuery<FeeQuote>({
+    queryKey: [`/api/fees/quote?${params}`],
+    enabled: Boolean(method) && amount > 0,
+    retry: false,
+  })
+}
+
+/**
+ * Label for a method's fee from the server's schedule, e.g. "$1.50 fee"
+ */
+export function useFeeLabel() {
+  const { data: rules } = useQuery<DescribedFeeRule[]>({
+    queryKey: ["/api/fees"],
+  })
+
+  return (type: FeeDirection, method: string) =>
+    rules?.find(rule => rule.type === type && rule.method === method && !rule.currency)?.description
+}
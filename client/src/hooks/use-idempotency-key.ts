@@ -0,0 +1,28 @@
+import * as React from "react"
+
+/**
+ * One Idempotency-Key per submit attempt: repeated submits and retries after a
+ * failure reuse the key, so a request that did go through is replayed rather
+ * than repeated. reset() after a success, and a change to any of `inputs` (the
+ * form's amount, destination and so on), start a fresh attempt.
+ */
+export function useIdempotencyKey(inputs: unknown[] = []) {
+  const keyRef = React.useRef<string | null>(null)
+
+  React.useEffect(() => {
+    keyRef.current = null
+  }, inputs)
+
+  const current = React.useCallback(() => {
+    if (!keyRef.current) {
+      keyRef.current = crypto.randomUUID()
+    }
+    return keyRef.current
+  }, [])
+
+  const reset = React.useCallback(() => {
+    keyRef.current = null
+  }, [])
+
+  return { current, reset }
+}
@@ -0,0 +1,21 @@
+import { useQuery, type QueryClient } from "@tanstack/react-query"
+import type { LimitStatus } from "@shared/limits"
+
+/**
+ * Remaining deposit or withdrawal allowance for a method, from /api/limits
+ */
+export function useLimitStatus(type: "deposit" | "withdrawal", method: string) {
+  return useQuery<LimitStatus>({
+    queryKey: [`/api/limits?${new URLSearchParams({ type, method })}`],
+    staleTime: 0,
+  })
+}
+
+/**
+ * Refetch every limit status after a deposit or withdrawal
+ */
+export function invalidateLimits(queryClient: QueryClient) {
+  return queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/limits"),
+  })
+}
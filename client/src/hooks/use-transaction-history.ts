@@ -0,0 +1,53 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query"
+import { apiRequest } from "@/lib/queryClient"
+import type { TransactionPage } from "@shared/history"
+
+// Query string values for GET /api/transactions; amounts in minor units, dates as ISO strings
+export interface TransactionFilters {
+  type?: string
+  status?: string
+  method?: string
+  minAmount?: number
+  maxAmount?: number
+  from?: string
+  to?: string
+  search?: string
+}
+
+function historyUrl(filters: TransactionFilters, limit: number, cursor?: string | null) {
+  const params = new URLSearchParams()
+  Object.entries({ ...filters, limit, cursor }).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value))
+    }
+  })
+  return `/api/transactions?${params}`
+}
+
+async function fetchPage(url: string): Promise<TransactionPage> {
+  const response = await apiRequest("GET", url)
+  return response.json()
+}
+
+/**
+ * Filtered history, one cursor page at a time. Keys start with
+ * '/api/transactions' so invalidating that key refreshes every page.
+ */
+export function useTransactionHistory(filters: TransactionFilters, pageSize = 25) {
+  return useInfiniteQuery({
+    queryKey: ['/api/transactions', 'history', filters, pageSize],
+    queryFn: ({ pageParam }) => fetchPage(historyUrl(filters, pageSize, pageParam)),
+    initialPageParam: null as string | null,
+    getNextPageParam: (page) => page.nextCursor,
+  })
+}
+
+/**
+ * The newest transactions only, for summaries like the dashboard
+ */
+export function useRecentTransactions(limit = 10) {
+  return useQuery({
+    queryKey: ['/api/transactions', 'recent', limit],
+    queryFn: () => fetchPage(historyUrl({}, limit)),
+  })
+}
@@ -1,12 +1,23 @@
 import { apiRequest } from "./queryClient";
 
+export interface AuthUser {
+  id: string;
+  username: string;
+  isAdmin: boolean;
+}
+
 export interface AuthStatus {
   authenticated: boolean;
+  user: AuthUser | null;
 }
 
 export const authService = {
-  async login(password: string): Promise<void> {
-    await apiRequest("POST", "/api/auth/login", { password });
+  async login(username: string, password: string): Promise<void> {
+    await apiRequest("POST", "/api/auth/login", { username, password });
+  },
+
+  async register(username: string, password: string): Promise<void> {
+    await apiRequest("POST", "/api/auth/register", { username, password });
   },
 
   async logout(): Promise<void> {
@@ -3,18 +3,38 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(`${res.status}: ${errorMessage(text)}`);
   }
 }
 
+// API errors are JSON `{ error }` bodies; show just the message when there is one
+function errorMessage(text: string) {
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.error === "string" ? body.error : text;
+  } catch {
+    return text;
+  }
+}
+
+export interface ApiRequestOptions {
+  idempotencyKey?: string;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  options: ApiRequestOptions = {},
 ): Promise<Response> {
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  if (options.idempotencyKey) {
+    headers["Idempotency-Key"] = options.idempotencyKey;
+  }
+
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -1,15 +1,106 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { LinkBankAccountForm, VerifyBankAccountForm } from "@/components/link-bank-account";
 import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { invalidateLimits, useLimitStatus } from "@/hooks/use-limit-status";
+import LimitSummary from "@/components/limit-summary";
+import { useFeeQuote } from "@/hooks/use-fee-quote";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, ArrowRight, DollarSign, Building2, CreditCard } from "lucide-react";
-import type { Balance } from "@shared/schema";
+import { Plus, DollarSign, Building2, ShieldCheck } from "lucide-react";
+import type { Balance, PaymentMethod } from "@shared/schema";
+import { formatMoney, toMinorUnits } from "@shared/money";
+import { isVerifiedBankAccount } from "@shared/payment-methods";
+import { ACH_SETTLEMENT_BUSINESS_DAYS } from "@shared/ach";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "awaiting verification",
+  verified: "verified",
+  failed: "verification failed",
+};
+
+// Picks one of the user's linked bank accounts; pending accounts offer the micro-deposit check inline
+function BankAccountPicker({
+  accounts,
+  value,
+  onChange,
+  testId,
+}: {
+  accounts: PaymentMethod[];
+  value: string;
+  onChange: (id: string) => void;
+  testId: string;
+}) {
+  const [linking, setLinking] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const selected = accounts.find(account => account.id === value);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Bank Account</Label>
+        <Dialog open={linking} onOpenChange={setLinking}>
+          <DialogTrigger asChild>
+            <Button type="button" variant="link" size="sm" className="h-auto p-0" data-testid={`${testId}-link`}>
+              <Plus className="w-4 h-4 mr-1" />
+              Link a bank account
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Link Bank Account</DialogTitle>
+              <DialogDescription>We'll send two small deposits to confirm you own the account</DialogDescription>
+            </DialogHeader>
+            <LinkBankAccountForm
+              onLinked={(account) => {
+                onChange(account.id);
+                setLinking(false);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+      {accounts.length > 0 ? (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger data-testid={testId}>
+            <SelectValue placeholder="Choose a bank account" />
+          </SelectTrigger>
+          <SelectContent>
+            {accounts.map(account => (
+              <SelectItem key={account.id} value={account.id}>
+                {account.name} · {account.brand} ••••{account.identifier} ({STATUS_LABELS[account.verificationStatus ?? "pending"]})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-sm text-muted-foreground">No linked bank accounts yet</p>
+      )}
+      {selected?.verificationStatus === "pending" && (
+        <Dialog open={verifying} onOpenChange={setVerifying}>
+          <DialogTrigger asChild>
+            <Button type="button" variant="outline" size="sm" data-testid={`${testId}-verify`}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Enter micro-deposit amounts
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Verify {selected.name}</DialogTitle>
+            </DialogHeader>
+            <VerifyBankAccountForm account={selected} onVerified={() => setVerifying(false)} />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
 
 export default function ACH() {
   const { toast } = useToast();
@@ -17,48 +108,49 @@ export default function ACH() {
   
   // Deposit form state
   const [depositAmount, setDepositAmount] = useState<string>("");
-  const [bankName, setBankName] = useState<string>("");
-  const [accountNumber, setAccountNumber] = useState<string>("");
-  const [routingNumber, setRoutingNumber] = useState<string>("");
-  const [accountType, setAccountType] = useState<string>("checking");
+  const [depositAccountId, setDepositAccountId] = useState<string>("");
   
-  // Withdraw form state
-  const [withdrawAmount, setWithdrawAmount] = useState<string>("");
-  const [withdrawBankName, setWithdrawBankName] = useState<string>("");
-  const [withdrawAccountNumber, setWithdrawAccountNumber] = useState<string>("");
-  const [withdrawRoutingNumber, setWithdrawRoutingNumber] = useState<string>("");
-  const [withdrawAccountType, setWithdrawAccountType] = useState<string>("checking");
-
   // Get balance
   const { data: balance } = useQuery<Balance>({
     queryKey: ['/api/balance'],
   });
 
+  // Unverified accounts are listed so they can be verified here; deposits only come from verified ones
+  const { data: methodsData } = useQuery<{ paymentMethods: PaymentMethod[] }>({
+    queryKey: ['/api/payment-methods'],
+  });
+  const bankAccounts = (methodsData?.paymentMethods ?? [])
+    .filter(method => method.type === "bank_account" && method.verificationStatus !== "failed");
+  const verifiedAccounts = bankAccounts.filter(isVerifiedBankAccount);
+
+  // Preselect the default account, else the first one, once accounts load
+  useEffect(() => {
+    if (!depositAccountId && bankAccounts.length > 0) {
+      setDepositAccountId((bankAccounts.find(account => account.isDefault) ?? bankAccounts[0]).id);
+    }
+  }, [bankAccounts, depositAccountId]);
+
+  const { data: depositLimits } = useLimitStatus("deposit", "ach");
+
+  const depositKey = useIdempotencyKey([depositAmount, depositAccountId]);
+
   // ACH Deposit Mutation
   const depositMutation = useMutation({
-    mutationFn: async (data: {
-      amount: number;
-      bankName: string;
-      accountNumber: string;
-      routingNumber: string;
-      accountType: string;
-    }) => {
-      const response = await apiRequest("POST", "/api/ach-deposit", data);
+    mutationFn: async (data: { amount: number; paymentMethodId: string }) => {
+      const response = await apiRequest("POST", "/api/ach-deposit", data, { idempotencyKey: depositKey.current() });
       return response.json();
     },
     onSuccess: (data) => {
+      depositKey.reset();
       queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      invalidateLimits(queryClient);
       toast({
-        title: "✅ ACH Deposit Successful!",
+        title: data.transaction?.status === "pending" ? "⏳ ACH Deposit Pending" : "✅ ACH Deposit Successful!",
         description: data.message,
       });
       // Reset form
       setDepositAmount("");
-      setBankName("");
-      setAccountNumber("");
-      setRoutingNumber("");
-      setAccountType("checking");
     },
     onError: (error: any) => {
       toast({
@@ -69,46 +161,11 @@ export default function ACH() {
     },
   });
 
-  // ACH Withdrawal Mutation
-  const withdrawMutation = useMutation({
-    mutationFn: async (data: {
-      amount: number;
-      bankName: string;
-      accountNumber: string;
-      routingNumber: string;
-      accountType: string;
-    }) => {
-      const response = await apiRequest("POST", "/api/ach-withdraw", data);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
-      toast({
-        title: "✅ ACH Withdrawal Successful!",
-        description: data.message,
-      });
-      // Reset form
-      setWithdrawAmount("");
-      setWithdrawBankName("");
-      setWithdrawAccountNumber("");
-      setWithdrawRoutingNumber("");
-      setWithdrawAccountType("checking");
-    },
-    onError: (error: any) => {
-      toast({
-        title: "❌ ACH Withdrawal Failed", 
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   const handleDepositSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const amount = parseFloat(depositAmount);
+    const amount = toMinorUnits(depositAmount);
     
-    if (!amount || amount < 1) {
+    if (amount < 100) {
       toast({
         title: "Invalid amount",
         description: "Please enter an amount of $1 or more",
@@ -117,68 +174,39 @@ export default function ACH() {
       return;
     }
 
-    if (!bankName || !accountNumber || !routingNumber) {
+    if (!depositAccountId) {
       toast({
-        title: "Missing information",
-        description: "Please fill in all bank account details",
+        title: "No bank account",
+        description: "Link a bank account to deposit from",
         variant: "destructive",
       });
       return;
     }
 
-    depositMutation.mutate({
-      amount,
-      bankName,
-      accountNumber,
-      routingNumber,
-      accountType,
-    });
-  };
-
-  const handleWithdrawSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const amount = parseFloat(withdrawAmount);
-    
-    if (!amount || amount < 1) {
-      toast({
-        title: "Invalid amount",
-        description: "Please enter an amount of $1 or more",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!balance || amount > balance.currentBalance) {
+    if (!verifiedAccounts.some(account => account.id === depositAccountId)) {
       toast({
-        title: "Insufficient balance",
-        description: "You don't have enough balance for this withdrawal",
+        title: "Bank account not verified",
+        description: "Confirm this account's micro-deposits before depositing from it",
         variant: "destructive",
       });
       return;
     }
 
-    if (!withdrawBankName || !withdrawAccountNumber || !withdrawRoutingNumber) {
+    if (depositLimits?.remainingAmount != null && amount > depositLimits.remainingAmount) {
       toast({
-        title: "Missing information",
-        description: "Please fill in all bank account details",
+        title: "Over your limit",
+        description: `You can deposit up to ${formatMoney(depositLimits.remainingAmount)} by ACH right now`,
         variant: "destructive",
       });
       return;
     }
 
-    withdrawMutation.mutate({
-      amount,
-      bankName: withdrawBankName,
-      accountNumber: withdrawAccountNumber,
-      routingNumber: withdrawRoutingNumber,
-      accountType: withdrawAccountType,
-    });
+    depositMutation.mutate({ amount, paymentMethodId: depositAccountId });
   };
 
-  const depositFee = 0; // ACH deposits typically free
-  const withdrawFee = 1.00; // Small fee for ACH withdrawals
-  const depositNetAmount = parseFloat(depositAmount) || 0;
-  const withdrawNetAmount = Math.max(0, (parseFloat(withdrawAmount) || 0) - withdrawFee);
+  // Amounts are entered in dollars and handled in cents
+  const { data: depositQuote } = useFeeQuote("deposit", "ach", toMinorUnits(depositAmount));
+  const depositNetAmount = depositQuote?.netAmount ?? 0;
 
   return (
     <div className="lg:ml-64">
@@ -189,7 +217,7 @@ export default function ACH() {
               ACH Bank Transfers
             </h1>
             <p className="text-muted-foreground">
-              Add money from your bank account or send money to your bank account
+              Add money from your bank account
             </p>
           </div>
 
@@ -200,7 +228,7 @@ export default function ACH() {
                 <div>
                   <p className="text-sm text-green-700 dark:text-green-300">Current Balance</p>
                   <p className="text-2xl font-bold text-green-800 dark:text-green-200" data-testid="current-balance">
-                    ${balance?.currentBalance?.toFixed(2) || "0.00"}
+                    {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
                   </p>
                 </div>
                 <DollarSign className="w-8 h-8 text-green-600 dark:text-green-400" />
@@ -208,268 +236,90 @@ export default function ACH() {
             </CardContent>
           </Card>
 
-          <Tabs defaultValue="deposit" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="deposit" className="flex items-center gap-2">
-                <Plus className="w-4 h-4" />
-                Add Money (Deposit)
-              </TabsTrigger>
-              <TabsTrigger value="withdraw" className="flex items-center gap-2">
-                <ArrowRight className="w-4 h-4" />
-                Send Money (Withdraw)
-              </TabsTrigger>
-            </TabsList>
-
-            {/* ACH DEPOSIT TAB */}
-            <TabsContent value="deposit">
-              <Card className="backdrop-blur-sm bg-card/50 border border-border shadow-lg">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-green-700 dark:text-green-300">
-                    <Building2 className="w-5 h-5" />
-                    Deposit from Bank Account
-                  </CardTitle>
-                  <p className="text-sm text-muted-foreground">
-                    🏦 Add money from your bank account via ACH transfer (3-5 business days)
-                  </p>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={handleDepositSubmit} className="space-y-6">
-                    {/* Amount */}
-                    <div className="space-y-2">
-                      <Label htmlFor="deposit-amount">Amount to Deposit</Label>
-                      <div className="relative">
-                        <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                        <Input
-                          id="deposit-amount"
-                          type="number"
-                          step="0.01"
-                          min="1"
-                          placeholder="0.00"
-                          value={depositAmount}
-                          onChange={(e) => setDepositAmount(e.target.value)}
-                          className="pl-10"
-                          data-testid="input-deposit-amount"
-                        />
-                      </div>
-                    </div>
-
-                    {/* Bank Details */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="bank-name">Bank Name</Label>
-                        <Input
-                          id="bank-name"
-                          placeholder="Chase, Wells Fargo, etc."
-                          value={bankName}
-                          onChange={(e) => setBankName(e.target.value)}
-                          data-testid="input-bank-name"
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="account-type">Account Type</Label>
-                        <Select value={accountType} onValueChange={setAccountType}>
-                          <SelectTrigger data-testid="select-account-type">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="checking">Checking</SelectItem>
-                            <SelectItem value="savings">Savings</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+          <Card className="backdrop-blur-sm bg-card/50 border border-border shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-green-700 dark:text-green-300">
+                <Building2 className="w-5 h-5" />
+                Deposit from Bank Account
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                🏦 Add money from your bank account via ACH transfer (available after {ACH_SETTLEMENT_BUSINESS_DAYS} business days)
+              </p>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleDepositSubmit} className="space-y-6">
+                {/* Amount */}
+                <div className="space-y-2">
+                  <Label htmlFor="deposit-amount">Amount to Deposit</Label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="deposit-amount"
+                      type="number"
+                      step="0.01"
+                      min="1"
+                      placeholder="0.00"
+                      value={depositAmount}
+                      onChange={(e) => setDepositAmount(e.target.value)}
+                      className="pl-10"
+                      data-testid="input-deposit-amount"
+                    />
+                  </div>
+                  <LimitSummary type="deposit" method="ach" />
+                </div>
 
-                      <div className="space-y-2">
-                        <Label htmlFor="routing-number">Routing Number</Label>
-                        <Input
-                          id="routing-number"
-                          placeholder="9 digit routing number"
-                          value={routingNumber}
-                          onChange={(e) => setRoutingNumber(e.target.value)}
-                          data-testid="input-routing-number"
-                        />
-                      </div>
+                <BankAccountPicker
+                  accounts={bankAccounts}
+                  value={depositAccountId}
+                  onChange={setDepositAccountId}
+                  testId="select-deposit-account"
+                />
 
-                      <div className="space-y-2">
-                        <Label htmlFor="account-number">Account Number</Label>
-                        <Input
-                          id="account-number"
-                          placeholder="Your account number"
-                          value={accountNumber}
-                          onChange={(e) => setAccountNumber(e.target.value)}
-                          data-testid="input-account-number"
-                        />
-                      </div>
+                {/* Deposit Summary */}
+                {depositAmount && (
+                  <div className="bg-green-50 dark:bg-green-950/20 rounded-lg p-4 border border-green-200 dark:border-green-800">
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-green-700 dark:text-green-300">From Bank Account</span>
+                      <span className="font-medium text-red-400">-{formatMoney(toMinorUnits(depositAmount))}</span>
                     </div>
-
-                    {/* Deposit Summary */}
-                    {depositAmount && (
-                      <div className="bg-green-50 dark:bg-green-950/20 rounded-lg p-4 border border-green-200 dark:border-green-800">
-                        <div className="flex justify-between items-center text-sm">
-                          <span className="text-green-700 dark:text-green-300">From Bank Account</span>
-                          <span className="font-medium text-red-400">-${depositNetAmount.toFixed(2)}</span>
-                        </div>
-                        <div className="flex justify-between items-center text-sm mt-1">
-                          <span className="text-green-700 dark:text-green-300">ACH Fee</span>
-                          <span className="font-medium text-green-600">FREE</span>
-                        </div>
-                        <hr className="my-2 border-green-200 dark:border-green-800" />
-                        <div className="flex justify-between items-center">
-                          <span className="font-medium text-green-700 dark:text-green-300">Added to Balance</span>
-                          <span className="font-bold text-green-600 dark:text-green-400">+${depositNetAmount.toFixed(2)}</span>
-                        </div>
-                      </div>
-                    )}
-
-                    <Button 
-                      type="submit" 
-                      size="lg" 
-                      className="w-full bg-green-600 hover:bg-green-700"
-                      disabled={depositMutation.isPending}
-                      data-testid="button-ach-deposit"
-                    >
-                      {depositMutation.isPending ? (
-                        <>
-                          <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
-                          Processing ACH Deposit...
-                        </>
+                    <div className="flex justify-between items-center text-sm mt-1">
+                      <span className="text-green-700 dark:text-green-300">ACH Fee</span>
+                      {depositQuote && depositQuote.fee > 0 ? (
+                        <span className="font-medium">{formatMoney(depositQuote.fee, depositQuote.currency)}</span>
                       ) : (
-                        <>
-                          <Plus className="w-4 h-4 mr-2" />
-                          Deposit ${depositNetAmount.toFixed(2)} via ACH
-                        </>
+                        <span className="font-medium text-green-600">{depositQuote ? "FREE" : "…"}</span>
                       )}
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            {/* ACH WITHDRAWAL TAB */}
-            <TabsContent value="withdraw">
-              <Card className="backdrop-blur-sm bg-card/50 border border-border shadow-lg">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-blue-700 dark:text-blue-300">
-                    <CreditCard className="w-5 h-5" />
-                    Withdraw to Bank Account
-                  </CardTitle>
-                  <p className="text-sm text-muted-foreground">
-                    🏦 Send money to your bank account via ACH transfer (3-5 business days)
-                  </p>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={handleWithdrawSubmit} className="space-y-6">
-                    {/* Amount */}
-                    <div className="space-y-2">
-                      <Label htmlFor="withdraw-amount">Amount to Withdraw</Label>
-                      <div className="relative">
-                        <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                        <Input
-                          id="withdraw-amount"
-                          type="number"
-                          step="0.01"
-                          min="1"
-                          placeholder="0.00"
-                          value={withdrawAmount}
-                          onChange={(e) => setWithdrawAmount(e.target.value)}
-                          className="pl-10"
-                          data-testid="input-withdraw-amount"
-                        />
-                      </div>
                     </div>
-
-                    {/* Bank Details */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="withdraw-bank-name">Bank Name</Label>
-                        <Input
-                          id="withdraw-bank-name"
-                          placeholder="Chase, Wells Fargo, etc."
-                          value={withdrawBankName}
-                          onChange={(e) => setWithdrawBankName(e.target.value)}
-                          data-testid="input-withdraw-bank-name"
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="withdraw-account-type">Account Type</Label>
-                        <Select value={withdrawAccountType} onValueChange={setWithdrawAccountType}>
-                          <SelectTrigger data-testid="select-withdraw-account-type">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="checking">Checking</SelectItem>
-                            <SelectItem value="savings">Savings</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="withdraw-routing-number">Routing Number</Label>
-                        <Input
-                          id="withdraw-routing-number"
-                          placeholder="9 digit routing number"
-                          value={withdrawRoutingNumber}
-                          onChange={(e) => setWithdrawRoutingNumber(e.target.value)}
-                          data-testid="input-withdraw-routing-number"
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="withdraw-account-number">Account Number</Label>
-                        <Input
-                          id="withdraw-account-number"
-                          placeholder="Your account number"
-                          value={withdrawAccountNumber}
-                          onChange={(e) => setWithdrawAccountNumber(e.target.value)}
-                          data-testid="input-withdraw-account-number"
-                        />
-                      </div>
+                    <hr className="my-2 border-green-200 dark:border-green-800" />
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-green-700 dark:text-green-300">Added to Balance</span>
+                      <span className="font-bold text-green-600 dark:text-green-400">+{formatMoney(depositNetAmount)}</span>
                     </div>
+                  </div>
+                )}
 
-                    {/* Withdrawal Summary */}
-                    {withdrawAmount && (
-                      <div className="bg-blue-50 dark:bg-blue-950/20 rounded-lg p-4 border border-blue-200 dark:border-blue-800">
-                        <div className="flex justify-between items-center text-sm">
-                          <span className="text-blue-700 dark:text-blue-300">From Balance</span>
-                          <span className="font-medium text-red-400">-${parseFloat(withdrawAmount).toFixed(2)}</span>
-                        </div>
-                        <div className="flex justify-between items-center text-sm mt-1">
-                          <span className="text-blue-700 dark:text-blue-300">ACH Fee</span>
-                          <span className="font-medium">$1.00</span>
-                        </div>
-                        <hr className="my-2 border-blue-200 dark:border-blue-800" />
-                        <div className="flex justify-between items-center">
-                          <span className="font-medium text-blue-700 dark:text-blue-300">You'll Receive</span>
-                          <span className="font-bold text-blue-600 dark:text-blue-400">${withdrawNetAmount.toFixed(2)}</span>
-                        </div>
-                      </div>
-                    )}
-
-                    <Button 
-                      type="submit" 
-                      size="lg" 
-                      className="w-full bg-blue-600 hover:bg-blue-700"
-                      disabled={withdrawMutation.isPending}
-                      data-testid="button-ach-withdraw"
-                    >
-                      {withdrawMutation.isPending ? (
-                        <>
-                          <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
-                          Processing ACH Withdrawal...
-                        </>
-                      ) : (
-                        <>
-                          <ArrowRight className="w-4 h-4 mr-2" />
-                          Withdraw ${withdrawNetAmount.toFixed(2)} via ACH
-                        </>
-                      )}
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-          </Tabs>
+                <Button 
+                  type="submit" 
+                  size="lg" 
+                  className="w-full bg-green-600 hover:bg-green-700"
+                  disabled={depositMutation.isPending}
+                  data-testid="button-ach-deposit"
+                >
+                  {depositMutation.isPending ? (
+                    <>
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+                      Processing ACH Deposit...
+                    </>
+                  ) : (
+                    <>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Deposit {formatMoney(depositNetAmount)} via ACH
+                    </>
+                  )}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
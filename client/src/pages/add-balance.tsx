@@ -6,9 +6,13 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { apiRequest } from "@/lib/queryClient";
 import { DollarSign, Zap, Coins, CreditCard, Building2 } from "lucide-react";
 import type { Balance } from "@shared/schema";
+import { formatMoney, toMinorUnits } from "@shared/money";
+
+const MAX_DEPOSIT_AMOUNT = 5_000_000;
 
 export default function AddBalance() {
   const [amount, setAmount] = useState("");
@@ -19,12 +23,22 @@ export default function AddBalance() {
     queryKey: ['/api/balance'],
   });
 
+  // Credits here are test money; the server only accepts them in sandbox mode
+  const { data: sandbox } = useQuery<{ enabled: boolean }>({
+    queryKey: ['/api/sandbox'],
+  });
+  const sandboxEnabled = sandbox?.enabled ?? false;
+
+  const addBalanceKey = useIdempotencyKey([amount]);
+  const unlimitedMoneyKey = useIdempotencyKey([amount]);
+
   const addBalanceMutation = useMutation({
     mutationFn: async ({ amount }: { amount: number }) => {
-      const response = await apiRequest("POST", "/api/add-balance", { amount });
+      const response = await apiRequest("POST", "/api/add-balance", { amount }, { idempotencyKey: addBalanceKey.current() });
       return response.json();
     },
     onSuccess: () => {
+      addBalanceKey.reset();
       queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
       toast({
@@ -44,10 +58,11 @@ export default function AddBalance() {
 
   const unlimitedMoneyMutation = useMutation({
     mutationFn: async ({ amount, reason }: { amount: number; reason?: string }) => {
-      const response = await apiRequest("POST", "/api/add-unlimited-money", { amount, reason });
+      const response = await apiRequest("POST", "/api/add-unlimited-money", { amount, reason }, { idempotencyKey: unlimitedMoneyKey.current() });
       return response.json();
     },
     onSuccess: () => {
+      unlimitedMoneyKey.reset();
       queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
       toast({
@@ -68,8 +83,8 @@ export default function AddBalance() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const numAmount = parseFloat(amount);
-    if (!numAmount || numAmount < 0.01) {
+    const numAmount = toMinorUnits(amount);
+    if (numAmount < 1) {
       toast({
         title: "Invalid Amount",
         description: "Please enter a valid amount (minimum $0.01)",
@@ -78,10 +93,10 @@ export default function AddBalance() {
       return;
     }
 
-    if (numAmount > 50000) {
+    if (numAmount > MAX_DEPOSIT_AMOUNT) {
       toast({
         title: "Amount Too Large",
-        description: "Maximum amount is $50,000",
+        description: `Maximum amount is ${formatMoney(MAX_DEPOSIT_AMOUNT)}`,
         variant: "destructive",
       });
       return;
@@ -93,8 +108,8 @@ export default function AddBalance() {
   const handleUnlimitedMoney = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const numAmount = parseFloat(amount);
-    if (!numAmount || numAmount < 0.01) {
+    const numAmount = toMinorUnits(amount);
+    if (numAmount < 1) {
       toast({
         title: "Invalid Amount",
         description: "Please enter a valid amount (minimum $0.01)",
@@ -105,7 +120,7 @@ export default function AddBalance() {
 
     unlimitedMoneyMutation.mutate({ 
       amount: numAmount, 
-      reason: "Unlimited money generation - reserve backed" 
+      reason: "Sandbox test credit" 
     });
   };
 
@@ -113,7 +128,8 @@ export default function AddBalance() {
     setAmount("1000.00");
   };
 
-  const numAmount = parseFloat(amount) || 0;
+  // Entered in dollars, handled in cents
+  const numAmount = toMinorUnits(amount);
 
   return (
     <div className="lg:pl-64 pb-20 lg:pb-0 min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-green-900">
@@ -127,6 +143,17 @@ export default function AddBalance() {
         </div>
       </header>
 
+      <div className="px-4 sm:px-6 lg:px-8 pt-6">
+        <div
+          className="max-w-2xl mx-auto rounded-xl border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20 p-4 text-sm text-purple-800 dark:text-purple-200"
+          data-testid="notice-sandbox"
+        >
+          {sandboxEnabled
+            ? "Sandbox mode: balance added here is test funds. It can only be withdrawn through the sandbox rail."
+            : "Test credits are only available when the server runs in sandbox mode."}
+        </div>
+      </div>
+
       <div className="px-4 sm:px-6 lg:px-8 py-6">
         <div className="max-w-2xl mx-auto">
           <Tabs defaultValue="regular" className="w-full">
@@ -148,7 +175,7 @@ export default function AddBalance() {
               <div className="bg-gradient-to-r from-green-500/10 to-blue-500/10 dark:from-green-500/20 dark:to-blue-500/20 rounded-2xl p-6 mb-8 text-center border border-green-200 dark:border-green-800">
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Current Balance</p>
                 <p className="text-4xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent" data-testid="text-current-balance">
-                  ${balance?.currentBalance?.toFixed(2) || '0.00'}
+                  {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
                 </p>
                 <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Available to withdraw</p>
               </div>
@@ -189,7 +216,7 @@ export default function AddBalance() {
                       <div className="bg-muted rounded-lg p-4">
                         <div className="flex justify-between items-center text-sm">
                           <span className="text-muted-foreground">Amount Adding</span>
-                          <span className="font-medium text-green-400">+${numAmount.toFixed(2)}</span>
+                          <span className="font-medium text-green-400">+{formatMoney(numAmount)}</span>
                         </div>
                         <div className="flex justify-between items-center text-sm mt-1">
                           <span className="text-muted-foreground">Fees</span>
@@ -199,7 +226,7 @@ export default function AddBalance() {
                         <div className="flex justify-between items-center">
                           <span className="font-medium">New Balance</span>
                           <span className="font-bold text-primary">
-                            ${((balance?.currentBalance || 0) + numAmount).toFixed(2)}
+                            {formatMoney((balance?.currentBalance || 0) + numAmount)}
                           </span>
                         </div>
                       </div>
@@ -217,7 +244,7 @@ export default function AddBalance() {
                         type="submit" 
                         size="lg" 
                         className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white shadow-lg border-0"
-                        disabled={!amount || addBalanceMutation.isPending}
+                        disabled={!sandboxEnabled || !amount || addBalanceMutation.isPending}
                         data-testid="button-add-balance"
                       >
                         {addBalanceMutation.isPending ? (
@@ -228,7 +255,7 @@ export default function AddBalance() {
                         ) : (
                           <>
                             <DollarSign className="w-4 h-4 mr-2" />
-                            Add ${numAmount.toFixed(2)} - Free Money ✨
+                            Add {formatMoney(numAmount)} - Free Money ✨
                           </>
                         )}
                       </Button>
@@ -244,7 +271,7 @@ export default function AddBalance() {
                         onClick={() => toast({ title: "Credit Card Payment", description: "Stripe integration - coming soon!" })}
                       >
                         <CreditCard className="w-4 h-4 mr-2" />
-                        Pay ${numAmount.toFixed(2)} with Credit Card
+                        Pay {formatMoney(numAmount)} with Credit Card
                       </Button>
                       
                       {/* ACH Bank Transfer */}
@@ -258,7 +285,7 @@ export default function AddBalance() {
                         onClick={() => toast({ title: "Bank Transfer", description: "ACH transfer - coming soon!" })}
                       >
                         <Building2 className="w-4 h-4 mr-2" />
-                        Pay ${numAmount.toFixed(2)} with Bank Transfer
+                        Pay {formatMoney(numAmount)} with Bank Transfer
                       </Button>
                       
                       {/* Apple Pay / Google Pay */}
@@ -272,7 +299,7 @@ export default function AddBalance() {
                         onClick={() => toast({ title: "Digital Wallet", description: "Apple Pay / Google Pay - coming soon!" })}
                       >
                         <CreditCard className="w-4 h-4 mr-2" />
-                        Pay ${numAmount.toFixed(2)} with Digital Wallet
+                        Pay {formatMoney(numAmount)} with Digital Wallet
                       </Button>
                     </div>
 
@@ -296,7 +323,7 @@ export default function AddBalance() {
                   <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 rounded-lg p-4 mb-6 text-center border border-purple-200 dark:border-purple-800">
                     <p className="text-sm text-muted-foreground">Current Balance</p>
                     <p className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent" data-testid="text-current-balance-unlimited">
-                      ${balance?.currentBalance?.toFixed(2) || '0.00'}
+                      {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
                     </p>
                     <p className="text-xs text-purple-600 dark:text-purple-400 mt-1">
                       ✨ Unlimited Money Generation Available
@@ -324,7 +351,7 @@ export default function AddBalance() {
                         />
                       </div>
                       <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                        <span>💰 No limits • Reserve backed</span>
+                        <span>🧪 Test funds • Not reserve backed</span>
                         <Button 
                           type="button" 
                           variant="link" 
@@ -342,11 +369,11 @@ export default function AddBalance() {
                       <div className="bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-950/20 dark:to-blue-950/20 rounded-lg p-4 border border-purple-200 dark:border-purple-800">
                         <div className="flex justify-between items-center text-sm">
                           <span className="text-muted-foreground">Unlimited Money</span>
-                          <span className="font-medium text-purple-600">+${numAmount.toFixed(2)}</span>
+                          <span className="font-medium text-purple-600">+{formatMoney(numAmount)}</span>
                         </div>
                         <div className="flex justify-between items-center text-sm mt-1">
                           <span className="text-muted-foreground">Reserve Backing</span>
-                          <span className="font-medium text-green-400">✅ Guaranteed</span>
+                          <span className="font-medium text-amber-500">🧪 Test funds only</span>
                         </div>
                         <div className="flex justify-between items-center text-sm mt-1">
                           <span className="text-muted-foreground">Blockchain Ledger</span>
@@ -356,7 +383,7 @@ export default function AddBalance() {
                         <div className="flex justify-between items-center">
                           <span className="font-medium">New Balance</span>
                           <span className="font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-                            ${((balance?.currentBalance || 0) + numAmount).toFixed(2)}
+                            {formatMoney((balance?.currentBalance || 0) + numAmount)}
                           </span>
                         </div>
                       </div>
@@ -366,7 +393,7 @@ export default function AddBalance() {
                       type="submit" 
                       size="lg" 
                       className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
-                      disabled={!amount || unlimitedMoneyMutation.isPending}
+                      disabled={!sandboxEnabled || !amount || unlimitedMoneyMutation.isPending}
                       data-testid="button-unlimited-money"
                     >
                       {unlimitedMoneyMutation.isPending ? (
@@ -377,14 +404,14 @@ export default function AddBalance() {
                       ) : (
                         <>
                           <Zap className="w-4 h-4 mr-2" />
-                          Generate ${numAmount.toFixed(2)} Unlimited Money
+                          Generate {formatMoney(numAmount)} Unlimited Money
                         </>
                       )}
                     </Button>
 
                     <div className="text-xs text-center space-y-1">
                       <p className="text-purple-600 dark:text-purple-400">
-                        🏦 Backed by real money reserves
+                        🧪 Sandbox test funds, withdrawable only through the sandbox rail
                       </p>
                       <p className="text-muted-foreground">
                         🔗 Transparent blockchain ledger • ⚡ Instant availability
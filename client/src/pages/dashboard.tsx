@@ -2,18 +2,20 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Link } from "wouter";
 import { 
+  ArrowRight,
   DollarSign, 
-  TrendingUp, 
   TrendingDown, 
   RefreshCw,
-  Clock,
-  CreditCard,
-  Building2,
-  Zap
+  Clock
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import type { Balance, Transaction } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import TransactionRow from "@/components/transaction-row";
+import StatementDialog from "@/components/statement-dialog";
+import { useRecentTransactions } from "@/hooks/use-transaction-history";
 
 export default function Dashboard() {
   const { data: balance, isLoading: balanceLoading, refetch: refetchBalance } = useQuery<Balance>({
@@ -21,10 +23,8 @@ export default function Dashboard() {
     refetchInterval: false,
   });
 
-  const { data: transactions, isLoading: transactionsLoading, refetch: refetchTransactions } = useQuery<Transaction[]>({
-    queryKey: ['/api/transactions'],
-    refetchInterval: false,
-  });
+  const { data: recent, isLoading: transactionsLoading, refetch: refetchTransactions } = useRecentTransactions();
+  const transactions = recent?.transactions;
 
   const handleRefresh = () => {
     refetchBalance();
@@ -52,6 +52,7 @@ export default function Dashboard() {
               <p className="text-gray-600 dark:text-gray-300 mt-1">Manage your balance and transactions with ease</p>
             </div>
             <div className="flex items-center space-x-4">
+              <StatementDialog />
               <Button
                 variant="outline"
                 size="sm"
@@ -80,11 +81,18 @@ export default function Dashboard() {
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-blue-100 font-medium">Current Balance</p>
+                  <p className="text-blue-100 font-medium">Available</p>
                   <p className="text-4xl font-bold mt-2" data-testid="text-current-balance">
-                    ${balance?.currentBalance?.toFixed(2) || '0.00'}
+                    {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
+                  </p>
+                  <p className="text-blue-100 text-sm mt-1" data-testid="text-total-added">
+                    {formatMoney(balance?.totalAdded ?? 0, balance?.currency)} deposited in total
                   </p>
-                  <p className="text-blue-100 text-sm mt-1">Available to withdraw</p>
+                  {(balance?.sandboxBalance ?? 0) > 0 && (
+                    <Badge className="mt-2 bg-white/20 text-white hover:bg-white/20" data-testid="badge-sandbox-balance">
+                      Includes {formatMoney(balance!.sandboxBalance, balance!.currency)} test funds
+                    </Badge>
+                  )}
                 </div>
                 <div className="p-4 bg-white/20 rounded-2xl">
                   <DollarSign className="w-8 h-8" />
@@ -93,18 +101,18 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
-          <Card className="bg-gradient-to-br from-green-500 to-emerald-600 border-0 text-white shadow-xl">
+          <Card className="bg-gradient-to-br from-amber-500 to-orange-600 border-0 text-white shadow-xl">
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-green-100 font-medium">Total Added</p>
-                  <p className="text-4xl font-bold mt-2" data-testid="text-total-added">
-                    ${balance?.totalAdded?.toFixed(2) || '0.00'}
+                  <p className="text-amber-100 font-medium">Pending</p>
+                  <p className="text-4xl font-bold mt-2" data-testid="text-pending-balance">
+                    {formatMoney(balance?.pendingBalance ?? 0, balance?.currency)}
                   </p>
-                  <p className="text-green-100 text-sm mt-1">Lifetime deposits</p>
+                  <p className="text-amber-100 text-sm mt-1">Payouts and deposits not yet settled</p>
                 </div>
                 <div className="p-4 bg-white/20 rounded-2xl">
-                  <TrendingUp className="w-8 h-8" />
+                  <Clock className="w-8 h-8" />
                 </div>
               </div>
             </CardContent>
@@ -114,11 +122,11 @@ export default function Dashboard() {
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-purple-100 font-medium">Total Withdrawn</p>
-                  <p className="text-4xl font-bold mt-2" data-testid="text-total-withdrawn">
-                    ${balance?.totalWithdrawn?.toFixed(2) || '0.00'}
+                  <p className="text-purple-100 font-medium">Settled</p>
+                  <p className="text-4xl font-bold mt-2" data-testid="text-settled-balance">
+                    {formatMoney(balance?.settledBalance ?? 0, balance?.currency)}
                   </p>
-                  <p className="text-purple-100 text-sm mt-1">Lifetime withdrawals</p>
+                  <p className="text-purple-100 text-sm mt-1">Paid out to your accounts</p>
                 </div>
                 <div className="p-4 bg-white/20 rounded-2xl">
                   <TrendingDown className="w-8 h-8" />
@@ -133,80 +141,19 @@ export default function Dashboard() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle data-testid="transactions-title">Recent Transactions</CardTitle>
+              <Link href="/history">
+                <Button variant="ghost" size="sm" data-testid="link-view-history">
+                  View all
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </Button>
+              </Link>
             </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
               {transactions && transactions.length > 0 ? (
                 transactions.map((transaction: Transaction) => (
-                  <div 
-                    key={transaction.id} 
-                    className="flex items-center justify-between p-4 rounded-lg border border-border/50 hover:bg-primary/5 transition-colors"
-                    data-testid={`transaction-${transaction.id}`}
-                  >
-                    <div className="flex items-center space-x-4">
-                      <div className={`p-2 rounded-lg ${
-                        transaction.type === 'deposit' 
-                          ? 'bg-green-500/10' 
-                          : 'bg-red-500/10'
-                      }`}>
-                        {transaction.type === 'deposit' ? (
-                          <TrendingUp className="w-5 h-5 text-green-400" />
-                        ) : transaction.paymentMethodName && (transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX')) ? (
-                          <CreditCard className="w-5 h-5 text-red-400" />
-                        ) : (
-                          <Building2 className="w-5 h-5 text-red-400" />
-                        )}
-                      </div>
-                      <div>
-                        <p className="font-semibold text-foreground">
-                          {transaction.type === 'deposit' 
-                            ? 'Card Deposit' 
-                            : transaction.paymentMethodName && (transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX'))
-                              ? 'Instant Card Transfer'
-                              : 'Standard Transfer'
-                          }
-                        </p>
-                        {transaction.type === 'withdrawal' && transaction.paymentMethodName && (
-                          <div>
-                            <p className="text-sm text-muted-foreground">
-                              To: {transaction.paymentMethodName}
-                            </p>
-                            {transaction.paymentMethodName.includes('••••') || transaction.paymentMethodName.includes('VISA') || transaction.paymentMethodName.includes('MASTERCARD') || transaction.paymentMethodName.includes('AMEX') ? (
-                              <div className="flex items-center text-xs text-muted-foreground">
-                                <Zap className="w-3 h-3 mr-1" />
-                                <span>Instant transfer</span>
-                              </div>
-                            ) : (
-                              <div className="flex items-center text-xs text-muted-foreground">
-                                <Clock className="w-3 h-3 mr-1" />
-                                <span>1-3 business days</span>
-                              </div>
-                            )}
-                          </div>
-                        )}
-                        <div className="flex items-center text-sm text-muted-foreground">
-                          <Clock className="w-3 h-3 mr-1" />
-                          {formatDistanceToNow(new Date(transaction.createdAt), { addSuffix: true })}
-                        </div>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className={`font-semibold ${
-                        transaction.type === 'deposit' ? 'text-green-400' : 'text-red-400'
-                      }`}>
-                        {transaction.type === 'deposit' ? '+' : '-'}${transaction.amount.toFixed(2)}
-                      </p>
-                      <p className="text-sm text-muted-foreground">
-                        Net: ${transaction.netAmount.toFixed(2)}
-                      </p>
-                      {transaction.fee > 0 && (
-                        <p className="text-sm text-muted-foreground">
-                          Fee: ${transaction.fee.toFixed(2)}
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                  <TransactionRow key={transaction.id} transaction={transaction} />
                 ))
               ) : (
                 <div className="text-center py-8" data-testid="no-transactions">
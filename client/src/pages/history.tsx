@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import TransactionRow from "@/components/transaction-row";
+import { useTransactionHistory, type TransactionFilters } from "@/hooks/use-transaction-history";
+import { toMinorUnits } from "@shared/money";
+
+const ANY = "any";
+
+// Payout providers for withdrawals, funding methods for deposits
+const METHOD_OPTIONS = [
+  { value: "stripe", label: "Instant card (Stripe)" },
+  { value: "ach", label: "ACH bank transfer" },
+  { value: "card", label: "Card deposit" },
+  { value: "cashapp", label: "CashApp" },
+  { value: "dwolla", label: "Dwolla" },
+  { value: "wise", label: "Wise" },
+  { value: "usdc", label: "USDC" },
+  { value: "sandbox", label: "Sandbox" },
+  { value: "manual", label: "Manual credit" },
+  { value: "unlimited", label: "Unlimited credit" },
+];
+
+interface FilterForm {
+  type: string;
+  status: string;
+  method: string;
+  minAmount: string;
+  maxAmount: string;
+  from: string;
+  to: string;
+  search: string;
+}
+
+const EMPTY_FORM: FilterForm = {
+  type: ANY,
+  status: ANY,
+  method: ANY,
+  minAmount: "",
+  maxAmount: "",
+  from: "",
+  to: "",
+  search: "",
+};
+
+// Dates are whole local days; the server's `to` is exclusive, so it becomes the next midnight
+function toFilters(form: FilterForm): TransactionFilters {
+  const localMidnight = (day: string, offsetDays = 0) => {
+    const date = new Date(`${day}T00:00`);
+    date.setDate(date.getDate() + offsetDays);
+    return date.toISOString();
+  };
+
+  return {
+    type: form.type === ANY ? undefined : form.type,
+    status: form.status === ANY ? undefined : form.status,
+    method: form.method === ANY ? undefined : form.method,
+    minAmount: form.minAmount ? toMinorUnits(form.minAmount) : undefined,
+    maxAmount: form.maxAmount ? toMinorUnits(form.maxAmount) : undefined,
+    from: form.from ? localMidnight(form.from) : undefined,
+    to: form.to ? localMidnight(form.to, 1) : undefined,
+    search: form.search.trim() || undefined,
+  };
+}
+
+export default function History() {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filters, setFilters] = useState<TransactionFilters>({});
+
+  const {
+    data,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTransactionHistory(filters);
+
+  const transactions = data?.pages.flatMap(page => page.transactions) ?? [];
+  const update = (field: keyof FilterForm) => (value: string) => setForm(current => ({ ...current, [field]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(toFilters(form));
+  };
+
+  const handleClear = () => {
+    setForm(EMPTY_FORM);
+    setFilters({});
+  };
+
+  return (
+    <div className="lg:pl-64 pb-20 lg:pb-0 min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-blue-900">
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-40 shadow-sm">
+        <div className="px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent" data-testid="page-title">
+            Transaction History
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">Search and filter every deposit and withdrawal</p>
+        </div>
+      </header>
+
+      <div className="px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <Label htmlFor="history-search">Search</Label>
+                <div className="relative mt-2">
+                  <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="history-search"
+                    className="pl-9"
+                    value={form.search}
+                    onChange={(e) => update("search")(e.target.value)}
+                    placeholder="Card, bank or recipient name"
+                    data-testid="input-history-search"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={update("type")}>
+                  <SelectTrigger className="mt-2" data-testid="select-history-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All types</SelectItem>
+                    <SelectItem value="deposit">Deposits</SelectItem>
+                    <SelectItem value="withdrawal">Withdrawals</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={update("status")}>
+                  <SelectTrigger className="mt-2" data-testid="select-history-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All statuses</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="returned">Returned</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Method</Label>
+                <Select value={form.method} onValueChange={update("method")}>
+                  <SelectTrigger className="mt-2" data-testid="select-history-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All methods</SelectItem>
+                    {METHOD_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="history-min">Min $</Label>
+                  <Input
+                    id="history-min"
+                    type="number"
+                    className="mt-2"
+                    min="0"
+                    step="0.01"
+                    value={form.minAmount}
+                    onChange={(e) => update("minAmount")(e.target.value)}
+                    data-testid="input-history-min"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="history-max">Max $</Label>
+                  <Input
+                    id="history-max"
+                    type="number"
+                    className="mt-2"
+                    min="0"
+                    step="0.01"
+                    value={form.maxAmount}
+                    onChange={(e) => update("maxAmount")(e.target.value)}
+                    data-testid="input-history-max"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="history-from">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  className="mt-2"
+                  value={form.from}
+                  onChange={(e) => update("from")(e.target.value)}
+                  data-testid="input-history-from"
+                />
+              </div>
+              <div>
+                <Label htmlFor="history-to">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  className="mt-2"
+                  value={form.to}
+                  onChange={(e) => update("to")(e.target.value)}
+                  data-testid="input-history-to"
+                />
+              </div>
+              <div className="md:col-span-4 flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={handleClear} data-testid="button-clear-filters">
+                  <X className="w-4 h-4 mr-1" />
+                  Clear
+                </Button>
+                <Button type="submit" data-testid="button-apply-filters">
+                  Apply Filters
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="history-title">Transactions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : error ? (
+              <p className="text-center py-8 text-red-500" data-testid="history-error">{(error as Error).message}</p>
+            ) : transactions.length > 0 ? (
+              <div className="space-y-4">
+                {transactions.map(transaction => (
+                  <TransactionRow key={transaction.id} transaction={transaction} />
+                ))}
+                {hasNextPage && (
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      data-testid="button-load-more"
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-center py-8" data-testid="no-transactions">
+                <p className="text-muted-foreground">No transactions match these filters</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
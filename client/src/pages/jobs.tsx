@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle, RefreshCw, RotateCcw, XCircle } from "lucide-react";
+import type { Job } from "@shared/schema";
+import { JOB_STATUSES, describeJobType, type JobStatus, type PayoutResolution } from "@shared/jobs";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "secondary",
+  running: "outline",
+  succeeded: "default",
+  dead: "destructive",
+};
+
+function when(date: string | Date | null) {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "—";
+}
+
+// A dead payout job may leave its withdrawal pending; the admin settles it after checking with the provider
+function pendingPayout(job: Job) {
+  const payload = job.payload as { userId?: string; transactionId?: string } | null;
+  if (job.status !== "dead" || !job.type.startsWith("payout.") || !payload?.userId || !payload.transactionId) {
+    return null;
+  }
+  return { userId: payload.userId, transactionId: payload.transactionId };
+}
+
+function JobTable({ jobs, onRetry, retrying, onResolve, resolving, emptyText }: {
+  jobs: Job[];
+  onRetry: (id: string) => void;
+  retrying: boolean;
+  onResolve: (resolution: PayoutResolution) => void;
+  resolving: boolean;
+  emptyText: string;
+}) {
+  if (jobs.length === 0) {
+    return <p className="text-muted-foreground text-sm">{emptyText}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Job</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Next Run</TableHead>
+          <TableHead>Last Error</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {jobs.map((job) => {
+          const payout = pendingPayout(job);
+          return (
+            <TableRow key={job.id} data-testid={`job-${job.id}`}>
+              <TableCell className="font-medium">
+                {describeJobType(job.type)}
+                <p className="text-xs text-muted-foreground">{job.uniqueKey ?? job.id}</p>
+              </TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[job.status] ?? "secondary"}>{job.status}</Badge>
+              </TableCell>
+              <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+              <TableCell className="text-muted-foreground">
+                {job.status === "running" ? `Started ${when(job.lockedAt)}` : job.status === "queued" ? when(job.runAt) : "—"}
+              </TableCell>
+              <TableCell className="text-sm text-red-600 max-w-xs truncate" title={job.lastError ?? undefined}>
+                {job.lastError ?? ""}
+              </TableCell>
+              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                {payout && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onResolve({ ...payout, status: "completed" })}
+                      disabled={resolving}
+                      data-testid={`button-resolve-paid-${job.id}`}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Paid
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onResolve({ ...payout, status: "failed" })}
+                      disabled={resolving}
+                      data-testid={`button-resolve-failed-${job.id}`}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Not paid
+                    </Button>
+                  </>
+                )}
+                {job.status === "dead" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRetry(job.id)}
+                    disabled={retrying}
+                    data-testid={`button-retry-${job.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Jobs() {
+  const [status, setStatus] = useState<JobStatus | "all">("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stuck, isLoading, error } = useQuery<Job[]>({
+    queryKey: ['/api/jobs/stuck'],
+    retry: false,
+  });
+
+  const { data: recent } = useQuery<Job[]>({
+    queryKey: ['/api/jobs', status],
+    queryFn: async () => {
+      const response = await apiRequest("GET", status === "all" ? "/api/jobs" : `/api/jobs?status=${status}`);
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const refreshJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/jobs/stuck'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/retry`, {});
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: (job) => {
+      refreshJobs();
+      toast({
+        title: "Job Queued",
+        description: `${describeJobType(job.type)} will run again shortly`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (resolution: PayoutResolution) => {
+      const response = await apiRequest("POST", "/api/payouts/resolve", resolution);
+      return response.json();
+    },
+    onSuccess: (_data, resolution) => {
+      refreshJobs();
+      toast({
+        title: "Payout Resolved",
+        description: resolution.status === "completed" ? "The withdrawal is marked paid" : "The withdrawal failed and its funds were returned",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Resolve Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="lg:pl-64 pb-20 lg:pb-0 min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-blue-900">
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-40 shadow-sm">
+        <div className="px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent" data-testid="page-title">
+              Background Jobs
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300 mt-1">Payouts, status checks, settlement and reconciliation</p>
+          </div>
+          <Button variant="outline" onClick={refreshJobs} data-testid="button-refresh-jobs">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </header>
+
+      <div className="px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {error && (
+          <Card className="border-red-200 dark:border-red-800">
+            <CardContent className="p-6 text-red-600" data-testid="text-jobs-error">
+              {(error as Error).message}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading && <p className="text-muted-foreground">Loading jobs...</p>}
+
+        {stuck && (
+          <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur border-gray-200 dark:border-gray-700 shadow-xl">
+            <CardHeader>
+              <CardTitle>Needs Attention</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <JobTable
+                jobs={stuck}
+                onRetry={(id) => retryMutation.mutate(id)}
+                retrying={retryMutation.isPending}
+                onResolve={(resolution) => resolveMutation.mutate(resolution)}
+                resolving={resolveMutation.isPending}
+                emptyText="No dead or stalled jobs"
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur border-gray-200 dark:border-gray-700 shadow-xl">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Recent Jobs</CardTitle>
+            <Select value={status} onValueChange={(value) => setStatus(value as JobStatus | "all")}>
+              <SelectTrigger className="w-40" data-testid="select-job-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {JOB_STATUSES.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <JobTable
+              jobs={recent ?? []}
+              onRetry={(id) => retryMutation.mutate(id)}
+              retrying={retryMutation.isPending}
+              onResolve={(resolution) => resolveMutation.mutate(resolution)}
+              resolving={resolveMutation.isPending}
+              emptyText="No jobs yet"
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -8,23 +8,27 @@ import { useToast } from "@/hooks/use-toast";
 import { authService } from "@/lib/auth";
 
 export default function Login() {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const isRegister = mode === "register";
 
   const loginMutation = useMutation({
-    mutationFn: (password: string) => authService.login(password),
+    mutationFn: ({ username, password }: { username: string; password: string }) =>
+      isRegister ? authService.register(username, password) : authService.login(username, password),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/auth/status'] });
       toast({
-        title: "Login successful",
+        title: isRegister ? "Account created" : "Login successful",
         description: "Welcome to BalanceFlow!",
       });
     },
     onError: (error: any) => {
       toast({
-        title: "Login failed",
-        description: "Invalid password. Please try again.",
+        title: isRegister ? "Registration failed" : "Login failed",
+        description: isRegister ? error.message : "Invalid username or password. Please try again.",
         variant: "destructive",
       });
     },
@@ -32,15 +36,15 @@ export default function Login() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!password.trim()) {
+    if (!username.trim() || !password.trim()) {
       toast({
-        title: "Password required",
-        description: "Please enter your password.",
+        title: "Credentials required",
+        description: "Please enter your username and password.",
         variant: "destructive",
       });
       return;
     }
-    loginMutation.mutate(password);
+    loginMutation.mutate({ username: username.trim(), password });
   };
 
   return (
@@ -54,14 +58,27 @@ export default function Login() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Enter your username"
+                className="mt-2"
+                data-testid="input-username"
+              />
+            </div>
             <div>
               <Label htmlFor="password">Password</Label>
               <Input
                 type="password"
                 id="password"
+                autoComplete={isRegister ? "new-password" : "current-password"}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter dashboard password"
+                placeholder={isRegister ? "At least 8 characters" : "Enter your password"}
                 className="mt-2"
                 data-testid="input-password"
               />
@@ -73,9 +90,21 @@ export default function Login() {
               disabled={loginMutation.isPending}
               data-testid="button-login"
             >
-              {loginMutation.isPending ? "Authenticating..." : "Access Dashboard"}
+              {loginMutation.isPending
+                ? (isRegister ? "Creating account..." : "Authenticating...")
+                : (isRegister ? "Create Account" : "Access Dashboard")}
             </Button>
           </form>
+
+          <Button
+            type="button"
+            variant="link"
+            className="w-full mt-4"
+            onClick={() => setMode(isRegister ? "login" : "register")}
+            data-testid="button-toggle-auth-mode"
+          >
+            {isRegister ? "Already have an account? Log in" : "New here? Create an account"}
+          </Button>
           
         </CardContent>
       </Card>
@@ -0,0 +1,458 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import AddCardForm from "@/components/add-card-form";
+import { LinkBankAccountForm, VerifyBankAccountForm } from "@/components/link-bank-account";
+import { Building2, CreditCard, DollarSign, Mail, Pencil, Plus, ShieldCheck, Star, Trash2, Wallet, type LucideIcon } from "lucide-react";
+import type { PaymentMethod } from "@shared/schema";
+import { PAYMENT_METHOD_TYPES, PAYMENT_METHOD_TYPE_NAMES, formatCardExpiry, isCardExpired, type PaymentMethodType, type PaymentMethodUpdate } from "@shared/payment-methods";
+
+const ICONS: Record<PaymentMethodType, LucideIcon> = {
+  card: CreditCard,
+  bank_account: Building2,
+  cashapp: DollarSign,
+  paypal: Mail,
+  wallet: Wallet,
+};
+
+// Methods saved from a plain identifier; cards are vaulted and bank accounts linked with micro-deposits
+const SIMPLE_TYPES = ["cashapp", "paypal", "wallet"] as const;
+
+const IDENTIFIER_FIELDS: Record<typeof SIMPLE_TYPES[number], { label: string; placeholder: string }> = {
+  cashapp: { label: "$Cashtag", placeholder: "$yourname" },
+  paypal: { label: "PayPal email", placeholder: "you@example.com" },
+  wallet: { label: "Wallet address", placeholder: "0x..." },
+};
+
+function describe(method: PaymentMethod) {
+  switch (method.type) {
+    case "card": {
+      const expiry = formatCardExpiry(method);
+      return `${(method.brand ?? "card").toUpperCase()} ••••${method.identifier}${expiry ? ` · Expires ${expiry}` : ""}`;
+    }
+    case "bank_account":
+      return `${method.brand ?? "Bank"} ${method.accountType ?? ""} ••••${method.identifier} · Routing ${method.routingNumber ?? "—"}`;
+    case "wallet":
+      return `${method.brand ?? "ethereum"} ${method.identifier.slice(0, 6)}…${method.identifier.slice(-4)}`;
+    default:
+      return method.identifier;
+  }
+}
+
+function usePaymentMethodMutations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const onError = (error: any) => {
+    toast({ title: "Payment Method Error", description: error.message, variant: "destructive" });
+  };
+
+  const update = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: PaymentMethodUpdate }) => {
+      const response = await apiRequest("PATCH", `/api/payment-methods/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({ title: "Payment Method Updated" });
+    },
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/payment-methods/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({ title: "Payment Method Removed" });
+    },
+    onError,
+  });
+
+  return { update, remove };
+}
+
+function EditMethodDialog({ method }: { method: PaymentMethod }) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(method.name);
+  const [expMonth, setExpMonth] = useState(method.expMonth ? String(method.expMonth) : "");
+  const [expYear, setExpYear] = useState(method.expYear ? String(method.expYear) : "");
+  const { update } = usePaymentMethodMutations();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const changes: PaymentMethodUpdate = {};
+    if (name.trim() && name.trim() !== method.name) {
+      changes.name = name.trim();
+    }
+    if (method.type === "card" && expMonth && expYear
+      && (Number(expMonth) !== method.expMonth || Number(expYear) !== method.expYear)) {
+      changes.expMonth = Number(expMonth);
+      changes.expYear = Number(expYear);
+    }
+    if (Object.keys(changes).length === 0) {
+      setOpen(false);
+      return;
+    }
+    update.mutate({ id: method.id, changes }, { onSuccess: () => setOpen(false) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" data-testid={`button-edit-${method.id}`}>
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit {PAYMENT_METHOD_TYPE_NAMES[method.type as PaymentMethodType]}</DialogTitle>
+          <DialogDescription>{describe(method)}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="method-name">Name</Label>
+            <Input
+              id="method-name"
+              className="mt-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              data-testid="input-method-name"
+            />
+          </div>
+          {method.type === "card" && (
+            <div>
+              <Label>Expiry (after your bank reissues the card)</Label>
+              <div className="grid grid-cols-2 gap-4 mt-2">
+                <Input
+                  type="number"
+                  min="1"
+                  max="12"
+                  placeholder="MM"
+                  value={expMonth}
+                  onChange={(e) => setExpMonth(e.target.value)}
+                  data-testid="input-exp-month"
+                />
+                <Input
+                  type="number"
+                  min="2000"
+                  max="2100"
+                  placeholder="YYYY"
+                  value={expYear}
+                  onChange={(e) => setExpYear(e.target.value)}
+                  data-testid="input-exp-year"
+                />
+              </div>
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={update.isPending} data-testid="button-save-method">
+            {update.isPending ? "Saving..." : "Save"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VerifyDialog({ method }: { method: PaymentMethod }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-verify-${method.id}`}>
+          <ShieldCheck className="w-4 h-4 mr-1" />
+          Verify
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify {method.name}</DialogTitle>
+        </DialogHeader>
+        <VerifyBankAccountForm account={method} onVerified={() => setOpen(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MethodRow({ method }: { method: PaymentMethod }) {
+  const { update, remove } = usePaymentMethodMutations();
+  const Icon = ICONS[method.type as PaymentMethodType] ?? CreditCard;
+  const expired = isCardExpired(method);
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border" data-testid={`payment-method-${method.id}`}>
+      <div className="flex items-center space-x-3 min-w-0">
+        <Icon className="w-5 h-5 text-primary shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium truncate">{method.name}</p>
+          <p className="text-sm text-muted-foreground truncate">{describe(method)}</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {expired && <Badge variant="destructive" className="text-xs">Expired</Badge>}
+        {method.verificationStatus === "pending" && <VerifyDialog method={method} />}
+        {method.verificationStatus === "failed" && <Badge variant="destructive" className="text-xs">Verification failed</Badge>}
+        {method.isDefault ? (
+          <Badge variant="secondary" className="text-xs" data-testid={`badge-default-${method.id}`}>Default</Badge>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={expired || update.isPending}
+            onClick={() => update.mutate({ id: method.id, changes: { isDefault: true } })}
+            data-testid={`button-default-${method.id}`}
+          >
+            <Star className="w-4 h-4 mr-1" />
+            Make default
+          </Button>
+        )}
+        <EditMethodDialog method={method} />
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="icon" data-testid={`button-remove-${method.id}`}>
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove {method.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {method.isDefault
+                  ? "This is your default method; your newest remaining method becomes the default."
+                  : "You can add it again later."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => remove.mutate(method.id)} data-testid="button-confirm-remove">
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
+
+function AddMethodDialog() {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<typeof SIMPLE_TYPES[number]>("cashapp");
+  const [name, setName] = useState("");
+  const [identifier, setIdentifier] = useState("");
+  const [network, setNetwork] = useState("ethereum");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/payment-methods", {
+        type,
+        name,
+        identifier,
+        ...(type === "wallet" ? { brand: network } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-methods'] });
+      toast({ title: "Payment Method Added" });
+      setName("");
+      setIdentifier("");
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Payment Method Not Saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const field = IDENTIFIER_FIELDS[type];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-add-method">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Account
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Payment Method</DialogTitle>
+          <DialogDescription>Save a CashApp tag, PayPal email or crypto wallet for withdrawals</DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as typeof SIMPLE_TYPES[number])}>
+              <SelectTrigger className="mt-2" data-testid="select-method-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIMPLE_TYPES.map(option => (
+                  <SelectItem key={option} value={option}>{PAYMENT_METHOD_TYPE_NAMES[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new-method-name">Name</Label>
+            <Input
+              id="new-method-name"
+              className="mt-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Personal, Business"
+              maxLength={50}
+              required
+              data-testid="input-new-method-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-method-identifier">{field.label}</Label>
+            <Input
+              id="new-method-identifier"
+              className="mt-2"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder={field.placeholder}
+              required
+              data-testid="input-new-method-identifier"
+            />
+          </div>
+          {type === "wallet" && (
+            <div>
+              <Label>Network</Label>
+              <Select value={network} onValueChange={setNetwork}>
+                <SelectTrigger className="mt-2" data-testid="select-wallet-network">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ethereum">Ethereum</SelectItem>
+                  <SelectItem value="polygon">Polygon</SelectItem>
+                  <SelectItem value="base">Base</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={addMutation.isPending} data-testid="button-save-new-method">
+            {addMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function PaymentMethods() {
+  const [showAddCard, setShowAddCard] = useState(false);
+  const [showLinkBank, setShowLinkBank] = useState(false);
+
+  const { data, isLoading } = useQuery<{ paymentMethods: PaymentMethod[] }>({
+    queryKey: ['/api/payment-methods'],
+  });
+
+  const methods = data?.paymentMethods ?? [];
+  const groups = PAYMENT_METHOD_TYPES
+    .map(type => ({ type, methods: methods.filter(method => method.type === type) }))
+    .filter(group => group.methods.length > 0);
+
+  return (
+    <div className="lg:pl-64 pb-20 lg:pb-0">
+      <header className="bg-card/50 backdrop-blur-sm border-b border-border sticky top-0 z-40">
+        <div className="px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground" data-testid="page-title">
+              Payment Methods
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Saved cards and accounts; your default is preselected for withdrawals
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Dialog open={showAddCard} onOpenChange={setShowAddCard}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" data-testid="button-add-card">
+                  <CreditCard className="w-4 h-4 mr-2" />
+                  Add Card
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Card</DialogTitle>
+                </DialogHeader>
+                <AddCardForm onAdd={() => setShowAddCard(false)} />
+              </DialogContent>
+            </Dialog>
+            <Dialog open={showLinkBank} onOpenChange={setShowLinkBank}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" data-testid="button-link-bank-account">
+                  <Building2 className="w-4 h-4 mr-2" />
+                  Link Bank
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Link Bank Account</DialogTitle>
+                  <DialogDescription>We'll send two small deposits to confirm you own the account</DialogDescription>
+                </DialogHeader>
+                <LinkBankAccountForm onLinked={() => setShowLinkBank(false)} />
+              </DialogContent>
+            </Dialog>
+            <AddMethodDialog />
+          </div>
+        </div>
+      </header>
+
+      <div className="px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {isLoading && <p className="text-muted-foreground">Loading payment methods...</p>}
+
+          {!isLoading && methods.length === 0 && (
+            <Card>
+              <CardContent className="text-center py-8 text-muted-foreground">
+                <Wallet className="w-12 h-12 mx-auto mb-4 text-muted-foreground/50" />
+                <p className="text-lg font-medium mb-2">No payment methods yet</p>
+                <p className="text-sm">Add a card or account to start moving money</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {groups.map(group => {
+            const Icon = ICONS[group.type];
+            return (
+              <Card key={group.type} data-testid={`group-${group.type}`}>
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center">
+                    <Icon className="w-5 h-5 mr-2" />
+                    {PAYMENT_METHOD_TYPE_NAMES[group.type]}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-3">
+                  {group.methods.map(method => <MethodRow key={method.id} method={method} />)}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
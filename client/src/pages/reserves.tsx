@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { Download, Landmark, RefreshCw, Scale, ShieldAlert, ShieldCheck } from "lucide-react";
+import { RESERVE_RAILS, RESERVE_RAIL_NAMES, type ReserveRail, type ReserveReport } from "@shared/reserves";
+import { formatMoney, toMinorUnits } from "@shared/money";
+
+interface SyncResult {
+  rail: ReserveRail;
+  error?: string;
+}
+
+export default function Reserves() {
+  const [rail, setRail] = useState<ReserveRail>("bank");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: report, isLoading, error } = useQuery<ReserveReport>({
+    queryKey: ['/api/reserves/report'],
+    retry: false,
+  });
+
+  const refreshReport = () => queryClient.invalidateQueries({ queryKey: ['/api/reserves/report'] });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reserves/holdings", {
+        rail,
+        amount: toMinorUnits(amount),
+        note: note || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshReport();
+      toast({
+        title: "Holding Recorded",
+        description: `${RESERVE_RAIL_NAMES[rail]} updated`,
+      });
+      setAmount("");
+      setNote("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Record Holding",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reserves/sync", {});
+      return response.json() as Promise<SyncResult[]>;
+    },
+    onSuccess: (results) => {
+      refreshReport();
+      const failed = results.filter(result => result.error);
+      toast({
+        title: failed.length ? "Some Rails Failed to Sync" : "Reserves Synced",
+        description: failed.length
+          ? failed.map(result => `${RESERVE_RAIL_NAMES[result.rail]}: ${result.error}`).join("; ")
+          : "Stripe and USDC holdings were refreshed",
+        variant: failed.length ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sync Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || toMinorUnits(amount) < 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter the amount the rail holds",
+        variant: "destructive",
+      });
+      return;
+    }
+    recordMutation.mutate();
+  };
+
+  return (
+    <div className="lg:pl-64 pb-20 lg:pb-0 min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-blue-900">
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-40 shadow-sm">
+        <div className="px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent" data-testid="page-title">
+              Treasury Reserves
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300 mt-1">Treasury holdings per rail against what users are owed</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => syncMutation.mutate()}
+              disabled={syncMutation.isPending}
+              data-testid="button-sync-reserves"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+              Sync from Providers
+            </Button>
+            <Button asChild data-testid="button-download-report">
+              <a href="/api/reserves/report?format=csv" download>
+                <Download className="w-4 h-4 mr-2" />
+                Download Report
+              </a>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {error && (
+          <Card className="border-red-200 dark:border-red-800">
+            <CardContent className="p-6 text-red-600" data-testid="text-reserves-error">
+              {(error as Error).message}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading && <p className="text-muted-foreground">Loading reserves...</p>}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card className="bg-gradient-to-br from-blue-500 to-blue-600 border-0 text-white shadow-xl">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-blue-100 font-medium">Reserves</p>
+                      <p className="text-4xl font-bold mt-2" data-testid="text-total-reserves">
+                        {formatMoney(report.totalReserves, report.currency)}
+                      </p>
+                    </div>
+                    <div className="p-4 bg-white/20 rounded-2xl">
+                      <Landmark className="w-8 h-8" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-gradient-to-br from-amber-500 to-orange-600 border-0 text-white shadow-xl">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-amber-100 font-medium">Liabilities</p>
+                      <p className="text-4xl font-bold mt-2" data-testid="text-total-liabilities">
+                        {formatMoney(report.liabilities.total, report.currency)}
+                      </p>
+                      <p className="text-amber-100 text-sm mt-1">
+                        {formatMoney(report.liabilities.payoutsInFlight, report.currency)} in flight
+                      </p>
+                    </div>
+                    <div className="p-4 bg-white/20 rounded-2xl">
+                      <Scale className="w-8 h-8" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className={`bg-gradient-to-br ${report.covered ? "from-green-500 to-emerald-600" : "from-red-500 to-rose-600"} border-0 text-white shadow-xl`}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-white/80 font-medium">{report.covered ? "Surplus" : "Shortfall"}</p>
+                      <p className="text-4xl font-bold mt-2" data-testid="text-reserve-surplus">
+                        {formatMoney(Math.abs(report.surplus), report.currency)}
+                      </p>
+                      <p className="text-white/80 text-sm mt-1">
+                        {report.covered ? "Withdrawals are open" : "Real-rail withdrawals are paused"}
+                      </p>
+                    </div>
+                    <div className="p-4 bg-white/20 rounded-2xl">
+                      {report.covered ? <ShieldCheck className="w-8 h-8" /> : <ShieldAlert className="w-8 h-8" />}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur border-gray-200 dark:border-gray-700 shadow-xl">
+              <CardHeader>
+                <CardTitle>Holdings by Rail</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rail</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Recorded</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.holdings.map((holding) => (
+                      <TableRow key={holding.id} data-testid={`holding-${holding.rail}`}>
+                        <TableCell className="font-medium">
+                          {RESERVE_RAIL_NAMES[holding.rail as ReserveRail] ?? holding.rail}
+                          {holding.note && <p className="text-xs text-muted-foreground">{holding.note}</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{holding.source}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {formatDistanceToNow(new Date(holding.recordedAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatMoney(holding.amount, holding.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {report.missingRails.map((missing) => (
+                      <TableRow key={missing} data-testid={`holding-${missing}`}>
+                        <TableCell className="font-medium">{RESERVE_RAIL_NAMES[missing]}</TableCell>
+                        <TableCell>
+                          <Badge variant="destructive">Not recorded</Badge>
+                        </TableCell>
+                        <TableCell />
+                        <TableCell className="text-right text-muted-foreground">—</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="mt-6 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">User wallets</span>
+                    <span>{formatMoney(report.liabilities.userWallets, report.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Payouts in flight</span>
+                    <span>{formatMoney(report.liabilities.payoutsInFlight, report.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Less test funds</span>
+                    <span>-{formatMoney(report.liabilities.testFunds, report.currency)}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur border-gray-200 dark:border-gray-700 shadow-xl">
+          <CardHeader>
+            <CardTitle>Record a Holding</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label>Rail</Label>
+                <Select value={rail} onValueChange={(value) => setRail(value as ReserveRail)}>
+                  <SelectTrigger className="mt-2" data-testid="select-reserve-rail">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESERVE_RAILS.map((option) => (
+                      <SelectItem key={option} value={option}>{RESERVE_RAIL_NAMES[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reserve-amount">Amount Held</Label>
+                <Input
+                  id="reserve-amount"
+                  type="number"
+                  className="mt-2"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  min="0"
+                  step="0.01"
+                  data-testid="input-reserve-amount"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reserve-note">Note</Label>
+                <Input
+                  id="reserve-note"
+                  className="mt-2"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Bank statement 30 Sep"
+                  data-testid="input-reserve-note"
+                />
+              </div>
+              <Button type="submit" disabled={!amount || recordMutation.isPending} data-testid="button-record-holding">
+                {recordMutation.isPending ? "Recording..." : "Record Holding"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { format } from "date-fns";
+import { ArrowLeft, Banknote, CheckCircle2, Clock, PlusCircle, RotateCcw, Send, Undo2, XCircle, type LucideIcon } from "lucide-react";
+import type { TransactionDetail as TransactionDetailResponse, TransactionEvent } from "@shared/history";
+import { formatMoney } from "@shared/money";
+
+const EVENTS: Record<TransactionEvent, { label: string; icon: LucideIcon; color: string }> = {
+  created: { label: "Created", icon: PlusCircle, color: "text-blue-500" },
+  pending: { label: "Pending", icon: Clock, color: "text-yellow-500" },
+  submitted: { label: "Submitted to provider", icon: Send, color: "text-purple-500" },
+  collected: { label: "Collected from the bank", icon: Banknote, color: "text-blue-500" },
+  paid: { label: "Paid", icon: CheckCircle2, color: "text-green-500" },
+  failed: { label: "Failed", icon: XCircle, color: "text-red-500" },
+  reversed: { label: "Reversed", icon: RotateCcw, color: "text-orange-500" },
+  returned: { label: "Returned by the bank", icon: Undo2, color: "text-red-500" },
+};
+
+function DetailRow({ label, value, testId }: { label: string; value: string | null; testId: string }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 border-b border-border/50 last:border-0">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right break-all" data-testid={testId}>{value ?? "—"}</span>
+    </div>
+  );
+}
+
+export default function TransactionDetail() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data, isLoading, error } = useQuery<TransactionDetailResponse>({
+    queryKey: ['/api/transactions', id],
+    retry: false,
+  });
+
+  const transaction = data?.transaction;
+
+  return (
+    <div className="lg:pl-64 pb-20 lg:pb-0 min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-blue-900">
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-40 shadow-sm">
+        <div className="px-4 sm:px-6 lg:px-8 py-6 flex items-center gap-4">
+          <Link href="/history">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent" data-testid="page-title">
+              {transaction?.type === 'withdrawal' ? 'Withdrawal' : transaction ? 'Deposit' : 'Transaction'}
+            </h1>
+            {transaction && (
+              <p className="text-gray-600 dark:text-gray-300 mt-1">
+                {format(new Date(transaction.createdAt), "PPpp")}
+              </p>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {error && (
+          <Card className="border-red-200 dark:border-red-800">
+            <CardContent className="p-6 text-red-600" data-testid="text-transaction-error">
+              {(error as Error).message}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading && <p className="text-muted-foreground">Loading transaction...</p>}
+
+        {data && transaction && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Details</CardTitle>
+                <div className="flex gap-2">
+                  {transaction.isSandbox && (
+                    <Badge variant="outline" className="border-purple-400 text-purple-500">Test funds</Badge>
+                  )}
+                  <Badge
+                    variant={transaction.status === 'failed' || transaction.status === 'returned' ? 'destructive' : transaction.status === 'pending' ? 'secondary' : 'default'}
+                    className="capitalize"
+                    data-testid="badge-status"
+                  >
+                    {transaction.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <DetailRow label="Amount" value={formatMoney(transaction.amount, transaction.currency)} testId="text-amount" />
+                <DetailRow label="Fee" value={formatMoney(transaction.fee, transaction.currency)} testId="text-fee" />
+                <DetailRow label="Net" value={formatMoney(transaction.netAmount, transaction.currency)} testId="text-net" />
+                <DetailRow
+                  label="Method"
+                  value={transaction.type === 'withdrawal' ? transaction.payoutProvider : transaction.fundingMethod}
+                  testId="text-method"
+                />
+                <DetailRow label={transaction.type === 'withdrawal' ? "Destination" : "Source"} value={transaction.paymentMethodName} testId="text-payment-method" />
+                {transaction.stripePaymentIntentId && (
+                  <DetailRow label="Payment intent" value={transaction.stripePaymentIntentId} testId="text-payment-intent" />
+                )}
+                {transaction.stripePayoutId && (
+                  <DetailRow label="Provider payout ID" value={transaction.stripePayoutId} testId="text-payout-id" />
+                )}
+                {transaction.settlesAt && (
+                  <DetailRow
+                    label={transaction.status === 'pending' ? "Available on" : "Settlement date"}
+                    value={format(new Date(transaction.settlesAt), "PP")}
+                    testId="text-settles-at"
+                  />
+                )}
+                {transaction.returnCode && (
+                  <DetailRow label="Return code" value={transaction.returnCode} testId="text-return-code" />
+                )}
+                {transaction.failureReason && (
+                  <DetailRow
+                    label={transaction.status === 'returned' ? "Return reason" : "Failure reason"}
+                    value={transaction.failureReason}
+                    testId="text-failure-reason"
+                  />
+                )}
+                <DetailRow label="Transaction ID" value={transaction.id} testId="text-transaction-id" />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="relative border-l border-border ml-3 space-y-6" data-testid="list-status-history">
+                  {data.statusHistory.map(entry => {
+                    const event = EVENTS[entry.event as TransactionEvent] ?? EVENTS.pending;
+                    const Icon = event.icon;
+                    return (
+                      <li key={entry.id} className="ml-6" data-testid={`event-${entry.event}`}>
+                        <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-background">
+                          <Icon className={`w-5 h-5 ${event.color}`} />
+                        </span>
+                        <p className="font-semibold text-foreground">{event.label}</p>
+                        <p className="text-sm text-muted-foreground">{format(new Date(entry.createdAt), "PPpp")}</p>
+                        {entry.detail && <p className="text-sm text-muted-foreground break-all">{entry.detail}</p>}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
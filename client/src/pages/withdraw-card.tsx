@@ -10,200 +10,21 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useFeeLabel, useFeeQuote } from "@/hooks/use-fee-quote";
 import { apiRequest } from "@/lib/queryClient";
+import AddCardForm from "@/components/add-card-form";
 import { 
   CreditCard, 
   Plus, 
-  Trash2,
   ArrowRight,
   Shield,
   Clock,
   DollarSign
 } from "lucide-react";
-import type { Balance, UserCard } from "@shared/schema";
-
-interface CardFormData {
-  cardNumber: string;
-  expirationDate: string;
-  cvv: string;
-  zipCode: string;
-  cardName: string;
-}
-
-function AddCardForm({ onAdd }: { onAdd: () => void }) {
-  const [formData, setFormData] = useState<CardFormData>({
-    cardNumber: '',
-    expirationDate: '',
-    cvv: '',
-    zipCode: '',
-    cardName: ''
-  });
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
-
-  const addCardMutation = useMutation({
-    mutationFn: async (cardData: { cardName: string; cardLast4: string; cardBrand: string; stripeCardId?: string }) => {
-      const response = await apiRequest("POST", "/api/user-cards", cardData);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/user-cards'] });
-      toast({
-        title: "Card Added",
-        description: "Your card has been added successfully.",
-      });
-      onAdd();
-      // Reset form
-      setFormData({
-        cardNumber: '',
-        expirationDate: '',
-        cvv: '',
-        zipCode: '',
-        cardName: ''
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to add card.",
-        variant: "destructive",
-      });
-    },
-  });
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!formData.cardNumber || !formData.expirationDate || !formData.cvv || !formData.zipCode || !formData.cardName) {
-      toast({
-        title: "Error",
-        description: "Please fill in all fields.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Extract card info
-    const cardLast4 = formData.cardNumber.replace(/\s/g, '').slice(-4);
-    const cardBrand = getCardBrand(formData.cardNumber);
-    
-    addCardMutation.mutate({
-      cardName: formData.cardName,
-      cardLast4,
-      cardBrand,
-      stripeCardId: `card_test_${Date.now()}`
-    });
-  };
-
-  const getCardBrand = (cardNumber: string): string => {
-    const number = cardNumber.replace(/\s/g, '');
-    if (number.startsWith('4')) return 'visa';
-    if (number.startsWith('5') || number.startsWith('2')) return 'mastercard';
-    if (number.startsWith('3')) return 'amex';
-    return 'card';
-  };
-
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = matches && matches[0] || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return v;
-    }
-  };
-
-  const formatExpiration = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    if (v.length >= 2) {
-      return v.substring(0, 2) + '/' + v.substring(2, 4);
-    }
-    return v;
-  };
-
-  return (
-    <form onSubmit={handleSubmit} className="space-y-4">
-      <div>
-        <Label htmlFor="cardName">Card Name</Label>
-        <Input
-          id="cardName"
-          value={formData.cardName}
-          onChange={(e) => setFormData(prev => ({ ...prev, cardName: e.target.value }))}
-          placeholder="e.g., Main Visa, Business Card"
-          className="mt-2"
-          required
-        />
-      </div>
-
-      <div>
-        <Label htmlFor="cardNumber">Card Number</Label>
-        <Input
-          id="cardNumber"
-          value={formData.cardNumber}
-          onChange={(e) => setFormData(prev => ({ ...prev, cardNumber: formatCardNumber(e.target.value) }))}
-          placeholder="1234 5678 9012 3456"
-          className="mt-2"
-          maxLength={19}
-          required
-        />
-      </div>
-
-      <div className="grid grid-cols-3 gap-4">
-        <div>
-          <Label htmlFor="expirationDate">Expiration</Label>
-          <Input
-            id="expirationDate"
-            value={formData.expirationDate}
-            onChange={(e) => setFormData(prev => ({ ...prev, expirationDate: formatExpiration(e.target.value) }))}
-            placeholder="MM/YY"
-            className="mt-2"
-            maxLength={5}
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="cvv">CVV</Label>
-          <Input
-            id="cvv"
-            value={formData.cvv}
-            onChange={(e) => setFormData(prev => ({ ...prev, cvv: e.target.value.replace(/[^0-9]/g, '') }))}
-            placeholder="123"
-            className="mt-2"
-            maxLength={4}
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="zipCode">ZIP</Label>
-          <Input
-            id="zipCode"
-            value={formData.zipCode}
-            onChange={(e) => setFormData(prev => ({ ...prev, zipCode: e.target.value }))}
-            placeholder="12345"
-            className="mt-2"
-            maxLength={10}
-            required
-          />
-        </div>
-      </div>
-
-      <div className="flex space-x-2 pt-4">
-        <Button 
-          type="submit" 
-          className="flex-1"
-          disabled={addCardMutation.isPending}
-        >
-          {addCardMutation.isPending ? "Adding..." : "Add Card"}
-        </Button>
-      </div>
-    </form>
-  );
-}
+import type { Balance, PaymentMethod } from "@shared/schema";
+import { formatMoney, toMinorUnits } from "@shared/money";
+import { formatCardExpiry, isCardExpired } from "@shared/payment-methods";
 
 export default function DepositToCard() {
   const [amount, setAmount] = useState<string>("");
@@ -216,26 +37,31 @@ export default function DepositToCard() {
     queryKey: ['/api/balance'],
   });
 
-  const { data: cardsData, isLoading: cardsLoading } = useQuery<{ cards: UserCard[] }>({
-    queryKey: ['/api/user-cards']
+  const { data: methodsData, isLoading: cardsLoading } = useQuery<{ paymentMethods: PaymentMethod[] }>({
+    queryKey: ['/api/payment-methods']
   });
 
-  const cards = cardsData?.cards || [];
+  const cards = (methodsData?.paymentMethods || []).filter(method => method.type === "card");
 
-  // Set default card when data is loaded
+  const usableCards = cards.filter(card => !isCardExpired(card));
+
+  // Set default card when data is loaded; expired cards cannot be picked
   React.useEffect(() => {
-    if (cards.length > 0 && !selectedCardId) {
-      const defaultCard = cards.find(c => c.isDefault === 'true') || cards[0];
+    if (usableCards.length > 0 && !selectedCardId) {
+      const defaultCard = usableCards.find(c => c.isDefault) || usableCards[0];
       setSelectedCardId(defaultCard.id);
     }
-  }, [cards, selectedCardId]);
+  }, [usableCards, selectedCardId]);
+
+  const depositKey = useIdempotencyKey([amount, selectedCardId]);
 
   const depositMutation = useMutation({
     mutationFn: async ({ amount, cardId }: { amount: number; cardId: string }) => {
-      const response = await apiRequest("POST", "/api/deposit-to-card", { amount, cardId });
+      const response = await apiRequest("POST", "/api/deposit-to-card", { amount, cardId }, { idempotencyKey: depositKey.current() });
       return response.json();
     },
     onSuccess: () => {
+      depositKey.reset();
       queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
       setAmount("");
@@ -259,9 +85,9 @@ export default function DepositToCard() {
   const handleWithdraw = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const numAmount = parseFloat(amount);
+    const numAmount = toMinorUnits(amount);
     
-    if (!numAmount || numAmount < 1) {
+    if (numAmount < 100) {
       toast({
         title: "Invalid Amount",
         description: "Please enter a valid amount of at least $1.00",
@@ -291,9 +117,10 @@ export default function DepositToCard() {
     depositMutation.mutate({ amount: numAmount, cardId: selectedCardId });
   };
 
-  const numAmount = parseFloat(amount) || 0;
-  const fee = 0; // No fees for deposits
-  const netAmount = Math.max(0, numAmount - fee);
+  const numAmount = toMinorUnits(amount);
+  const { data: feeQuote } = useFeeQuote("deposit", "card", numAmount);
+  const feeLabel = useFeeLabel();
+  const netAmount = feeQuote?.netAmount ?? 0;
 
   if (isLoading || cardsLoading) {
     return (
@@ -326,7 +153,7 @@ export default function DepositToCard() {
               <div className="text-center">
                 <p className="text-sm text-muted-foreground mb-2">Available Balance</p>
                 <p className="text-3xl font-bold text-foreground" data-testid="balance-amount">
-                  ${balance?.currentBalance.toFixed(2) || "0.00"}
+                  {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
                 </p>
               </div>
             </CardContent>
@@ -359,32 +186,42 @@ export default function DepositToCard() {
             <CardContent>
               {cards.length > 0 ? (
                 <div className="grid gap-3">
-                  {cards.map((card) => (
+                  {cards.map((card) => {
+                    const expired = isCardExpired(card);
+                    const expiry = formatCardExpiry(card);
+                    return (
                     <div
                       key={card.id}
-                      className={`p-4 rounded-lg border cursor-pointer transition-colors ${
-                        selectedCardId === card.id 
-                          ? 'border-primary bg-primary/5' 
-                          : 'border-border hover:border-primary/50'
+                      className={`p-4 rounded-lg border transition-colors ${
+                        expired
+                          ? 'border-border opacity-60 cursor-not-allowed'
+                          : selectedCardId === card.id 
+                            ? 'border-primary bg-primary/5 cursor-pointer' 
+                            : 'border-border hover:border-primary/50 cursor-pointer'
                       }`}
-                      onClick={() => setSelectedCardId(card.id)}
+                      onClick={() => !expired && setSelectedCardId(card.id)}
+                      data-testid={`card-${card.id}`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-3">
                           <CreditCard className="w-5 h-5 text-primary" />
                           <div>
-                            <p className="font-medium">{card.cardName}</p>
+                            <p className="font-medium">{card.name}</p>
                             <p className="text-sm text-muted-foreground">
-                              {card.cardBrand.toUpperCase()} ••••{card.cardLast4}
+                              {(card.brand ?? "card").toUpperCase()} ••••{card.identifier}
+                              {expiry && ` · Expires ${expiry}`}
                             </p>
                           </div>
                         </div>
-                        {card.isDefault === 'true' && (
+                        {expired ? (
+                          <Badge variant="destructive" className="text-xs" data-testid={`badge-expired-${card.id}`}>Expired</Badge>
+                        ) : card.isDefault && (
                           <Badge variant="secondary" className="text-xs">Default</Badge>
                         )}
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
@@ -426,7 +263,7 @@ export default function DepositToCard() {
                       />
                     </div>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Available: ${balance?.currentBalance.toFixed(2) || "0.00"}
+                      Available: {formatMoney(balance?.currentBalance ?? 0, balance?.currency)}
                     </p>
                   </div>
 
@@ -434,13 +271,15 @@ export default function DepositToCard() {
                   <div className="bg-muted rounded-lg p-4">
                     <div className="flex justify-between items-center text-sm">
                       <span className="text-muted-foreground">Instant Transfer Fee</span>
-                      <span className="text-foreground" data-testid="text-fee">$1.75</span>
+                      <span className="text-foreground" data-testid="text-fee">
+                        {feeQuote ? formatMoney(feeQuote.fee, feeQuote.currency) : "—"}
+                      </span>
                     </div>
                     <Separator className="my-2" />
                     <div className="flex justify-between items-center text-sm">
                       <span className="font-medium text-foreground">You'll receive</span>
                       <span className="font-bold text-primary" data-testid="text-net-amount">
-                        ${netAmount.toFixed(2)}
+                        {formatMoney(netAmount)}
                       </span>
                     </div>
                   </div>
@@ -460,7 +299,7 @@ export default function DepositToCard() {
                           </div>
                           <div className="flex items-center space-x-2">
                             <DollarSign className="w-4 h-4" />
-                            <span>$1.75 fee per transfer</span>
+                            <span>{feeLabel("deposit", "card") ?? "Fee unavailable"} per transfer</span>
                           </div>
                         </div>
                       </div>
@@ -470,12 +309,12 @@ export default function DepositToCard() {
                   <Button 
                     type="submit" 
                     className="w-full"
-                    disabled={!selectedCardId || !numAmount || numAmount < 0.01 || depositMutation.isPending}
+                    disabled={!selectedCardId || numAmount < 1 || depositMutation.isPending}
                     data-testid="button-withdraw"
                   >
                     {depositMutation.isPending ? "Processing..." : (
                       <>
-                        Withdraw ${numAmount.toFixed(2)}
+                        Withdraw {formatMoney(numAmount)}
                         <ArrowRight className="w-4 h-4 ml-2" />
                       </>
                     )}
@@ -0,0 +1,109 @@
+/**
+ * ACH deposit settlement and returns
+ * ACH debits take days to clear and can still be returned afterwards, so a
+ * deposit sits in pending balance until Stripe reports the debit collected and
+ * its settlement date has passed; the ach.settle job credits it then. A return (R01, R10, ...) fails a deposit that is still
+ * pending and claws back one already credited, even if the wallet goes negative.
+ */
+
+import type { Transaction } from "@shared/schema";
+import { ACH_SETTLEMENT_BUSINESS_DAYS, addBusinessDays, describeAchReturn, type AchReturnCode } from "@shared/ach";
+import { formatMoney } from "@shared/money";
+import { storage } from "./storage";
+
+export interface SettlementRun {
+  settled: Transaction[];
+  errors: { transactionId: string; error: string }[];
+}
+
+export type AchReturnResult =
+  | { transaction: Transaction; clawedBack: number }
+  | { error: string; status: 400 | 404 };
+
+export function isAchDeposit(transaction: Pick<Transaction, "type" | "fundingMethod">) {
+  return transaction.type === "deposit" && transaction.fundingMethod === "ach";
+}
+
+export class AchSettlement {
+  constructor(private settlementDays: number) {}
+
+  // When a deposit made at `from` is credited
+  settlementDate(from = new Date()) {
+    return addBusinessDays(from, this.settlementDays);
+  }
+
+  /**
+   * Record that the bank debit went through. A deposit already past its
+   * settlement date is credited now rather than on the next settlement run.
+   */
+  async recordCollected(deposit: Transaction, asOf = new Date()) {
+    // A return may have landed since the caller read it
+    const transaction = await storage.getTransactionById(deposit.userId, deposit.id);
+    if (!transaction || transaction.status !== "pending" || transaction.collectedAt) {
+      return transaction;
+    }
+    const due = transaction.settlesAt !== null && new Date(transaction.settlesAt) <= asOf;
+    const collected = await storage.updateTransactionStatus(transaction.userId, transaction.id, due ? "completed" : "pending", { collectedAt: asOf });
+    console.log(`🏦 ACH COLLECTED: deposit ${transaction.id}${due ? " credited" : ""}`);
+    return collected;
+  }
+
+  /**
+   * Credit every collected pending deposit whose settlement date has passed. One that
+   * fails, e.g. because a return landed first, does not stop the rest.
+   */
+  async settleDue(asOf = new Date()): Promise<SettlementRun> {
+    const run: SettlementRun = { settled: [], errors: [] };
+    for (const deposit of await storage.getDepositsDueForSettlement(asOf)) {
+      try {
+        const settled = await storage.updateTransactionStatus(deposit.userId, deposit.id, "completed");
+        if (settled) {
+          run.settled.push(settled);
+          console.log(`✅ ACH SETTLED: ${formatMoney(settled.netAmount, settled.currency)} deposit ${settled.id} credited`);
+        }
+      } catch (error: any) {
+        run.errors.push({ transactionId: deposit.id, error: error.message });
+        console.log(`❌ ACH SETTLEMENT FAILED: deposit ${deposit.id}: ${error.message}`);
+      }
+    }
+    return run;
+  }
+
+  /**
+   * Record a return from the bank. `detail` is the provider's own wording, kept
+   * next to the code's description.
+   */
+  async recordReturn(deposit: Transaction, returnCode: AchReturnCode, detail?: string): Promise<AchReturnResult> {
+    // The caller's copy may predate a settlement run, which decides whether anything is clawed back
+    const transaction = await storage.getTransactionById(deposit.userId, deposit.id);
+    if (!transaction) {
+      return { error: "Transaction not found", status: 404 };
+    }
+    if (!isAchDeposit(transaction)) {
+      return { error: "Only ACH deposits can be returned", status: 400 };
+    }
+    if (transaction.status !== "pending" && transaction.status !== "completed") {
+      return { error: `This deposit is already ${transaction.status}`, status: 400 };
+    }
+
+    const reason = detail ? `${describeAchReturn(returnCode)} (${detail})` : describeAchReturn(returnCode);
+    const returned = await storage.returnDeposit(transaction.userId, transaction.id, returnCode, reason);
+    if (!returned) {
+      return { error: "Transaction not found", status: 404 };
+    }
+
+    const clawedBack = transaction.status === "completed" ? transaction.netAmount : 0;
+    console.log(`↩️ ACH RETURN: deposit ${transaction.id} ${reason}${clawedBack > 0 ? `, ${formatMoney(clawedBack, transaction.currency)} clawed back` : ""}`);
+    if (clawedBack > 0) {
+      const balance = await storage.getBalance(transaction.userId);
+      if (balance.currentBalance < 0) {
+        console.log(`⚠️ NEGATIVE BALANCE: user ${transaction.userId} owes ${formatMoney(-balance.currentBalance, balance.currency)} after the return`);
+      }
+    }
+    return { transaction: returned, clawedBack };
+  }
+}
+
+export const achSettlement = new AchSettlement(
+  Number(process.env.ACH_SETTLEMENT_BUSINESS_DAYS) || ACH_SETTLEMENT_BUSINESS_DAYS,
+);
@@ -0,0 +1,151 @@
+/**
+ * Hash-chained audit log: who changed what, from where, and the state before and after
+ * Storage writes the entries; this module builds, seals and verifies them
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { AuditEntry, Balance, Transaction } from "@shared/schema";
+import { canonicalJson } from "./canonical-json";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface AuditContext {
+  actor?: string; // Overrides the logged-in user, e.g. 'webhook:stripe'
+  route: string | null;
+  requestId: string | null;
+  ip: string | null;
+  req?: Request;
+}
+
+// What a storage write knows about the change itself
+export interface AuditDraft {
+  action: string;
+  userId: string | null;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  headHash: string;
+  brokenAt?: number; // Sequence of the first entry that does not verify
+  reason?: string;
+}
+
+const auditContexts = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Express middleware that tags everything a request writes with its route,
+ * request id and IP. Echoes the request id in X-Request-Id.
+ */
+export function auditContext(req: Request, res: Response, next: NextFunction) {
+  const requestId = req.get("X-Request-Id") || randomUUID();
+  res.set("X-Request-Id", requestId);
+  auditContexts.run({
+    route: `${req.method} ${req.path}`,
+    requestId,
+    ip: req.ip ?? null,
+    req,
+  }, next);
+}
+
+/**
+ * Run work outside an HTTP request (scripts, scheduled jobs) under an explicit actor
+ */
+export function withAuditContext<T>(context: Partial<AuditContext> & { actor: string }, fn: () => T): T {
+  return auditContexts.run({ route: null, requestId: null, ip: null, ...context }, fn);
+}
+
+/**
+ * Name the actor for the rest of the current request, for callers without a session
+ */
+export function setAuditActor(actor: string) {
+  const context = auditContexts.getStore();
+  if (context) {
+    context.actor = actor;
+  }
+}
+
+function currentContext() {
+  const context = auditContexts.getStore();
+  return {
+    actor: context?.actor ?? context?.req?.user?.id ?? (context ? "anonymous" : "system"),
+    route: context?.route ?? null,
+    requestId: context?.requestId ?? null,
+    ip: context?.ip ?? null,
+  };
+}
+
+// Plain JSON, so the hash is the same before and after a database round trip
+function snapshot(value: unknown) {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+export function balanceSnapshot(balance: Balance) {
+  return {
+    available: balance.currentBalance,
+    pending: balance.pendingBalance,
+    settled: balance.settledBalance,
+    currency: balance.currency,
+  };
+}
+
+export function transactionSnapshot(transaction: Transaction) {
+  const { id, type, amount, fee, netAmount, currency, status, failureReason, returnCode, payoutProvider, fundingMethod, stripePayoutId, stripePaymentIntentId, collectedAt, submittedAt } = transaction;
+  return { id, type, amount, fee, netAmount, currency, status, failureReason, returnCode, payoutProvider, fundingMethod, stripePayoutId, stripePaymentIntentId, collectedAt: collectedAt ?? null, submittedAt: submittedAt ?? null };
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, "id" | "hash">): string {
+  const { sequence, action, userId, entityId, actor, route, requestId, ip, before, after, prevHash, createdAt } = entry;
+  return createHash("sha256")
+    .update(canonicalJson({
+      sequence, action, userId, entityId, actor, route, requestId, ip, before, after, prevHash,
+      createdAt: new Date(createdAt).toISOString(),
+    }))
+    .digest("hex");
+}
+
+/**
+ * Attach context, sequence and hashes to a draft; `previous` is the current head of the chain
+ */
+export function sealAuditEntry(draft: AuditDraft, previous: AuditEntry | undefined): Omit<AuditEntry, "id"> {
+  const unsealed = {
+    ...currentContext(),
+    action: draft.action,
+    userId: draft.userId,
+    entityId: draft.entityId,
+    before: snapshot(draft.before),
+    after: snapshot(draft.after),
+    sequence: (previous?.sequence ?? 0) + 1,
+    prevHash: previous?.hash ?? GENESIS_HASH,
+    createdAt: new Date(),
+  };
+  return { ...unsealed, hash: hashAuditEntry(unsealed) };
+}
+
+/**
+ * Recompute every hash in sequence order; any edit, deletion or reordering breaks the chain
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = GENESIS_HASH;
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    const fail = (reason: string): AuditVerification => ({ valid: false, checked: index, headHash: prevHash, brokenAt: entry.sequence, reason });
+
+    if (entry.sequence !== index + 1) {
+      return fail(`Expected sequence ${index + 1}, found ${entry.sequence}`);
+    }
+    if (entry.prevHash !== prevHash) {
+      return fail("Previous hash does not match the preceding entry");
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      return fail("Entry contents do not match its hash");
+    }
+    prevHash = entry.hash;
+  }
+  return { valid: true, checked: entries.length, headHash: prevHash };
+}
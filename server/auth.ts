@@ -0,0 +1,192 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { auditContext } from "./audit";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Operators who can see and record treasury data; comma-separated usernames
+const ADMIN_USERNAMES = new Set(
+  (process.env.ADMIN_USERNAMES ?? "").split(",").map(name => name.trim()).filter(Boolean),
+);
+
+export function isAdmin(user: SelectUser) {
+  return ADMIN_USERNAMES.has(user.username);
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+function publicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, isAdmin: isAdmin(user) };
+}
+
+function sessionSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error('Missing required session secret: SESSION_SECRET');
+  }
+  console.warn("SESSION_SECRET not set - using a random secret, sessions will not survive restarts");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Rejects requests without a logged-in session; passport has already set req.user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Rejects requests unless the logged-in user is listed in ADMIN_USERNAMES
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (!isAdmin(req.user!)) {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // After the session so audit entries can name the logged-in user; before any route
+  app.use(auditContext);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success || !parsed.data.username.trim() || parsed.data.password.length < 8) {
+        return res.status(400).json({ error: "Username and a password of at least 8 characters are required" });
+      }
+
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
+      if (existingUser) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json({ success: true, user: publicUser(user) });
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      // Issue a fresh session id on login to prevent session fixation
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json({ success: true, user: publicUser(user) });
+        });
+      });
+    })(req, res, next);
+  });
+
+  // Ends only the caller's session
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/status", (req, res) => {
+    res.json({
+      authenticated: req.isAuthenticated(),
+      user: req.user ? publicUser(req.user) : null,
+    });
+  });
+}
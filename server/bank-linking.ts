@@ -0,0 +1,259 @@
+/**
+ * Bank account linking with micro-deposit verification
+ * Account numbers pass through to the verification provider once; we keep the
+ * routing number, last four, the provider's fingerprint and its verification id.
+ * Only accounts whose two micro-deposits the user confirmed are verified.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import type Stripe from "stripe";
+import type { PaymentMethod, User } from "@shared/schema";
+import { MAX_VERIFICATION_ATTEMPTS, type NewBankAccount } from "@shared/payment-methods";
+import { storage } from "./storage";
+import { stripe } from "./stripe-connect";
+import { cardVault } from "./card-vault";
+import { SANDBOX_MODE } from "./sandbox-mode";
+
+// Who accepted the debit mandate; Stripe requires it to confirm a bank account
+export interface MandateAcceptance {
+  ipAddress: string;
+  userAgent: string;
+}
+
+export interface MicroDepositStart {
+  reference: string; // Provider id for this verification
+  providerToken: string | null; // Reusable bank account token, once the provider has one
+  fingerprint: string; // The same for every link of one account number
+}
+
+export type MicroDepositCheck =
+  | { status: "verified" }
+  | { status: "mismatch" }
+  | { status: "locked"; reason: string }; // The provider will not accept more attempts
+
+export interface MicroDepositProvider {
+  readonly id: string;
+  readonly displayName: string;
+  // Sends two deposits under $1 to the account
+  sendMicroDeposits(user: Pick<User, "id" | "username">, account: NewBankAccount, mandate: MandateAcceptance): Promise<MicroDepositStart>;
+  // Amounts in cents, in either order
+  verifyMicroDeposits(reference: string, amounts: [number, number]): Promise<MicroDepositCheck>;
+  // Abandons a verification, e.g. for an account the user already linked
+  cancel(reference: string): Promise<void>;
+}
+
+/**
+ * Stripe SetupIntents for us_bank_account with microdeposit verification;
+ * the resulting PaymentMethod can later be debited and paid out to
+ */
+export class StripeMicroDepositProvider implements MicroDepositProvider {
+  readonly id = "stripe";
+  readonly displayName = "Stripe";
+
+  async sendMicroDeposits(user: Pick<User, "id" | "username">, account: NewBankAccount, mandate: MandateAcceptance): Promise<MicroDepositStart> {
+    const setupIntent = await stripe.setupIntents.create({
+      customer: await cardVault.customerFor(user),
+      payment_method_types: ["us_bank_account"],
+      payment_method_data: {
+        type: "us_bank_account",
+        us_bank_account: {
+          routing_number: account.routingNumber,
+          account_number: account.accountNumber,
+          account_holder_type: "individual",
+          account_type: account.accountType,
+        },
+        billing_details: { name: account.holderName },
+      },
+      payment_method_options: { us_bank_account: { verification_method: "microdeposits" } },
+      mandate_data: {
+        customer_acceptance: {
+          type: "online",
+          online: { ip_address: mandate.ipAddress, user_agent: mandate.userAgent },
+        },
+      },
+      confirm: true,
+      metadata: { userId: user.id, type: "bank_link" },
+      expand: ["payment_method"],
+    });
+
+    const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod | null;
+    console.log(`✅ STRIPE MICRO-DEPOSITS: Sent for setup intent ${setupIntent.id}`);
+    return {
+      reference: setupIntent.id,
+      providerToken: paymentMethod?.id ?? null,
+      fingerprint: paymentMethod?.us_bank_account?.fingerprint ?? `seti:${setupIntent.id}`,
+    };
+  }
+
+  async verifyMicroDeposits(reference: string, amounts: [number, number]): Promise<MicroDepositCheck> {
+    try {
+      const setupIntent = await stripe.setupIntents.verifyMicrodeposits(reference, { amounts });
+      return setupIntent.status === "succeeded"
+        ? { status: "verified" }
+        : { status: "locked", reason: `Verification is ${setupIntent.status}` };
+    } catch (error: any) {
+      if (error.code === "payment_method_microdeposit_verification_amounts_mismatch") {
+        return { status: "mismatch" };
+      }
+      if (error.code === "payment_method_microdeposit_verification_attempts_exceeded"
+        || error.code === "payment_method_microdeposit_verification_timeout") {
+        return { status: "locked", reason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  async cancel(reference: string) {
+    await stripe.setupIntents.cancel(reference);
+  }
+}
+
+// Stripe's test-mode amounts, so the same numbers work against either provider
+export const SANDBOX_MICRO_DEPOSITS: [number, number] = [32, 45];
+
+/**
+ * Offline provider for development: "deposits" are always 32 and 45 cents
+ */
+export class SandboxMicroDepositProvider implements MicroDepositProvider {
+  readonly id = "sandbox";
+  readonly displayName = "Sandbox";
+
+  async sendMicroDeposits(_user: Pick<User, "id" | "username">, account: NewBankAccount): Promise<MicroDepositStart> {
+    const reference = `sbx_mdv_${randomUUID()}`;
+    console.log(`🧪 SANDBOX MICRO-DEPOSITS: ${reference} sent 32¢ and 45¢`);
+    return {
+      reference,
+      providerToken: null,
+      fingerprint: createHash("sha256").update(`${account.routingNumber}:${account.accountNumber}`).digest("hex"),
+    };
+  }
+
+  async verifyMicroDeposits(_reference: string, amounts: [number, number]): Promise<MicroDepositCheck> {
+    const [first, second] = [...amounts].sort((a, b) => a - b);
+    return first === SANDBOX_MICRO_DEPOSITS[0] && second === SANDBOX_MICRO_DEPOSITS[1]
+      ? { status: "verified" }
+      : { status: "mismatch" };
+  }
+
+  async cancel() {}
+}
+
+export type LinkBankAccountResult =
+  | { account: PaymentMethod }
+  | { error: string; status: 409; existing: PaymentMethod };
+
+export type VerifyBankAccountResult =
+  | { account: PaymentMethod }
+  | { error: string; status: 400 | 404; account?: PaymentMethod; attemptsRemaining?: number };
+
+export class BankLinking {
+  private providers = new Map<string, MicroDepositProvider>();
+
+  constructor(providers: MicroDepositProvider[], private defaultProviderId: string) {
+    providers.forEach(provider => this.providers.set(provider.id, provider));
+  }
+
+  /**
+   * Send micro-deposits and save the account as pending. An account number the
+   * user already linked is cancelled with the provider and reported as a duplicate.
+   */
+  async link(user: Pick<User, "id" | "username">, account: NewBankAccount, mandate: MandateAcceptance): Promise<LinkBankAccountResult> {
+    const provider = this.providers.get(this.defaultProviderId)!;
+    const started = await provider.sendMicroDeposits(user, account, mandate);
+
+    const methods = await storage.getPaymentMethods(user.id);
+    const existing = methods.find(method => method.type === "bank_account" && method.fingerprint === started.fingerprint);
+    if (existing) {
+      await provider.cancel(started.reference);
+      return { error: `This account is already linked as ${existing.name}`, status: 409, existing };
+    }
+
+    const saved = await storage.createPaymentMethod({
+      userId: user.id,
+      type: "bank_account",
+      name: account.name,
+      identifier: account.accountNumber.slice(-4),
+      brand: account.bankName,
+      providerToken: started.providerToken,
+      fingerprint: started.fingerprint,
+      routingNumber: account.routingNumber,
+      accountType: account.accountType,
+      verificationStatus: "pending",
+      verificationProvider: provider.id,
+      verificationReference: started.reference,
+    });
+    console.log(`🏦 BANK LINKED: ${account.bankName} ••••${saved.identifier} pending micro-deposit verification`);
+    return { account: saved };
+  }
+
+  /**
+   * Check the amounts the user saw on their statement. Each guess is counted
+   * before the provider sees it, so concurrent guesses cannot get past
+   * MAX_VERIFICATION_ATTEMPTS; after the last wrong one the account is failed
+   * and must be linked again.
+   */
+  async verify(userId: string, id: string, amounts: [number, number]): Promise<VerifyBankAccountResult> {
+    const account = await storage.getPaymentMethodById(userId, id);
+    if (!account || account.type !== "bank_account") {
+      return { error: "Bank account not found", status: 404 };
+    }
+    const refused = this.notVerifiable(account);
+    if (refused) {
+      return refused;
+    }
+
+    const provider = this.providers.get(account.verificationProvider ?? "");
+    if (!provider || !account.verificationReference) {
+      return { error: "This account cannot be verified; link it again", status: 400, account };
+    }
+
+    const claimed = await storage.claimVerificationAttempt(userId, id, MAX_VERIFICATION_ATTEMPTS);
+    if (!claimed) {
+      // Another guess used the last attempt or settled the account first
+      const current = (await storage.getPaymentMethodById(userId, id)) ?? account;
+      return this.notVerifiable(current)
+        ?? { error: "No verification attempts left for this account", status: 400, account: current, attemptsRemaining: 0 };
+    }
+
+    const check = await provider.verifyMicroDeposits(account.verificationReference, amounts);
+    if (check.status === "verified") {
+      const verified = await storage.updatePaymentMethod(userId, id, { verificationStatus: "verified", verifiedAt: new Date() });
+      console.log(`✅ BANK VERIFIED: ${account.brand} ••••${account.identifier}`);
+      return { account: verified ?? claimed };
+    }
+
+    const attempts = claimed.verificationAttempts;
+    if (check.status === "locked" || attempts >= MAX_VERIFICATION_ATTEMPTS) {
+      const updated = await storage.updatePaymentMethod(userId, id, { verificationStatus: "failed" }) ?? claimed;
+      console.log(`❌ BANK VERIFICATION FAILED: ${account.brand} ••••${account.identifier}`);
+      return {
+        error: check.status === "locked" ? check.reason : "Too many incorrect attempts; remove this account and link it again",
+        status: 400,
+        account: updated,
+        attemptsRemaining: 0,
+      };
+    }
+    return {
+      error: "Those amounts don't match the deposits we sent",
+      status: 400,
+      account: claimed,
+      attemptsRemaining: MAX_VERIFICATION_ATTEMPTS - attempts,
+    };
+  }
+
+  private notVerifiable(account: PaymentMethod): VerifyBankAccountResult | null {
+    if (account.verificationStatus === "verified") {
+      return { error: "This account is already verified", status: 400, account };
+    }
+    if (account.verificationStatus === "failed") {
+      return { error: "Verification failed; remove this account and link it again", status: 400, account };
+    }
+    return null;
+  }
+}
+
+// Sandbox mode never sends real micro-deposits
+export const bankLinking = new BankLinking(
+  [new StripeMicroDepositProvider(), new SandboxMicroDepositProvider()],
+  SANDBOX_MODE ? "sandbox" : "stripe",
+);
@@ -0,0 +1,113 @@
+/**
+ * Card vaulting through Stripe SetupIntents
+ * Card numbers and CVVs go from Stripe Elements straight to Stripe; we keep
+ * only the PaymentMethod id, brand, last four, expiry and fingerprint
+ */
+
+import type Stripe from "stripe";
+import type { PaymentMethod, User } from "@shared/schema";
+import { isCardExpired } from "@shared/payment-methods";
+import { storage } from "./storage";
+import { stripe } from "./stripe-connect";
+
+export type SaveCardResult =
+  | { card: PaymentMethod }
+  | { error: string; status: 400 | 404 | 409; existing?: PaymentMethod };
+
+export class CardVault {
+  /**
+   * The user's Stripe customer, created on first use; vaulted cards attach to it
+   */
+  async customerFor(user: Pick<User, "id" | "username">): Promise<string> {
+    const current = await storage.getUser(user.id);
+    if (current?.stripeCustomerId) {
+      return current.stripeCustomerId;
+    }
+
+    const customer = await stripe.customers.create({
+      description: user.username,
+      metadata: { userId: user.id },
+    });
+    await storage.setStripeCustomerId(user.id, customer.id);
+    console.log(`✅ STRIPE CUSTOMER: Created ${customer.id} for ${user.username}`);
+    return customer.id;
+  }
+
+  /**
+   * SetupIntent the client confirms with Stripe Elements
+   */
+  async createSetup(user: Pick<User, "id" | "username">) {
+    const setupIntent = await stripe.setupIntents.create({
+      customer: await this.customerFor(user),
+      payment_method_types: ["card"],
+      usage: "off_session",
+      metadata: { userId: user.id, type: "card_vault" },
+    });
+    console.log(`✅ STRIPE SETUP FOR CARD: Created setup intent ${setupIntent.id}`);
+    return { clientSecret: setupIntent.client_secret, setupIntentId: setupIntent.id };
+  }
+
+  /**
+   * Save the card from a confirmed SetupIntent. A card the user already saved
+   * (same fingerprint) is detached again and reported as a duplicate.
+   */
+  async saveCard(userId: string, setupIntentId: string, name: string): Promise<SaveCardResult> {
+    const setupIntent = await stripe.setupIntents.retrieve(setupIntentId, { expand: ["payment_method"] });
+    if (setupIntent.metadata?.userId !== userId) {
+      return { error: "Setup not found", status: 404 };
+    }
+    if (setupIntent.status !== "succeeded") {
+      return { error: `Card setup is not complete (${setupIntent.status})`, status: 400 };
+    }
+
+    const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod | null;
+    const details = paymentMethod?.card;
+    if (!paymentMethod || !details) {
+      return { error: "Only cards can be saved here", status: 400 };
+    }
+
+    const card = {
+      expMonth: details.exp_month,
+      expYear: details.exp_year,
+      fingerprint: details.fingerprint ?? null,
+    };
+    const methods = await storage.getPaymentMethods(userId);
+    const existing = card.fingerprint ? methods.find(saved => saved.fingerprint === card.fingerprint) : undefined;
+    if (existing || isCardExpired(card)) {
+      await stripe.paymentMethods.detach(paymentMethod.id);
+      return existing
+        ? { error: `This card is already saved as ${existing.name}`, status: 409, existing }
+        : { error: "This card has expired", status: 400 };
+    }
+
+    return {
+      card: await storage.createPaymentMethod({
+        userId,
+        type: "card",
+        name,
+        identifier: details.last4,
+        brand: details.brand,
+        providerToken: paymentMethod.id,
+        ...card,
+      }),
+    };
+  }
+
+  /**
+   * Push a reissued card's new expiry to Stripe so off-session charges keep working
+   */
+  async updateExpiry(providerToken: string, expMonth: number, expYear: number) {
+    await stripe.paymentMethods.update(providerToken, { card: { exp_month: expMonth, exp_year: expYear } });
+    console.log(`✅ STRIPE CARD: Updated expiry of ${providerToken}`);
+  }
+
+  /**
+   * Detach a removed card or bank account from the customer; it cannot be charged afterwards
+   */
+  async detach(providerToken: string) {
+    await stripe.paymentMethods.detach(providerToken);
+    console.log(`✅ STRIPE PAYMENT METHOD: Detached ${providerToken}`);
+  }
+}
+
+export const cardVault = new CardVault();
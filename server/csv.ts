@@ -0,0 +1,17 @@
+/**
+ * Minimal RFC 4180 CSV writer for downloadable reports
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,707 @@
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import {
+  users, transactions, balances, paymentMethods, accounts, journalEntries, postings, idempotencyKeys, webhookEvents, auditLog, treasuryHoldings, transactionStatusHistory, jobs,
+  type User, type InsertUser, type Transaction, type InsertTransaction, type Balance,
+  type PaymentMethod, type InsertPaymentMethod, type Account, type TransactionStatus, type AuditEntry,
+  type TreasuryHolding, type InsertTreasuryHolding, type TransactionStatusEvent, type Job, type InsertJob,
+} from "@shared/schema";
+import { DEFAULT_CURRENCY, money, type Money } from "@shared/money";
+import type { ReserveLiabilities } from "@shared/reserves";
+import type { TransactionPage } from "@shared/history";
+import type { JobQuery } from "@shared/jobs";
+import { db, pool } from "./db";
+import { SYSTEM_ACCOUNTS, accountTemplate, assertBalanced, buildReturnEntry, buildStatusChangeEntry, buildTransactionEntry, deriveBalance, liabilitySummary, spendableBalance, userWalletCode, type JournalEntryDraft } from "./journal";
+import { balanceSnapshot, sealAuditEntry, transactionSnapshot, type AuditDraft } from "./audit";
+import { encodeHistoryCursor } from "./history-cursor";
+import { creationEvents, statusChangeEvents, type StatusEventDraft } from "./status-history";
+import { INSUFFICIENT_FUNDS, type GuardedTransaction, type IStorage, type IdempotencyClaim, type JobChanges, type JournalEntryWithPostings, type PaymentMethodChanges, type TransactionGuard, type TransactionListOptions, type TransactionStatusDetails } from "./storage";
+
+const PostgresSessionStore = connectPg(session);
+
+// Cursors carry millisecond times, so history sorts and pages on created_at truncated to match
+const historyCreatedAt = sql`date_trunc('milliseconds', ${transactions.createdAt})`;
+
+// Advisory lock id that serializes appends to the audit chain
+const AUDIT_CHAIN_LOCK = 7_310_001;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Postgres-backed storage using the Drizzle schema in shared/schema.ts
+ * Every balance-affecting write runs in one database transaction
+ */
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  private async findOrCreateAccount(tx: Tx, code: string): Promise<Account> {
+    await tx.insert(accounts).values(accountTemplate(code)).onConflictDoNothing({ target: accounts.code });
+    const [account] = await tx.select().from(accounts).where(eq(accounts.code, code));
+    return account;
+  }
+
+  /**
+   * Lock the user's balance row so concurrent writers for the same user queue up
+   */
+  private async lockBalance(tx: Tx, userId: string): Promise<Balance> {
+    await tx.insert(balances).values({ userId }).onConflictDoNothing({ target: balances.userId });
+    const [balance] = await tx.select().from(balances).where(eq(balances.userId, userId)).for("update");
+    return balance;
+  }
+
+  /**
+   * Lock the user's row and read their payment methods, so default changes
+   * queue up even while the user has no methods yet
+   */
+  private async lockPaymentMethods(tx: Tx, userId: string): Promise<PaymentMethod[]> {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+    return tx.select().from(paymentMethods)
+      .where(eq(paymentMethods.userId, userId))
+      .orderBy(asc(paymentMethods.createdAt));
+  }
+
+  /**
+   * Append to the audit chain inside the caller's transaction. Takes the chain
+   * lock last, after any balance row lock, so lock order is always the same.
+   */
+  private async appendAudit(tx: Tx, draft: AuditDraft) {
+    await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+    const [previous] = await tx.select().from(auditLog).orderBy(desc(auditLog.sequence)).limit(1);
+    await tx.insert(auditLog).values(sealAuditEntry(draft, previous));
+  }
+
+  private async appendJournalEntry(tx: Tx, transactionId: string, draft: JournalEntryDraft) {
+    assertBalanced(draft.lines);
+
+    const [entry] = await tx.insert(journalEntries).values({
+      transactionId,
+      description: draft.description,
+    }).returning();
+
+    for (const line of draft.lines) {
+      const account = await this.findOrCreateAccount(tx, line.accountCode);
+      await tx.insert(postings).values({
+        entryId: entry.id,
+        accountId: account.id,
+        amount: line.amount,
+        currency: draft.currency,
+      });
+    }
+    return entry;
+  }
+
+  private async appendStatusEvents(tx: Tx, transaction: Transaction, drafts: StatusEventDraft[]) {
+    if (drafts.length > 0) {
+      await tx.insert(transactionStatusHistory).values(drafts.map(draft => ({
+        ...draft,
+        transactionId: transaction.id,
+        userId: transaction.userId,
+      })));
+    }
+  }
+
+  private async refreshBalance(tx: Tx, locked: Balance): Promise<Balance> {
+    const wallet = await this.findOrCreateAccount(tx, userWalletCode(locked.userId));
+    const rows = await tx.select({ posting: postings, transactionId: journalEntries.transactionId })
+      .from(postings)
+      .innerJoin(journalEntries, eq(postings.entryId, journalEntries.id))
+      .where(and(
+        eq(postings.accountId, wallet.id),
+        eq(postings.currency, DEFAULT_CURRENCY),
+      ));
+    const walletPostings = rows.map(row => ({ ...row.posting, transactionId: row.transactionId }));
+
+    const userTransactions = await tx.select({
+      type: transactions.type,
+      status: transactions.status,
+      amount: transactions.amount,
+      netAmount: transactions.netAmount,
+      currency: transactions.currency,
+      isSandbox: transactions.isSandbox,
+      createdAt: transactions.createdAt,
+    }).from(transactions).where(eq(transactions.userId, locked.userId));
+
+    const derived = deriveBalance(walletPostings, userTransactions, locked);
+    const [balance] = await tx.update(balances).set({
+      currentBalance: derived.currentBalance,
+      pendingBalance: derived.pendingBalance,
+      settledBalance: derived.settledBalance,
+      sandboxBalance: derived.sandboxBalance,
+      totalAdded: derived.totalAdded,
+      totalWithdrawn: derived.totalWithdrawn,
+      lastUpdated: derived.lastUpdated,
+    }).where(eq(balances.id, locked.id)).returning();
+    return balance;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      await this.appendAudit(tx, { action: "user.created", userId: user.id, entityId: user.id, before: null, after: { username: user.username } });
+      return user;
+    });
+  }
+
+  async setStripeCustomerId(userId: string, customerId: string): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!current) {
+        return undefined;
+      }
+      const [user] = await tx.update(users).set({ stripeCustomerId: customerId }).where(eq(users.id, userId)).returning();
+      await this.appendAudit(tx, {
+        action: "user.stripe_customer_linked",
+        userId,
+        entityId: userId,
+        before: { stripeCustomerId: current.stripeCustomerId },
+        after: { stripeCustomerId: customerId },
+      });
+      return user;
+    });
+  }
+
+  async getBalance(userId: string): Promise<Balance> {
+    const [existing] = await db.select().from(balances).where(eq(balances.userId, userId));
+    if (existing) {
+      return existing;
+    }
+    return db.transaction(async (tx) => this.refreshBalance(tx, await this.lockBalance(tx, userId)));
+  }
+
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    return db.select().from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async listTransactions(userId: string, options: TransactionListOptions): Promise<TransactionPage> {
+    const { after, limit, type, status, method, minAmount, maxAmount, from, to, search } = options;
+    const conditions: (SQL | undefined)[] = [eq(transactions.userId, userId)];
+    if (type) {
+      conditions.push(eq(transactions.type, type));
+    }
+    if (status) {
+      conditions.push(eq(transactions.status, status));
+    }
+    if (method) {
+      conditions.push(or(
+        and(eq(transactions.type, "withdrawal"), eq(transactions.payoutProvider, method)),
+        and(eq(transactions.type, "deposit"), eq(transactions.fundingMethod, method)),
+      ));
+    }
+    if (minAmount !== undefined) {
+      conditions.push(gte(transactions.amount, minAmount));
+    }
+    if (maxAmount !== undefined) {
+      conditions.push(lte(transactions.amount, maxAmount));
+    }
+    if (from) {
+      conditions.push(gte(transactions.createdAt, from));
+    }
+    if (to) {
+      conditions.push(lt(transactions.createdAt, to));
+    }
+    if (search) {
+      conditions.push(ilike(transactions.paymentMethodName, `%${search.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+    if (after) {
+      conditions.push(sql`(${historyCreatedAt}, ${transactions.id}) < (${after.createdAt.toISOString()}::timestamp, ${after.id})`);
+    }
+
+    // One extra row tells us whether there is another page
+    const rows = await db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(desc(historyCreatedAt), desc(transactions.id))
+      .limit(limit + 1);
+    const page = rows.slice(0, limit);
+    return {
+      transactions: page,
+      nextCursor: rows.length > limit ? encodeHistoryCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  // Caller must hold the balance row lock
+  private async recordTransaction(tx: Tx, locked: Balance, insertTransaction: InsertTransaction, action: string): Promise<Transaction> {
+    const [transaction] = await tx.insert(transactions).values(insertTransaction).returning();
+
+    // Throws before commit if the entry does not balance, rolling back the transaction row too
+    const draft = buildTransactionEntry(transaction);
+    if (draft) {
+      await this.appendJournalEntry(tx, transaction.id, draft);
+    }
+    const after = await this.refreshBalance(tx, locked);
+    await this.appendStatusEvents(tx, transaction, creationEvents(transaction));
+    await this.appendAudit(tx, {
+      action,
+      userId: transaction.userId,
+      entityId: transaction.id,
+      before: { balance: balanceSnapshot(locked) },
+      after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(transaction) },
+    });
+    return transaction;
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockBalance(tx, insertTransaction.userId);
+      return this.recordTransaction(tx, locked, insertTransaction, "transaction.created");
+    });
+  }
+
+  async createGuardedTransaction(insertTransaction: InsertTransaction, guard: TransactionGuard): Promise<GuardedTransaction> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockBalance(tx, insertTransaction.userId);
+      const refused = guard(await tx.select().from(transactions).where(eq(transactions.userId, insertTransaction.userId)));
+      if (refused) {
+        return { refused };
+      }
+      return { transaction: await this.recordTransaction(tx, locked, insertTransaction, "transaction.created") };
+    });
+  }
+
+  async reserveFunds(withdrawal: Omit<InsertTransaction, "type" | "status">, guard?: TransactionGuard): Promise<GuardedTransaction> {
+    return db.transaction(async (tx) => {
+      // The row lock serializes writes per user, so neither check can go stale before the hold is written
+      const locked = await this.lockBalance(tx, withdrawal.userId);
+      if (spendableBalance(locked, withdrawal.isSandbox ?? false) < withdrawal.amount) {
+        return { refused: INSUFFICIENT_FUNDS };
+      }
+      const refused = guard?.(await tx.select().from(transactions).where(eq(transactions.userId, withdrawal.userId)));
+      if (refused) {
+        return { refused };
+      }
+      return { transaction: await this.recordTransaction(tx, locked, { ...withdrawal, type: "withdrawal", status: "pending" }, "funds.reserved") };
+    });
+  }
+
+  async getTransactionById(userId: string, id: string): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    return transaction;
+  }
+
+  async getTransactionByExternalId(externalId: string): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions)
+      .where(or(eq(transactions.stripePaymentIntentId, externalId), eq(transactions.stripePayoutId, externalId)));
+    return transaction;
+  }
+
+  async getTransactionsCreatedBetween(since: Date, until: Date): Promise<Transaction[]> {
+    return db.select().from(transactions)
+      .where(and(gte(transactions.createdAt, since), lt(transactions.createdAt, until)))
+      .orderBy(asc(transactions.createdAt));
+  }
+
+  async updateTransactionStatus(
+    userId: string,
+    id: string,
+    status: TransactionStatus,
+    details: TransactionStatusDetails = {},
+  ): Promise<Transaction | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockBalance(tx, userId);
+      const [current] = await tx.select().from(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const draft = buildStatusChangeEntry(current, status);
+      const [updated] = await tx.update(transactions)
+        .set({ ...details, status })
+        .where(eq(transactions.id, id))
+        .returning();
+      if (draft) {
+        await this.appendJournalEntry(tx, updated.id, draft);
+      }
+      const after = await this.refreshBalance(tx, locked);
+      await this.appendStatusEvents(tx, updated, statusChangeEvents(current, updated));
+      await this.appendAudit(tx, {
+        action: "transaction.status_changed",
+        userId,
+        entityId: id,
+        before: { balance: balanceSnapshot(locked), transaction: transactionSnapshot(current) },
+        after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(updated) },
+      });
+      return updated;
+    });
+  }
+
+  async getDepositsDueForSettlement(asOf: Date): Promise<Transaction[]> {
+    return db.select().from(transactions)
+      .where(and(
+        eq(transactions.type, "deposit"),
+        eq(transactions.status, "pending"),
+        isNotNull(transactions.collectedAt),
+        lte(transactions.settlesAt, asOf),
+      ))
+      .orderBy(asc(transactions.settlesAt));
+  }
+
+  async returnDeposit(userId: string, id: string, returnCode: string, failureReason: string): Promise<Transaction | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockBalance(tx, userId);
+      const [current] = await tx.select().from(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const draft = buildReturnEntry(current);
+      const [updated] = await tx.update(transactions)
+        .set({ status: "returned", returnCode, failureReason })
+        .where(eq(transactions.id, id))
+        .returning();
+      if (draft) {
+        await this.appendJournalEntry(tx, updated.id, draft);
+      }
+      const after = await this.refreshBalance(tx, locked);
+      await this.appendStatusEvents(tx, updated, statusChangeEvents(current, updated));
+      await this.appendAudit(tx, {
+        action: "transaction.returned",
+        userId,
+        entityId: id,
+        before: { balance: balanceSnapshot(locked), transaction: transactionSnapshot(current) },
+        after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(updated) },
+      });
+      return updated;
+    });
+  }
+
+  async getTransactionStatusHistory(userId: string, transactionId: string): Promise<TransactionStatusEvent[]> {
+    return db.select().from(transactionStatusHistory)
+      .where(and(eq(transactionStatusHistory.transactionId, transactionId), eq(transactionStatusHistory.userId, userId)))
+      .orderBy(asc(transactionStatusHistory.sequence));
+  }
+
+  async getPaymentMethods(userId: string): Promise<PaymentMethod[]> {
+    return db.select().from(paymentMethods)
+      .where(eq(paymentMethods.userId, userId))
+      .orderBy(asc(paymentMethods.createdAt));
+  }
+
+  async getPaymentMethodById(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    const [method] = await db.select().from(paymentMethods)
+      .where(and(eq(paymentMethods.id, id), eq(paymentMethods.userId, userId)));
+    return method;
+  }
+
+  async createPaymentMethod(insertMethod: InsertPaymentMethod): Promise<PaymentMethod> {
+    return db.transaction(async (tx) => {
+      const owned = await this.lockPaymentMethods(tx, insertMethod.userId);
+      const isDefault = Boolean(insertMethod.isDefault) || owned.length === 0;
+      const previous = isDefault ? owned.find(other => other.isDefault) : undefined;
+      if (previous) {
+        await tx.update(paymentMethods).set({ isDefault: false, updatedAt: new Date() }).where(eq(paymentMethods.id, previous.id));
+      }
+      const [method] = await tx.insert(paymentMethods).values({ ...insertMethod, isDefault }).returning();
+      await this.appendAudit(tx, { action: "payment_method.created", userId: method.userId, entityId: method.id, before: null, after: method });
+      if (previous) {
+        await this.appendAudit(tx, { action: "payment_method.default_changed", userId: method.userId, entityId: method.id, before: { defaultId: previous.id }, after: { defaultId: method.id } });
+      }
+      return method;
+    });
+  }
+
+  async updatePaymentMethod(userId: string, id: string, changes: PaymentMethodChanges): Promise<PaymentMethod | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(paymentMethods)
+        .where(and(eq(paymentMethods.id, id), eq(paymentMethods.userId, userId)))
+        .for("update");
+      if (!before) {
+        return undefined;
+      }
+      const [updated] = await tx.update(paymentMethods)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(paymentMethods.id, id))
+        .returning();
+      await this.appendAudit(tx, { action: "payment_method.updated", userId, entityId: id, before, after: updated });
+      return updated;
+    });
+  }
+
+  async claimVerificationAttempt(userId: string, id: string, maxAttempts: number): Promise<PaymentMethod | undefined> {
+    return db.transaction(async (tx) => {
+      // The WHERE re-checks the count under the row lock, so only maxAttempts guesses ever get through
+      const [updated] = await tx.update(paymentMethods)
+        .set({ verificationAttempts: sql`${paymentMethods.verificationAttempts} + 1`, updatedAt: new Date() })
+        .where(and(
+          eq(paymentMethods.id, id),
+          eq(paymentMethods.userId, userId),
+          eq(paymentMethods.verificationStatus, "pending"),
+          lt(paymentMethods.verificationAttempts, maxAttempts),
+        ))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+      const before = { ...updated, verificationAttempts: updated.verificationAttempts - 1 };
+      await this.appendAudit(tx, { action: "payment_method.updated", userId, entityId: id, before, after: updated });
+      return updated;
+    });
+  }
+
+  async setDefaultPaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    return db.transaction(async (tx) => {
+      const owned = await this.lockPaymentMethods(tx, userId);
+      const method = owned.find(other => other.id === id);
+      if (!method) {
+        return undefined;
+      }
+      const previous = owned.find(other => other.isDefault);
+      if (previous?.id === id) {
+        return method;
+      }
+
+      // Clear first: the partial unique index allows one default per user at any moment
+      const now = new Date();
+      if (previous) {
+        await tx.update(paymentMethods).set({ isDefault: false, updatedAt: now }).where(eq(paymentMethods.id, previous.id));
+      }
+      const [updated] = await tx.update(paymentMethods)
+        .set({ isDefault: true, updatedAt: now })
+        .where(eq(paymentMethods.id, id))
+        .returning();
+      await this.appendAudit(tx, { action: "payment_method.default_changed", userId, entityId: id, before: { defaultId: previous?.id ?? null }, after: { defaultId: id } });
+      return updated;
+    });
+  }
+
+  async deletePaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    return db.transaction(async (tx) => {
+      const owned = await this.lockPaymentMethods(tx, userId);
+      const existing = owned.find(method => method.id === id);
+      if (!existing) {
+        return undefined;
+      }
+      await tx.delete(paymentMethods).where(eq(paymentMethods.id, id));
+      await this.appendAudit(tx, { action: "payment_method.deleted", userId, entityId: id, before: existing, after: null });
+
+      const successor = existing.isDefault ? owned.filter(method => method !== existing).pop() : undefined;
+      if (successor) {
+        await tx.update(paymentMethods).set({ isDefault: true, updatedAt: new Date() }).where(eq(paymentMethods.id, successor.id));
+        await this.appendAudit(tx, { action: "payment_method.default_changed", userId, entityId: successor.id, before: { defaultId: id }, after: { defaultId: successor.id } });
+      }
+      return existing;
+    });
+  }
+
+  async claimIdempotencyKey(userId: string, key: string, requestHash: string, staleBefore: Date): Promise<IdempotencyClaim> {
+    await db.delete(idempotencyKeys).where(lt(idempotencyKeys.createdAt, staleBefore));
+
+    // The unique (user_id, key) constraint makes the claim atomic across concurrent requests
+    const [claimed] = await db.insert(idempotencyKeys)
+      .values({ userId, key, requestHash })
+      .onConflictDoNothing({ target: [idempotencyKeys.userId, idempotencyKeys.key] })
+      .returning();
+    if (claimed) {
+      return { record: claimed, claimed: true };
+    }
+
+    const [existing] = await db.select().from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    return { record: existing, claimed: false };
+  }
+
+  async completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void> {
+    await db.update(idempotencyKeys)
+      .set({ statusCode, responseBody })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.id, id), isNull(idempotencyKeys.statusCode)));
+  }
+
+  async claimWebhookEvent(provider: string, eventId: string, type: string): Promise<boolean> {
+    const claimed = await db.insert(webhookEvents)
+      .values({ provider, eventId, type })
+      .onConflictDoNothing({ target: [webhookEvents.provider, webhookEvents.eventId] })
+      .returning({ id: webhookEvents.id });
+    return claimed.length > 0;
+  }
+
+  async releaseWebhookEvent(provider: string, eventId: string): Promise<void> {
+    await db.delete(webhookEvents)
+      .where(and(eq(webhookEvents.provider, provider), eq(webhookEvents.eventId, eventId)));
+  }
+
+  async getAuditLog(userId?: string): Promise<AuditEntry[]> {
+    return db.select().from(auditLog)
+      .where(userId ? eq(auditLog.userId, userId) : undefined)
+      .orderBy(asc(auditLog.sequence));
+  }
+
+  async recordTreasuryHolding(insertHolding: InsertTreasuryHolding): Promise<TreasuryHolding> {
+    return db.transaction(async (tx) => {
+      const currency = insertHolding.currency ?? DEFAULT_CURRENCY;
+      const [previous] = await tx.select().from(treasuryHoldings)
+        .where(and(eq(treasuryHoldings.rail, insertHolding.rail), eq(treasuryHoldings.currency, currency)))
+        .orderBy(desc(treasuryHoldings.recordedAt))
+        .limit(1);
+      const [holding] = await tx.insert(treasuryHoldings).values({ ...insertHolding, currency }).returning();
+      await this.appendAudit(tx, { action: "treasury.recorded", userId: null, entityId: holding.id, before: previous ?? null, after: holding });
+      return holding;
+    });
+  }
+
+  async getTreasuryHoldings(currency?: string): Promise<TreasuryHolding[]> {
+    return db.select().from(treasuryHoldings)
+      .where(currency ? eq(treasuryHoldings.currency, currency) : undefined)
+      .orderBy(asc(treasuryHoldings.recordedAt));
+  }
+
+  async getLiabilities(currency = DEFAULT_CURRENCY): Promise<ReserveLiabilities> {
+    const total = (column: AnyColumn) =>
+      sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+
+    const [wallets] = await db.select({ amount: total(postings.amount) }).from(postings)
+      .innerJoin(accounts, eq(postings.accountId, accounts.id))
+      .where(and(isNotNull(accounts.userId), eq(accounts.type, "liability"), eq(postings.currency, currency)));
+    const payoutsInFlight = await this.getAccountBalance(SYSTEM_ACCOUNTS.payoutsInFlight.code, currency);
+
+    const [testCredits] = await db.select({ amount: total(balances.sandboxBalance) }).from(balances)
+      .where(eq(balances.currency, currency));
+    const [testHolds] = await db.select({ amount: total(transactions.amount) }).from(transactions)
+      .where(and(
+        eq(transactions.type, "withdrawal"),
+        eq(transactions.status, "pending"),
+        eq(transactions.isSandbox, true),
+        eq(transactions.currency, currency),
+      ));
+
+    return liabilitySummary(wallets.amount, payoutsInFlight.amount, testCredits.amount + testHolds.amount);
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    return db.select().from(accounts);
+  }
+
+  async getAccountBalance(code: string, currency = DEFAULT_CURRENCY): Promise<Money> {
+    const [account] = await db.select().from(accounts).where(eq(accounts.code, code));
+    if (!account) {
+      return money(0, currency);
+    }
+
+    const rows = await db.select({ amount: postings.amount }).from(postings)
+      .where(and(eq(postings.accountId, account.id), eq(postings.currency, currency)));
+    return money(rows.reduce((sum, row) => sum + row.amount, 0), currency);
+  }
+
+  async getJournalEntries(userId: string, transactionId?: string): Promise<JournalEntryWithPostings[]> {
+    const conditions = [eq(transactions.userId, userId)];
+    if (transactionId) {
+      conditions.push(eq(journalEntries.transactionId, transactionId));
+    }
+
+    const rows = await db.select({ entry: journalEntries }).from(journalEntries)
+      .innerJoin(transactions, eq(journalEntries.transactionId, transactions.id))
+      .where(and(...conditions))
+      .orderBy(journalEntries.createdAt);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const entryPostings = await db.select().from(postings)
+      .where(inArray(postings.entryId, rows.map(row => row.entry.id)));
+    return rows.map(({ entry }) => ({
+      ...entry,
+      postings: entryPostings.filter(posting => posting.entryId === entry.id),
+    }));
+  }
+
+  async enqueueJob(insertJob: InsertJob): Promise<Job> {
+    // The partial unique index on unique_key makes the dedupe atomic across processes
+    const [queued] = await db.insert(jobs)
+      .values(insertJob)
+      .onConflictDoNothing({ target: jobs.uniqueKey, where: sql`${jobs.status} in ('queued', 'running')` })
+      .returning();
+    if (queued) {
+      return queued;
+    }
+
+    const [existing] = await db.select().from(jobs)
+      .where(and(eq(jobs.uniqueKey, insertJob.uniqueKey!), inArray(jobs.status, ["queued", "running"])));
+    return existing;
+  }
+
+  async claimJobs(workerId: string, limit: number, staleBefore: Date): Promise<Job[]> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      // SKIP LOCKED lets several workers claim at once without taking the same job
+      const due = await tx.select({ id: jobs.id }).from(jobs)
+        .where(or(
+          and(eq(jobs.status, "queued"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore)),
+        ))
+        .orderBy(asc(jobs.runAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx.update(jobs)
+        .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, lockedAt: now, lockedBy: workerId, updatedAt: now })
+        .where(inArray(jobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async releaseJob(id: string, workerId: string, changes: JobChanges): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({ ...changes, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)))
+      .returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobs(query: JobQuery, limit = 100): Promise<Job[]> {
+    const conditions: SQL[] = [];
+    if (query.status) {
+      conditions.push(eq(jobs.status, query.status));
+    }
+    if (query.type) {
+      conditions.push(eq(jobs.type, query.type));
+    }
+    return db.select().from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+  }
+
+  async requeueJob(id: string): Promise<Job | undefined> {
+    const now = new Date();
+    const [job] = await db.update(jobs)
+      .set({ status: "queued", attempts: 0, runAt: now, completedAt: null, updatedAt: now })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "dead")))
+      .returning();
+    return job;
+  }
+}
@@ -1,8 +1,11 @@
 /**
  * Dots API integration for real CashApp payouts
  * Enables instant CashApp transfers to users
+ * Amounts are integer cents
  */
 
+import { formatMoney } from "@shared/money";
+
 export class DotsAPIService {
   private baseURL: string;
   private apiKey: string;
@@ -30,13 +33,13 @@ export class DotsAPIService {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          amount: amount * 100, // Convert to cents
+          amount,
           payee: {
             country_code: "1",
             phone_number: phoneNumber.replace(/\D/g, '') // Remove non-digits
           },
           metadata: {
-            description: description || `BalanceFlow CashApp payout $${amount.toFixed(2)}`,
+            description: description || `BalanceFlow CashApp payout ${formatMoney(amount)}`,
             source: 'BalanceFlow'
           }
         })
@@ -48,7 +51,7 @@ export class DotsAPIService {
       }
 
       const result = await response.json();
-      console.log(`✅ REAL CASHAPP PAYOUT: $${amount.toFixed(2)} sent to ${phoneNumber} via Dots API`);
+      console.log(`✅ REAL CASHAPP PAYOUT: ${formatMoney(amount)} sent to ${phoneNumber} via Dots API`);
       return result;
     } catch (error: any) {
       console.error('❌ Dots CashApp payout failed:', error.message);
@@ -75,9 +78,9 @@ export class DotsAPIService {
           delivery: {
             method: "link"
           },
-          amount: amount * 100, // Convert to cents
+          amount,
           metadata: {
-            description: description || `BalanceFlow payout $${amount.toFixed(2)}`
+            description: description || `BalanceFlow payout ${formatMoney(amount)}`
           }
         })
       });
@@ -88,7 +91,7 @@ export class DotsAPIService {
       }
 
       const result = await response.json();
-      console.log(`✅ Created Dots payout link: $${amount.toFixed(2)}`);
+      console.log(`✅ Created Dots payout link: ${formatMoney(amount)}`);
       return result;
     } catch (error: any) {
       console.error('❌ Dots payout link creation failed:', error.message);
@@ -0,0 +1,76 @@
+/**
+ * Server-side fee schedule; every fee charged or quoted is computed here
+ * Override the defaults with FEE_SCHEDULE, a JSON array of fee rules
+ */
+
+import { z } from "zod";
+import { calculateFee, feeRuleSchema, type FeeDirection, type FeeQuote, type FeeRule } from "@shared/fees";
+
+// The prices /api/withdraw and the per-rail routes charged before the schedule existed;
+// rails without a price of their own take /api/withdraw's $1.50 default
+const DEFAULT_FEE_RULES: FeeRule[] = [
+  { type: "withdrawal", method: "stripe", flat: 150, percentBps: 0 },
+  { type: "withdrawal", method: "ach", flat: 100, percentBps: 0 },
+  { type: "withdrawal", method: "cashapp", flat: 25, percentBps: 0 },
+  { type: "withdrawal", method: "dwolla", flat: 150, percentBps: 0 },
+  { type: "withdrawal", method: "usdc", flat: 50, percentBps: 0 },
+  { type: "withdrawal", method: "sandbox", flat: 100, percentBps: 0 },
+  { type: "deposit", method: "ach", flat: 0, percentBps: 0 },
+  { type: "deposit", method: "card", flat: 0, percentBps: 0 },
+];
+
+function ruleKey(rule: Pick<FeeRule, "type" | "method" | "currency">) {
+  return `${rule.type}:${rule.method}:${rule.currency ?? "*"}`;
+}
+
+export class FeeSchedule {
+  private rules = new Map<string, FeeRule>();
+
+  constructor(rules: FeeRule[] = DEFAULT_FEE_RULES) {
+    rules.forEach(rule => this.set(rule));
+  }
+
+  /**
+   * Add or replace the rule for a method and currency
+   */
+  set(rule: FeeRule) {
+    this.rules.set(ruleKey(rule), feeRuleSchema.parse(rule));
+  }
+
+  list(): FeeRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Rule for a method in a currency, falling back to the method's any-currency rule
+   */
+  ruleFor(type: FeeDirection, method: string, currency: string): FeeRule | undefined {
+    return this.rules.get(ruleKey({ type, method, currency }))
+      ?? this.rules.get(ruleKey({ type, method }));
+  }
+
+  quote(type: FeeDirection, method: string, amount: number, currency: string): FeeQuote {
+    const rule = this.ruleFor(type, method, currency);
+    if (!rule) {
+      throw new Error(`No ${type} fee is configured for ${method} in ${currency}`);
+    }
+
+    const fee = calculateFee(rule, amount);
+    if (fee > 0 && amount <= fee) {
+      throw new Error(`Amount does not cover the ${type} fee`);
+    }
+    return { type, method, amount, fee, netAmount: amount - fee, currency };
+  }
+}
+
+function loadFeeSchedule() {
+  const schedule = new FeeSchedule();
+  if (process.env.FEE_SCHEDULE) {
+    const overrides = z.array(feeRuleSchema).parse(JSON.parse(process.env.FEE_SCHEDULE));
+    overrides.forEach(rule => schedule.set(rule));
+    console.log(`💲 Loaded ${overrides.length} fee rule override(s) from FEE_SCHEDULE`);
+  }
+  return schedule;
+}
+
+export const feeSchedule = loadFeeSchedule();
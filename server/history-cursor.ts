@@ -0,0 +1,27 @@
+/**
+ * Opaque keyset cursors for transaction history: the created time and id of
+ * the last row on a page, so new transactions never shift later pages
+ */
+
+import type { Transaction } from "@shared/schema";
+
+export interface HistoryCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export function encodeHistoryCursor(transaction: Pick<Transaction, "createdAt" | "id">): string {
+  return Buffer.from(`${new Date(transaction.createdAt).toISOString()}|${transaction.id}`).toString("base64url");
+}
+
+/**
+ * Returns null for cursors this server did not issue
+ */
+export function decodeHistoryCursor(cursor: string): HistoryCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf-8").split("|");
+  const date = new Date(createdAt);
+  if (!id || Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return { createdAt: date, id };
+}
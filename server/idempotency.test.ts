@@ -0,0 +1,123 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { idempotent } from "./idempotency";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+let runs = 0;
+let release: (() => void) | null = null;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  // Stands in for requireAuth
+  app.use((req, _res, next) => {
+    req.user = { id: (req.get("X-User") ?? "user_1") } as Express.User;
+    next();
+  });
+  app.post("/api/deposit", idempotent, (req, res) => {
+    runs++;
+    res.status(201).json({ run: runs, amount: req.body.amount });
+  });
+  app.post("/api/slow", idempotent, async (_req, res) => {
+    runs++;
+    await new Promise<void>(resolve => { release = resolve; });
+    res.json({ run: runs });
+  });
+  app.post("/api/text", idempotent, (_req, res) => {
+    runs++;
+    res.send("ok");
+  });
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function post(path: string, body: unknown, key?: string, user?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(key && { "Idempotency-Key": key }),
+      ...(user && { "X-User": user }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("idempotent", () => {
+  it("replays the stored response for a repeated key", async () => {
+    runs = 0;
+    const first = await post("/api/deposit", { amount: 500 }, "replay-key");
+    const second = await post("/api/deposit", { amount: 500 }, "replay-key");
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await second.json()).toEqual(await first.json());
+    expect(runs).toBe(1);
+  });
+
+  it("rejects a key reused with a different body", async () => {
+    await post("/api/deposit", { amount: 500 }, "conflict-key");
+    const conflicting = await post("/api/deposit", { amount: 900 }, "conflict-key");
+
+    expect(conflicting.status).toBe(409);
+    expect((await conflicting.json()).error).toMatch(/different request/);
+  });
+
+  it("scopes keys to the user", async () => {
+    runs = 0;
+    await post("/api/deposit", { amount: 500 }, "shared-key", "user_a");
+    const other = await post("/api/deposit", { amount: 500 }, "shared-key", "user_b");
+
+    expect(other.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(runs).toBe(2);
+  });
+
+  it("answers 409 while the first request is still running", async () => {
+    const first = post("/api/slow", {}, "slow-key");
+    await vi.waitFor(() => expect(release).not.toBeNull());
+
+    const concurrent = await post("/api/slow", {}, "slow-key");
+    expect(concurrent.status).toBe(409);
+    expect((await concurrent.json()).error).toMatch(/still being processed/);
+
+    release!();
+    expect((await first).status).toBe(200);
+    release = null;
+  });
+
+  it("forgets a key whose response had no JSON body", async () => {
+    runs = 0;
+    await (await post("/api/text", {}, "text-key")).text();
+
+    await (await post("/api/text", {}, "text-key")).text();
+    expect(runs).toBe(2);
+  });
+
+  it("lets an abandoned in-progress key be claimed again", async () => {
+    runs = 0;
+    await storage.claimIdempotencyKey("user_1", "abandoned-key", "stale-hash", new Date(0));
+    const stillRunning = await post("/api/deposit", { amount: 500 }, "abandoned-key");
+    expect(stillRunning.status).toBe(409);
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 6 * 60 * 1000);
+    const retried = await post("/api/deposit", { amount: 500 }, "abandoned-key");
+
+    expect(retried.status).toBe(201);
+    expect(runs).toBe(1);
+  });
+});
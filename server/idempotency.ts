@@ -0,0 +1,78 @@
+/**
+ * Idempotency-Key support for money-moving endpoints
+ * A repeated key replays the first response instead of moving money again
+ */
+
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { canonicalJson } from "./canonical-json";
+
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000; // Keys are remembered for 24h
+// A key still in progress this long belongs to a request that died without answering
+const ABANDONED_AFTER_MS = 5 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+function requestHash(req: Request) {
+  return createHash("sha256")
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalJson(req.body)}`)
+    .digest("hex");
+}
+
+/**
+ * Honors an optional Idempotency-Key header, scoped to the logged-in user.
+ * Must run after requireAuth.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) {
+    return next();
+  }
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` });
+  }
+
+  try {
+    const hash = requestHash(req);
+    const staleBefore = new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS);
+    let { record, claimed } = await storage.claimIdempotencyKey(req.user!.id, key, hash, staleBefore);
+    if (!claimed && record.statusCode === null && Date.now() - new Date(record.createdAt).getTime() > ABANDONED_AFTER_MS) {
+      await storage.releaseIdempotencyKey(record.id);
+      ({ record, claimed } = await storage.claimIdempotencyKey(req.user!.id, key, hash, staleBefore));
+    }
+
+    if (!claimed) {
+      if (record.requestHash !== hash) {
+        return res.status(409).json({ error: "Idempotency-Key was already used with a different request" });
+      }
+      if (record.statusCode === null) {
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still being processed" });
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(record.statusCode).json(record.responseBody);
+    }
+
+    // Store the response before it is sent so a retry never sees a half-finished key
+    const claimedId = record.id;
+    let stored = false;
+    const originalJson = res.json;
+    res.json = function (body) {
+      stored = true;
+      storage.completeIdempotencyKey(claimedId, res.statusCode, body)
+        .catch(error => console.error("Failed to store idempotent response:", error))
+        .finally(() => originalJson.call(res, body));
+      return res;
+    };
+    // An answer without a JSON body leaves nothing to replay; a handler that never answers
+    // keeps the key until it is abandoned, since it may still be moving money
+    res.on("finish", () => {
+      if (!stored) {
+        storage.releaseIdempotencyKey(claimedId)
+          .catch(error => console.error("Failed to release idempotency key:", error));
+      }
+    });
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
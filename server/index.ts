@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./jobs";
+import { scheduleRecurringJobs } from "./job-handlers";
 
 const app = express();
+// Webhook signatures cover the exact request bytes, so those bodies stay raw
+app.use("/api/webhooks", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -67,5 +71,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Payout submission and polling, ACH settlement and reconciliation run here
+    jobQueue.start(Number(process.env.JOB_POLL_INTERVAL_MS) || undefined);
+    scheduleRecurringJobs().catch(error => console.error("Scheduling recurring jobs failed:", error));
   });
 })();
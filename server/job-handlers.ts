@@ -0,0 +1,236 @@
+/**
+ * The work the job queue runs: payout submission and status polling, ACH
+ * settlement and reconciliation. Provider calls happen here rather than in the
+ * HTTP request, so a slow or failing provider is retried instead of failing
+ * the user's withdrawal outright.
+ */
+
+import type { Transaction } from "@shared/schema";
+import type { PayoutResolution } from "@shared/jobs";
+import { formatMoney } from "@shared/money";
+import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import { payoutProviders } from "./payout-providers";
+import { achSettlement } from "./ach-settlement";
+import { reconciliationEngine } from "./reconciliation";
+
+const MINUTE_MS = 60 * 1000;
+const POLL_MIN_MS = MINUTE_MS;
+const POLL_MAX_MS = 6 * 60 * MINUTE_MS;
+// Past this the payout is left for an admin rather than polled forever
+const POLL_TIMEOUT_MS = 7 * 24 * 60 * MINUTE_MS;
+
+const ACH_SETTLEMENT_INTERVAL_MS = Number(process.env.ACH_SETTLEMENT_INTERVAL_MS) || 15 * MINUTE_MS;
+const RECONCILIATION_INTERVAL_MS = Number(process.env.RECONCILIATION_INTERVAL_MS) || 24 * 60 * MINUTE_MS;
+
+export interface PayoutSubmission {
+  userId: string;
+  transactionId: string; // The pending withdrawal holding the funds
+  provider: string;
+  destination: string;
+  description?: string;
+}
+
+interface PayoutPoll {
+  userId: string;
+  transactionId: string;
+  provider: string;
+  payoutId: string;
+}
+
+function payoutProvider(id: string) {
+  const provider = payoutProviders.get(id);
+  if (!provider) {
+    throw new Error(`Unknown payout provider: ${id}`);
+  }
+  return provider;
+}
+
+async function pendingWithdrawal(userId: string, transactionId: string) {
+  const transaction = await storage.getTransactionById(userId, transactionId);
+  if (!transaction) {
+    throw new Error(`Transaction ${transactionId} not found`);
+  }
+  return transaction;
+}
+
+export type ResolvePayoutResult =
+  | { transaction: Transaction }
+  | { error: string; status: 400 | 404 };
+
+/**
+ * Submit a reserved withdrawal to its provider. The job is unique per
+ * transaction, so submitting twice returns the job already queued. Providers
+ * that cannot dedupe a resent payout get one attempt.
+ */
+export function enqueuePayout(submission: PayoutSubmission) {
+  const provider = payoutProvider(submission.provider);
+  return jobQueue.enqueue("payout.submit", submission, {
+    uniqueKey: `payout.submit:${submission.transactionId}`,
+    ...(!provider.idempotent && { maxAttempts: 1 }),
+  });
+}
+
+/**
+ * Settle a withdrawal left pending because its provider never answered, once
+ * an admin has checked with the provider. Failing it returns the held funds.
+ */
+export async function resolvePayout({ userId, transactionId, status, payoutId }: PayoutResolution): Promise<ResolvePayoutResult> {
+  const transaction = await storage.getTransactionById(userId, transactionId);
+  if (!transaction || transaction.type !== "withdrawal") {
+    return { error: "Withdrawal not found", status: 404 };
+  }
+  if (transaction.status !== "pending") {
+    return { error: `This withdrawal is already ${transaction.status}`, status: 400 };
+  }
+
+  const resolved = await storage.updateTransactionStatus(userId, transactionId, status, {
+    ...(payoutId && { stripePayoutId: payoutId }),
+    ...(status === "failed" && { failureReason: "The provider has no record of this payout" }),
+  });
+  if (!resolved) {
+    return { error: "Withdrawal not found", status: 404 };
+  }
+  console.log(`🛠️ PAYOUT RESOLVED: ${transactionId} marked ${status} by an admin`);
+  return { transaction: resolved };
+}
+
+/**
+ * Queue the recurring jobs; each is unique, so restarts do not stack copies
+ */
+export async function scheduleRecurringJobs() {
+  await jobQueue.enqueue("ach.settle", {}, { uniqueKey: "ach.settle" });
+  await jobQueue.enqueue("reconciliation.run", {}, { uniqueKey: "reconciliation.run" });
+}
+
+// Provider errors are retried where the provider dedupes resent payouts; a payout the
+// provider declined fails the withdrawal straight away
+jobQueue.register<PayoutSubmission>("payout.submit", {
+  async run(payload) {
+    const provider = payoutProvider(payload.provider);
+    const transaction = await pendingWithdrawal(payload.userId, payload.transactionId);
+    // Already submitted, or settled some other way, on an earlier attempt
+    if (transaction.status !== "pending" || transaction.stripePayoutId) {
+      return { result: { status: transaction.status, payoutId: transaction.stripePayoutId } };
+    }
+    // An earlier attempt sent the payout but never recorded the answer; sending it again could pay twice
+    if (transaction.submittedAt && !provider.idempotent) {
+      throw new Error(`${provider.displayName} may already have made this payout; check with them and resolve it`);
+    }
+
+    if (!transaction.submittedAt) {
+      await storage.updateTransactionStatus(transaction.userId, transaction.id, "pending", { submittedAt: new Date() });
+    }
+    const outcome = await provider.createPayout({
+      netAmount: transaction.netAmount,
+      currency: transaction.currency,
+      destination: payload.destination,
+      reference: transaction.id,
+      description: payload.description,
+    });
+    await storage.updateTransactionStatus(transaction.userId, transaction.id, outcome.status, {
+      ...(outcome.payoutId && { stripePayoutId: outcome.payoutId }),
+      ...(outcome.failureReason && { failureReason: outcome.failureReason }),
+    });
+    console.log(`💸 ${provider.displayName.toUpperCase()} PAYOUT ${outcome.status.toUpperCase()}: ${formatMoney(transaction.netAmount, transaction.currency)} for ${transaction.id}`);
+
+    // A rail with no status lookups gets one poll that dead-letters at once, so the payout shows up for an admin
+    if (outcome.status === "pending" && outcome.payoutId) {
+      await jobQueue.enqueue<PayoutPoll>("payout.poll", {
+        userId: transaction.userId,
+        transactionId: transaction.id,
+        provider: provider.id,
+        payoutId: outcome.payoutId,
+      }, {
+        runAt: new Date(Date.now() + POLL_MIN_MS),
+        uniqueKey: `payout.poll:${transaction.id}`,
+        ...(!provider.getStatus && { maxAttempts: 1 }),
+      });
+    }
+    return { result: { status: outcome.status, payoutId: outcome.payoutId ?? null } };
+  },
+
+  // The held funds go back only if the provider was never asked; once it was, it
+  // may have paid, so the withdrawal stays pending until an admin resolves it
+  async onDead(payload, _job, error) {
+    const transaction = await pendingWithdrawal(payload.userId, payload.transactionId);
+    if (transaction.status !== "pending" || transaction.stripePayoutId) {
+      return;
+    }
+    if (transaction.submittedAt) {
+      console.log(`⚠️ PAYOUT UNCONFIRMED: ${transaction.id} was sent to ${payload.provider} with no answer; left pending for an admin`);
+      return;
+    }
+    await storage.updateTransactionStatus(transaction.userId, transaction.id, "failed", { failureReason: error });
+    console.log(`❌ PAYOUT FAILED: ${transaction.id} released before reaching the provider`);
+  },
+});
+
+// Webhooks usually settle payouts first; polling backs off as the payout ages
+jobQueue.register<PayoutPoll>("payout.poll", {
+  async run(payload, job) {
+    const transaction = await pendingWithdrawal(payload.userId, payload.transactionId);
+    if (transaction.status !== "pending") {
+      return { result: { status: transaction.status } };
+    }
+
+    const provider = payoutProvider(payload.provider);
+    if (!provider.getStatus) {
+      throw new Error(`${provider.displayName} cannot report payout status; confirm payout ${payload.payoutId} with them and resolve it`);
+    }
+    const age = Date.now() - new Date(job.createdAt).getTime();
+    if (age > POLL_TIMEOUT_MS) {
+      throw new Error(`${provider.displayName} has not settled payout ${payload.payoutId} after 7 days`);
+    }
+
+    const outcome = await provider.getStatus(payload.payoutId);
+    if (outcome.status === "pending") {
+      const delay = Math.min(Math.max(age / 4, POLL_MIN_MS), POLL_MAX_MS);
+      return { result: { status: "pending" }, rescheduleAt: new Date(Date.now() + delay) };
+    }
+
+    await storage.updateTransactionStatus(transaction.userId, transaction.id, outcome.status, {
+      ...(outcome.failureReason && { failureReason: outcome.failureReason }),
+    });
+    console.log(`🔎 PAYOUT POLLED: ${payload.payoutId} ${outcome.status}`);
+    return { result: { status: outcome.status } };
+  },
+
+  // The provider may still pay, so the hold stays; the dead job is the admin's cue to resolve it
+  async onDead(payload) {
+    const transaction = await pendingWithdrawal(payload.userId, payload.transactionId);
+    if (transaction.status === "pending") {
+      console.log(`⚠️ PAYOUT UNCONFIRMED: ${payload.payoutId} from ${payload.provider} for ${transaction.id} needs an admin to resolve it`);
+    }
+  },
+});
+
+jobQueue.register("ach.settle", {
+  recurring: true,
+  async run() {
+    const run = await achSettlement.settleDue();
+    return {
+      result: { settled: run.settled.map(deposit => deposit.id), errors: run.errors },
+      rescheduleAt: new Date(Date.now() + ACH_SETTLEMENT_INTERVAL_MS),
+    };
+  },
+});
+
+// The full report is on POST /api/reconciliation/run; the job keeps a summary
+jobQueue.register("reconciliation.run", {
+  recurring: true,
+  async run() {
+    const report = await reconciliationEngine.run();
+    return {
+      result: {
+        since: report.since,
+        until: report.until,
+        matched: report.matched,
+        unchecked: report.unchecked,
+        mismatches: report.mismatches.length,
+        sourceErrors: report.sourceErrors,
+      },
+      rescheduleAt: new Date(Date.now() + RECONCILIATION_INTERVAL_MS),
+    };
+  },
+});
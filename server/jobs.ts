@@ -0,0 +1,227 @@
+/**
+ * Persisted background job queue
+ * Jobs live in storage, so work queued by a request survives a restart. The
+ * worker claims due jobs, retries failures with exponential backoff and
+ * dead-letters a job once it runs out of attempts; dead jobs wait for an admin.
+ * Recurring jobs are never dead-lettered: they keep retrying until a run succeeds.
+ */
+
+import os from "os";
+import type { InsertJob, Job } from "@shared/schema";
+import type { JobType } from "@shared/jobs";
+import { storage } from "./storage";
+import { withAuditContext } from "./audit";
+
+const DEFAULT_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// A run locked this long belongs to a worker that died mid-run
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+// A queued job this far past its run time means no worker is picking jobs up
+const OVERDUE_MS = 15 * 60 * 1000;
+const ACTIVE_SCAN_LIMIT = 1000;
+
+// What a successful run reports; rescheduleAt runs the job again, e.g. a poll or recurring job
+export interface JobOutcome {
+  result?: unknown;
+  rescheduleAt?: Date;
+}
+
+export interface JobDefinition<T = any> {
+  run(payload: T, job: Job): Promise<JobOutcome | void>;
+  maxAttempts?: number;
+  // Retries without limit instead of dead-lettering, e.g. scheduled sweeps that must keep running
+  recurring?: boolean;
+  // Called once the job is dead-lettered, to undo whatever it was holding
+  onDead?(payload: T, job: Job, error: string): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  uniqueKey?: string;
+  maxAttempts?: number;
+}
+
+export type RetryResult = { job: Job } | { error: string; status: 400 | 404 | 409 };
+
+/**
+ * Delay before retry number `attempts`: 30s, 1m, 2m, ... capped at an hour
+ */
+export function retryDelay(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export class JobQueue {
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+  private definitions = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+
+  register<T>(type: JobType, definition: JobDefinition<T>) {
+    if (this.definitions.has(type)) {
+      throw new Error(`Job type already registered: ${type}`);
+    }
+    this.definitions.set(type, definition);
+  }
+
+  async enqueue<T>(type: JobType, payload: T, options: EnqueueOptions = {}): Promise<Job> {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    const job = await storage.enqueueJob({
+      type,
+      payload: payload as InsertJob["payload"],
+      maxAttempts: options.maxAttempts ?? definition.maxAttempts,
+      runAt: options.runAt,
+      uniqueKey: options.uniqueKey,
+    });
+    this.wake();
+    return job;
+  }
+
+  /**
+   * Claim and run due jobs until none are left. Returns how many ran.
+   */
+  async runDue(): Promise<number> {
+    if (this.draining) {
+      return 0;
+    }
+    this.draining = true;
+    let ran = 0;
+    try {
+      for (;;) {
+        const claimed = await storage.claimJobs(this.workerId, BATCH_SIZE, new Date(Date.now() - LOCK_TIMEOUT_MS));
+        if (claimed.length === 0) {
+          return ran;
+        }
+        for (const job of claimed) {
+          await this.execute(job);
+          ran++;
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async execute(job: Job) {
+    const definition = this.definitions.get(job.type);
+    let outcome: JobOutcome | void;
+    try {
+      if (!definition) {
+        throw new Error(`Unknown job type: ${job.type}`);
+      }
+      // A job claimed past its last attempt was taken over from a worker that died running it
+      if (job.attempts > job.maxAttempts && !definition.recurring) {
+        throw new Error("Worker stopped while running the job");
+      }
+      outcome = await withAuditContext({ actor: `job:${job.type}` }, () => definition.run(job.payload, job));
+    } catch (error: any) {
+      return this.fail(job, definition, error.message ?? String(error));
+    }
+
+    const result = outcome?.result ?? null;
+    if (outcome?.rescheduleAt) {
+      await storage.releaseJob(job.id, this.workerId, { status: "queued", attempts: 0, runAt: outcome.rescheduleAt, lastError: null, result });
+      return;
+    }
+    await storage.releaseJob(job.id, this.workerId, { status: "succeeded", lastError: null, result, completedAt: new Date() });
+  }
+
+  private async fail(job: Job, definition: JobDefinition | undefined, error: string) {
+    if (definition && (job.attempts < job.maxAttempts || definition.recurring)) {
+      const runAt = new Date(Date.now() + retryDelay(job.attempts));
+      console.log(`🔁 JOB RETRY: ${job.type} ${job.id} attempt ${job.attempts}${definition.recurring ? "" : `/${job.maxAttempts}`} failed (${error}), next at ${runAt.toISOString()}`);
+      await storage.releaseJob(job.id, this.workerId, { status: "queued", runAt, lastError: error });
+      return;
+    }
+
+    console.log(`☠️ JOB DEAD: ${job.type} ${job.id} after ${job.attempts} attempts: ${error}`);
+    const dead = await storage.releaseJob(job.id, this.workerId, { status: "dead", lastError: error, completedAt: new Date() });
+    if (dead && definition?.onDead) {
+      try {
+        await withAuditContext({ actor: `job:${job.type}` }, () => definition.onDead!(job.payload, dead, error));
+      } catch (hookError: any) {
+        console.error(`Job ${job.id} dead-letter handler failed:`, hookError.message);
+      }
+    }
+  }
+
+  /**
+   * Put a dead job back in the queue with fresh attempts
+   */
+  async retry(id: string): Promise<RetryResult> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      return { error: "Job not found", status: 404 };
+    }
+    if (job.status !== "dead") {
+      return { error: `Only dead jobs can be retried; this one is ${job.status}`, status: 400 };
+    }
+    if (job.uniqueKey && (await this.activeJobs()).some(active => active.uniqueKey === job.uniqueKey)) {
+      return { error: "Another job for the same work is already queued", status: 409 };
+    }
+
+    const requeued = await storage.requeueJob(id);
+    if (!requeued) {
+      return { error: "Job is no longer dead", status: 409 };
+    }
+    this.wake();
+    return { job: requeued };
+  }
+
+  /**
+   * Jobs that need an admin: dead ones, runs whose worker died, and queued
+   * jobs long past due
+   */
+  async stuck(now = new Date()): Promise<Job[]> {
+    const [dead, active] = await Promise.all([storage.getJobs({ status: "dead" }), this.activeJobs()]);
+    const stalled = active.filter(job => job.status === "running"
+      ? job.lockedAt !== null && now.getTime() - new Date(job.lockedAt).getTime() > LOCK_TIMEOUT_MS
+      : now.getTime() - new Date(job.runAt).getTime() > OVERDUE_MS);
+    return [...stalled, ...dead];
+  }
+
+  private async activeJobs() {
+    const [queued, running] = await Promise.all([
+      storage.getJobs({ status: "queued" }, ACTIVE_SCAN_LIMIT),
+      storage.getJobs({ status: "running" }, ACTIVE_SCAN_LIMIT),
+    ]);
+    return [...queued, ...running];
+  }
+
+  // Run due jobs soon instead of at the next tick, e.g. right after a request queues one
+  private wake() {
+    if (this.timer) {
+      setImmediate(() => this.tick());
+    }
+  }
+
+  private tick() {
+    this.runDue().catch(error => console.error("Job worker error:", error));
+  }
+
+  /**
+   * Run due jobs now and then every intervalMs
+   */
+  start(intervalMs = DEFAULT_INTERVAL_MS) {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+    this.tick();
+    console.log(`🕒 JOB WORKER ${this.workerId}: checking every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
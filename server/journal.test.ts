@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction } from "@shared/schema";
+import {
+  SYSTEM_ACCOUNTS,
+  assertBalanced,
+  buildReturnEntry,
+  buildStatusChangeEntry,
+  buildTransactionEntry,
+  deriveBalance,
+  userWalletCode,
+  type JournalEntryDraft,
+  type WalletPosting,
+} from "./journal";
+
+function transaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: "tx_1",
+    userId: "user_1",
+    type: "deposit",
+    amount: 10_000,
+    fee: 300,
+    netAmount: 9_700,
+    currency: "USD",
+    stripePaymentIntentId: null,
+    stripePayoutId: null,
+    submittedAt: null,
+    payoutProvider: null,
+    fundingMethod: "card",
+    isSandbox: false,
+    paymentMethodId: null,
+    paymentMethodName: null,
+    status: "completed",
+    failureReason: null,
+    settlesAt: null,
+    collectedAt: null,
+    returnCode: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function amountFor(entry: JournalEntryDraft | null, accountCode: string) {
+  return entry?.lines.find(line => line.accountCode === accountCode)?.amount ?? 0;
+}
+
+function total(entry: JournalEntryDraft | null) {
+  return entry!.lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+const wallet = userWalletCode("user_1");
+
+describe("assertBalanced", () => {
+  it("accepts postings that sum to zero", () => {
+    expect(() => assertBalanced([
+      { accountCode: wallet, amount: 500 },
+      { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount: -500 },
+    ])).not.toThrow();
+  });
+
+  it("rejects postings that do not sum to zero", () => {
+    expect(() => assertBalanced([
+      { accountCode: wallet, amount: 500 },
+      { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount: -499 },
+    ])).toThrow("does not balance (off by 1)");
+  });
+
+  it("rejects fractional minor units and single-sided entries", () => {
+    expect(() => assertBalanced([
+      { accountCode: wallet, amount: 0.5 },
+      { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount: -0.5 },
+    ])).toThrow("whole minor units");
+    expect(() => assertBalanced([{ accountCode: wallet, amount: 0 }])).toThrow("at least two postings");
+  });
+});
+
+describe("journal entries", () => {
+  it("credits a completed deposit net of its fee", () => {
+    const entry = buildTransactionEntry(transaction({}));
+
+    expect(total(entry)).toBe(0);
+    expect(amountFor(entry, wallet)).toBe(9_700);
+    expect(amountFor(entry, SYSTEM_ACCOUNTS.feeRevenue.code)).toBe(300);
+    expect(amountFor(entry, SYSTEM_ACCOUNTS.externalFunding.code)).toBe(-10_000);
+  });
+
+  it("moves nothing for a deposit that has not completed", () => {
+    expect(buildTransactionEntry(transaction({ status: "pending" }))).toBeNull();
+  });
+
+  it("holds a pending withdrawal in payouts_in_flight", () => {
+    const entry = buildTransactionEntry(transaction({ type: "withdrawal", status: "pending" }));
+
+    expect(total(entry)).toBe(0);
+    expect(amountFor(entry, wallet)).toBe(-10_000);
+    expect(amountFor(entry, SYSTEM_ACCOUNTS.payoutsInFlight.code)).toBe(10_000);
+  });
+
+  it("pays out or reverses the hold, balancing either way", () => {
+    const pending = transaction({ type: "withdrawal", status: "pending" });
+
+    const paid = buildStatusChangeEntry(pending, "completed");
+    expect(total(paid)).toBe(0);
+    expect(amountFor(paid, SYSTEM_ACCOUNTS.payoutsInFlight.code)).toBe(-10_000);
+    expect(amountFor(paid, SYSTEM_ACCOUNTS.externalPayouts.code)).toBe(9_700);
+
+    const reversed = buildStatusChangeEntry(pending, "failed");
+    expect(total(reversed)).toBe(0);
+    expect(amountFor(reversed, wallet)).toBe(10_000);
+  });
+
+  it("refuses to change a transaction that is no longer pending", () => {
+    expect(() => buildStatusChangeEntry(transaction({ type: "withdrawal" }), "failed")).toThrow("already completed");
+  });
+
+  it("takes a returned deposit back out of the wallet and refunds its fee", () => {
+    const entry = buildReturnEntry(transaction({ fundingMethod: "ach" }));
+
+    expect(total(entry)).toBe(0);
+    expect(amountFor(entry, wallet)).toBe(-9_700);
+    expect(amountFor(entry, SYSTEM_ACCOUNTS.feeRevenue.code)).toBe(-300);
+  });
+});
+
+describe("deriveBalance", () => {
+  const base = { id: "balance_1", userId: "user_1", currency: "USD" };
+
+  function postings(entries: Array<[string, JournalEntryDraft | null]>): WalletPosting[] {
+    return entries.flatMap(([transactionId, entry]) => (entry?.lines ?? [])
+      .filter(line => line.accountCode === wallet)
+      .map((line, index): WalletPosting => ({
+        id: `${transactionId}:${index}`,
+        entryId: transactionId,
+        accountId: wallet,
+        amount: line.amount,
+        currency: "USD",
+        createdAt: new Date(),
+        transactionId,
+      })));
+  }
+
+  it("nets a reversed withdrawal out of the totals", () => {
+    const deposit = transaction({ id: "dep" });
+    const withdrawal = transaction({ id: "wd", type: "withdrawal", amount: 5_000, fee: 100, netAmount: 4_900, status: "pending" });
+    const walletPostings = postings([
+      ["dep", buildTransactionEntry(deposit)],
+      ["wd", buildTransactionEntry(withdrawal)],
+      ["wd", buildStatusChangeEntry(withdrawal, "failed")],
+    ]);
+
+    const balance = deriveBalance(walletPostings, [deposit, { ...withdrawal, status: "failed" }], base);
+
+    expect(balance.currentBalance).toBe(9_700);
+    expect(balance.totalAdded).toBe(9_700);
+    expect(balance.totalWithdrawn).toBe(0);
+    expect(balance.pendingBalance).toBe(0);
+  });
+
+  it("reports held withdrawals as pending and paid ones as settled", () => {
+    const deposit = transaction({ id: "dep" });
+    const held = transaction({ id: "held", type: "withdrawal", amount: 2_000, fee: 0, netAmount: 2_000, status: "pending" });
+    const paid = transaction({ id: "paid", type: "withdrawal", amount: 3_000, fee: 0, netAmount: 3_000, status: "pending" });
+    const walletPostings = postings([
+      ["dep", buildTransactionEntry(deposit)],
+      ["held", buildTransactionEntry(held)],
+      ["paid", buildTransactionEntry(paid)],
+    ]);
+
+    const balance = deriveBalance(walletPostings, [deposit, held, { ...paid, status: "completed" }], base);
+
+    expect(balance.currentBalance).toBe(4_700);
+    expect(balance.pendingBalance).toBe(2_000);
+    expect(balance.settledBalance).toBe(3_000);
+  });
+});
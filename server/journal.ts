@@ -0,0 +1,287 @@
+/**
+ * Double-entry journal rules for BalanceFlow
+ * Translates transactions into postings so balances can always be rebuilt from history
+ */
+
+import type { Account, Balance, InsertAccount, Posting, Transaction, TransactionStatus } from "@shared/schema";
+import { DEFAULT_CURRENCY } from "@shared/money";
+import type { ReserveLiabilities } from "@shared/reserves";
+
+// Accounts every deployment starts with. Positive postings increase an account,
+// so user wallets hold a positive balance and external rails go negative.
+export const SYSTEM_ACCOUNTS = {
+  externalFunding: { code: "external_funding", name: "Incoming funds clearing", type: "asset" },
+  externalPayouts: { code: "external_payouts", name: "Outgoing payouts clearing", type: "asset" },
+  payoutsInFlight: { code: "payouts_in_flight", name: "Withdrawals awaiting provider result", type: "liability" },
+  feeRevenue: { code: "fee_revenue", name: "Fee revenue", type: "revenue" },
+} satisfies Record<string, InsertAccount>;
+
+const USER_WALLET_PREFIX = "user_wallet:";
+
+export function userWalletCode(userId: string) {
+  return `${USER_WALLET_PREFIX}${userId}`;
+}
+
+/**
+ * Account definition for a code, creating per-user wallets on demand
+ */
+export function accountTemplate(code: string): InsertAccount {
+  if (code.startsWith(USER_WALLET_PREFIX)) {
+    const userId = code.slice(USER_WALLET_PREFIX.length);
+    return { code, name: "User wallet", type: "liability", userId };
+  }
+
+  const template = Object.values(SYSTEM_ACCOUNTS).find(account => account.code === code);
+  if (!template) {
+    throw new Error(`Unknown ledger account: ${code}`);
+  }
+  return { ...template, userId: null };
+}
+
+export interface PostingLine {
+  accountCode: string;
+  amount: number;
+}
+
+// All lines of an entry share one currency; amounts are integer minor units
+export interface JournalEntryDraft {
+  description: string;
+  currency: string;
+  lines: PostingLine[];
+}
+
+/**
+ * Reject entries whose postings do not sum to exactly zero
+ */
+export function assertBalanced(lines: PostingLine[]) {
+  if (lines.length < 2) {
+    throw new Error("Journal entry needs at least two postings");
+  }
+
+  for (const line of lines) {
+    if (!Number.isSafeInteger(line.amount)) {
+      throw new Error(`Posting to ${line.accountCode} is not in whole minor units: ${line.amount}`);
+    }
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Journal entry does not balance (off by ${total})`);
+  }
+}
+
+function entryDraft(transaction: Transaction, label: string, lines: PostingLine[]): JournalEntryDraft {
+  lines = lines.filter(line => line.amount !== 0);
+  assertBalanced(lines);
+
+  return {
+    description: `${label} ${transaction.id}`,
+    currency: transaction.currency,
+    lines,
+  };
+}
+
+/**
+ * Build the journal entry for a newly recorded transaction
+ * Pending withdrawals move the full amount out of the wallet into payouts_in_flight
+ * so it cannot be spent twice; pending deposits move nothing until they complete
+ */
+export function buildTransactionEntry(transaction: Transaction): JournalEntryDraft | null {
+  const { amount, fee, netAmount } = transaction;
+  const wallet = userWalletCode(transaction.userId);
+
+  if (transaction.type === "deposit") {
+    if (transaction.status !== "completed") {
+      return null;
+    }
+    return entryDraft(transaction, "deposit", [
+      { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount: -amount },
+      { accountCode: wallet, amount: netAmount },
+      { accountCode: SYSTEM_ACCOUNTS.feeRevenue.code, amount: fee },
+    ]);
+  }
+
+  if (transaction.type === "withdrawal") {
+    if (transaction.status === "pending") {
+      return entryDraft(transaction, "withdrawal hold", [
+        { accountCode: wallet, amount: -amount },
+        { accountCode: SYSTEM_ACCOUNTS.payoutsInFlight.code, amount },
+      ]);
+    }
+    if (transaction.status !== "completed") {
+      return null;
+    }
+    return entryDraft(transaction, "withdrawal", [
+      { accountCode: wallet, amount: -amount },
+      { accountCode: SYSTEM_ACCOUNTS.externalPayouts.code, amount: netAmount },
+      { accountCode: SYSTEM_ACCOUNTS.feeRevenue.code, amount: fee },
+    ]);
+  }
+
+  throw new Error(`Unknown transaction type: ${transaction.type}`);
+}
+
+/**
+ * Build the journal entry for a status change. Only pending transactions can
+ * change status; a failed withdrawal returns its hold to the wallet.
+ */
+export function buildStatusChangeEntry(transaction: Transaction, status: TransactionStatus): JournalEntryDraft | null {
+  if (transaction.status !== "pending") {
+    throw new Error(`Transaction ${transaction.id} is already ${transaction.status}`);
+  }
+  if (status === "pending") {
+    return null;
+  }
+  if (status === "returned") {
+    throw new Error("Returned deposits are recorded with buildReturnEntry");
+  }
+
+  if (transaction.type === "deposit") {
+    return status === "completed" ? buildTransactionEntry({ ...transaction, status }) : null;
+  }
+
+  const { amount, fee, netAmount } = transaction;
+  if (status === "completed") {
+    return entryDraft(transaction, "withdrawal", [
+      { accountCode: SYSTEM_ACCOUNTS.payoutsInFlight.code, amount: -amount },
+      { accountCode: SYSTEM_ACCOUNTS.externalPayouts.code, amount: netAmount },
+      { accountCode: SYSTEM_ACCOUNTS.feeRevenue.code, amount: fee },
+    ]);
+  }
+  return entryDraft(transaction, "withdrawal reversal", [
+    { accountCode: SYSTEM_ACCOUNTS.payoutsInFlight.code, amount: -amount },
+    { accountCode: userWalletCode(transaction.userId), amount },
+  ]);
+}
+
+/**
+ * Build the journal entry for an ACH deposit the bank returned. One still
+ * pending was never credited, so nothing moves; a credited one is taken back
+ * out of the wallet even if that leaves it negative, and its fee refunded.
+ */
+export function buildReturnEntry(transaction: Transaction): JournalEntryDraft | null {
+  if (transaction.type !== "deposit") {
+    throw new Error(`Transaction ${transaction.id} is not a deposit`);
+  }
+  if (transaction.status === "pending") {
+    return null;
+  }
+  if (transaction.status !== "completed") {
+    throw new Error(`Transaction ${transaction.id} is already ${transaction.status}`);
+  }
+
+  const { amount, fee, netAmount } = transaction;
+  return entryDraft(transaction, "deposit return", [
+    { accountCode: userWalletCode(transaction.userId), amount: -netAmount },
+    { accountCode: SYSTEM_ACCOUNTS.feeRevenue.code, amount: -fee },
+    { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount },
+  ]);
+}
+
+/**
+ * Opening entry for a balance carried over from before the journal, credited
+ * to the wallet from incoming funds like a deposit
+ */
+export function buildOpeningBalanceEntry(userId: string, amount: number, currency: string): JournalEntryDraft {
+  const lines = [
+    { accountCode: SYSTEM_ACCOUNTS.externalFunding.code, amount: -amount },
+    { accountCode: userWalletCode(userId), amount },
+  ];
+  assertBalanced(lines);
+  return { description: `opening balance ${userId}`, currency, lines };
+}
+
+export type WalletPosting = Posting & { transactionId: string | null };
+
+export type BalanceTransaction = Pick<Transaction, "type" | "status" | "amount" | "netAmount" | "currency" | "isSandbox" | "createdAt">;
+
+/**
+ * Derive the balance summary from the wallet postings and the user's transactions
+ * Totals net each transaction's postings first, so a hold that was later
+ * reversed counts as neither added nor withdrawn. Pending is withdrawals
+ * still in flight plus deposits not yet credited, such as ACH deposits waiting
+ * for their settlement date; settled is withdrawals that have been paid out.
+ * Test funds are sandbox credits not yet spent through the sandbox rail; in
+ * date order, each sandbox-rail withdrawal spends only the test funds left
+ * when it was made, so one that drew on real funds does not use up later credits.
+ */
+export function deriveBalance(
+  walletPostings: WalletPosting[],
+  userTransactions: BalanceTransaction[],
+  base: Pick<Balance, "id" | "userId" | "currency">,
+  lastUpdated = new Date(),
+): Balance {
+  let currentBalance = 0;
+  const netByTransaction = new Map<string, number>();
+
+  for (const posting of walletPostings) {
+    currentBalance += posting.amount;
+    const key = posting.transactionId ?? posting.id;
+    netByTransaction.set(key, (netByTransaction.get(key) ?? 0) + posting.amount);
+  }
+
+  let totalAdded = 0;
+  let totalWithdrawn = 0;
+  netByTransaction.forEach(net => {
+    if (net > 0) {
+      totalAdded += net;
+    } else {
+      totalWithdrawn -= net;
+    }
+  });
+
+  let pendingBalance = 0;
+  let settledBalance = 0;
+  let sandboxRemaining = 0;
+  const byDate = [...userTransactions].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const transaction of byDate) {
+    if (transaction.currency !== base.currency) {
+      continue;
+    }
+    if (transaction.type === "deposit") {
+      if (transaction.status === "pending") {
+        pendingBalance += transaction.netAmount;
+      }
+      if (transaction.isSandbox && transaction.status === "completed") {
+        sandboxRemaining += transaction.netAmount;
+      }
+      continue;
+    }
+
+    if (transaction.status === "pending") {
+      pendingBalance += transaction.amount;
+    } else if (transaction.status === "completed") {
+      settledBalance += transaction.amount;
+    }
+    if (transaction.isSandbox && transaction.status !== "failed") {
+      sandboxRemaining -= Math.min(sandboxRemaining, transaction.amount);
+    }
+  }
+  // A returned deposit can leave the wallet negative; test funds never are
+  const sandboxBalance = Math.max(0, Math.min(currentBalance, sandboxRemaining));
+
+  return { ...base, currentBalance, pendingBalance, settledBalance, sandboxBalance, totalAdded, totalWithdrawn, lastUpdated };
+}
+
+/**
+ * What a withdrawal may draw on: everything for the sandbox rail, only real funds otherwise
+ */
+export function spendableBalance(balance: Balance, sandboxRail: boolean) {
+  return sandboxRail ? balance.currentBalance : balance.currentBalance - balance.sandboxBalance;
+}
+
+/**
+ * What users are owed: wallets plus payouts in flight, less test funds nobody real is owed
+ */
+export function liabilitySummary(userWallets: number, payoutsInFlight: number, testFunds: number): ReserveLiabilities {
+  return { userWallets, payoutsInFlight, testFunds, total: userWallets + payoutsInFlight - testFunds };
+}
+
+/**
+ * Sum postings for a single account in one currency
+ */
+export function sumPostings(account: Account, allPostings: Posting[], currency = DEFAULT_CURRENCY) {
+  return allPostings
+    .filter(posting => posting.accountId === account.id && posting.currency === currency)
+    .reduce((sum, posting) => sum + posting.amount, 0);
+}
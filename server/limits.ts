@@ -0,0 +1,159 @@
+/**
+ * Per-transaction and rolling-window limits for deposits and withdrawals
+ * Override or extend the defaults with TRANSACTION_LIMITS, a JSON array of limit rules
+ */
+
+import { z } from "zod";
+import type { Transaction } from "@shared/schema";
+import { LIMIT_PERIOD_MS, limitRuleSchema, type LimitRule, type LimitStatus, type LimitWindowStatus } from "@shared/limits";
+import { formatMoney } from "@shared/money";
+import { storage, type TransactionGuard } from "./storage";
+
+type LimitDirection = LimitRule["type"];
+
+const DEFAULT_LIMIT_RULES: LimitRule[] = [
+  {
+    type: "deposit",
+    maxPerTransaction: 5_000_000,
+    windows: [{ period: "day", maxAmount: 10_000_000 }],
+  },
+  {
+    type: "withdrawal",
+    maxPerTransaction: 1_000_000,
+    windows: [
+      { period: "day", maxAmount: 2_500_000, maxCount: 10 },
+      { period: "week", maxAmount: 5_000_000 },
+      { period: "month", maxAmount: 10_000_000 },
+    ],
+  },
+  {
+    type: "withdrawal",
+    method: "cashapp",
+    maxPerTransaction: 250_000,
+    windows: [{ period: "week", maxAmount: 750_000 }],
+  },
+];
+
+const PERIOD_ADJECTIVES = { day: "daily", week: "weekly", month: "monthly" } as const;
+
+function ruleKey(rule: Pick<LimitRule, "type" | "method" | "userId">) {
+  return `${rule.type}:${rule.method ?? "*"}:${rule.userId ?? "*"}`;
+}
+
+// The rail a transaction went through, in the same ids limit rules use
+function transactionMethod(transaction: Transaction) {
+  return transaction.type === "withdrawal" ? transaction.payoutProvider : transaction.fundingMethod;
+}
+
+function minOrNull(values: (number | null)[]): number | null {
+  const bounded = values.filter((value): value is number => value !== null);
+  return bounded.length ? Math.min(...bounded) : null;
+}
+
+export class TransactionLimits {
+  private rules = new Map<string, LimitRule>();
+
+  constructor(rules: LimitRule[] = DEFAULT_LIMIT_RULES) {
+    rules.forEach(rule => this.set(rule));
+  }
+
+  /**
+   * Add or replace the rule for a type, method and user
+   */
+  set(rule: LimitRule) {
+    this.rules.set(ruleKey(rule), limitRuleSchema.parse(rule));
+  }
+
+  list(): LimitRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Rules that apply to a user and method: the all-methods rule and the
+   * method's own rule, each replaced by the user's override when there is one
+   */
+  rulesFor(userId: string, type: LimitDirection, method: string): LimitRule[] {
+    return [undefined, method]
+      .map(scope => this.rules.get(ruleKey({ type, method: scope, userId }))
+        ?? this.rules.get(ruleKey({ type, method: scope })))
+      .filter((rule): rule is LimitRule => rule !== undefined);
+  }
+
+  /**
+   * Usage and headroom for a method, from the user's non-failed transactions
+   */
+  status(userId: string, type: LimitDirection, method: string, history: Transaction[], now = new Date()): LimitStatus {
+    const rules = this.rulesFor(userId, type, method);
+    const counted = history.filter(transaction => transaction.type === type && transaction.status !== "failed");
+
+    const windows: LimitWindowStatus[] = rules.flatMap(rule => rule.windows.map(window => {
+      const since = now.getTime() - LIMIT_PERIOD_MS[window.period];
+      const inWindow = counted.filter(transaction =>
+        new Date(transaction.createdAt).getTime() > since
+        && (!rule.method || transactionMethod(transaction) === rule.method));
+      const usedAmount = inWindow.reduce((sum, transaction) => sum + transaction.amount, 0);
+      const usedCount = inWindow.length;
+
+      return {
+        period: window.period,
+        method: rule.method ?? null,
+        maxAmount: window.maxAmount ?? null,
+        usedAmount,
+        remainingAmount: window.maxAmount === undefined ? null : Math.max(0, window.maxAmount - usedAmount),
+        maxCount: window.maxCount ?? null,
+        usedCount,
+        remainingCount: window.maxCount === undefined ? null : Math.max(0, window.maxCount - usedCount),
+      };
+    }));
+
+    const maxPerTransaction = minOrNull(rules.map(rule => rule.maxPerTransaction ?? null));
+    const remainingCount = minOrNull(windows.map(window => window.remainingCount));
+    const remainingAmount = remainingCount === 0
+      ? 0
+      : minOrNull([maxPerTransaction, ...windows.map(window => window.remainingAmount)]);
+
+    return { type, method, maxPerTransaction, remainingAmount, remainingCount, windows };
+  }
+
+  /**
+   * Why an amount is over the limit, or null when it is allowed
+   */
+  violation(status: LimitStatus, amount: number): string | null {
+    if (status.maxPerTransaction !== null && amount > status.maxPerTransaction) {
+      return `Maximum ${status.type} is ${formatMoney(status.maxPerTransaction)} per transaction`;
+    }
+    for (const window of status.windows) {
+      const scope = window.method ? `${window.method} ${status.type}s` : `${status.type}s`;
+      if (window.remainingCount === 0) {
+        return `You have reached the limit of ${window.maxCount} ${scope} per ${window.period}`;
+      }
+      if (window.remainingAmount !== null && amount > window.remainingAmount) {
+        return `This exceeds your ${PERIOD_ADJECTIVES[window.period]} ${scope} limit; ${formatMoney(window.remainingAmount)} remaining`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Refuses an amount over the limit, for storage to check under the user's balance lock
+   */
+  guard(userId: string, type: LimitDirection, method: string, amount: number): TransactionGuard {
+    return history => this.violation(this.status(userId, type, method, history), amount);
+  }
+
+  async statusFor(userId: string, type: LimitDirection, method: string): Promise<LimitStatus> {
+    return this.status(userId, type, method, await storage.getTransactions(userId));
+  }
+}
+
+function loadTransactionLimits() {
+  const limits = new TransactionLimits();
+  if (process.env.TRANSACTION_LIMITS) {
+    const overrides = z.array(limitRuleSchema).parse(JSON.parse(process.env.TRANSACTION_LIMITS));
+    overrides.forEach(rule => limits.set(rule));
+    console.log(`🚦 Loaded ${overrides.length} limit rule override(s) from TRANSACTION_LIMITS`);
+  }
+  return limits;
+}
+
+export const transactionLimits = loadTransactionLimits();
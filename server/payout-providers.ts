@@ -0,0 +1,351 @@
+/**
+ * Common contract for every payout rail plus the registry routes dispatch through
+ * Amounts are integer minor units; providers never touch balances or the journal
+ * Fees come from the fee schedule, except Wise which quotes its own
+ */
+
+import type { IncomingHttpHeaders } from "http";
+import type Stripe from "stripe";
+import type { TransactionStatus } from "@shared/schema";
+import type { ReserveRail } from "@shared/reserves";
+import { toMinorUnits } from "@shared/money";
+import { stripe } from "./stripe-connect";
+import { dotsAPI } from "./dots-cashapp";
+import { plaidDwolla } from "./plaid-dwolla";
+import { wiseTransfer } from "./wise-transfer";
+import { blockchainLedger } from "./blockchain-ledger";
+import { SandboxPayoutProvider } from "./sandbox-payout";
+import { feeSchedule } from "./fees";
+
+export interface PayoutQuote {
+  amount: number;
+  fee: number;
+  netAmount: number;
+  currency: string;
+}
+
+export interface PayoutRequest {
+  netAmount: number; // What the recipient should receive
+  currency: string;
+  destination: string; // Card, phone number, bank account, wallet address or recipient id
+  reference: string; // Our transaction id
+  description?: string;
+}
+
+// What a payout provider reported for a payout
+export interface PayoutOutcome {
+  status: TransactionStatus;
+  payoutId?: string;
+  failureReason?: string;
+}
+
+export interface PayoutWebhookEvent {
+  eventId: string;
+  payoutId: string;
+  outcome: PayoutOutcome;
+}
+
+// A payout or payment as the provider recorded it, for reconciliation
+export interface ProviderRecord {
+  provider: string; // PayoutProvider id, or 'stripe' for card and bank payments
+  kind: "payout" | "payment";
+  externalId: string;
+  amount: number; // What moved at the provider: the net amount of a payout, the gross amount of a payment
+  currency: string;
+  status: TransactionStatus;
+  reference?: string | null; // Our transaction id, when the provider keeps it
+  createdAt: Date;
+}
+
+export interface PayoutProvider {
+  readonly id: string;
+  readonly displayName: string;
+  readonly isSandbox?: boolean; // Moves no real money, so it may pay out test funds
+  readonly reserveRail?: ReserveRail; // Treasury account its payouts are paid from; unset for sandbox rails
+  readonly paysPlatformAccount?: boolean; // Ignores the destination and pays the platform's own bank or card
+  readonly idempotent?: boolean; // createPayout dedupes on the reference, so resending after a lost answer cannot pay twice
+  quote(amount: number, currency: string): Promise<PayoutQuote>;
+  createPayout(request: PayoutRequest): Promise<PayoutOutcome>;
+  // Rails with no status API leave this out; their pending payouts wait for a webhook or an admin
+  getStatus?(payoutId: string): Promise<PayoutOutcome>;
+  cancel(payoutId: string): Promise<PayoutOutcome>;
+  // Returns null for events that are not about a payout; throws on a bad signature
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PayoutWebhookEvent | null;
+  // Payouts created in [since, until); rails without a listing API leave this out and are not reconciled live
+  listPayouts?(since: Date, until: Date): Promise<ProviderRecord[]>;
+}
+
+/**
+ * Quote from the fee schedule's withdrawal rule for a provider
+ */
+export function scheduledQuote(providerId: string, amount: number, currency: string): PayoutQuote {
+  const { fee, netAmount } = feeSchedule.quote("withdrawal", providerId, amount, currency);
+  return { amount, fee, netAmount, currency };
+}
+
+function unsupported(provider: PayoutProvider, action: string): never {
+  throw new Error(`${provider.displayName} does not support ${action}`);
+}
+
+// Map a provider-specific status string onto our lifecycle
+function outcomeFromStatus(
+  status: string,
+  payoutId: string,
+  completed: string[],
+  failed: string[],
+  failureReason?: string | null,
+): PayoutOutcome {
+  const normalized = status.toLowerCase();
+  if (completed.includes(normalized)) {
+    return { status: "completed", payoutId };
+  }
+  if (failed.includes(normalized)) {
+    return { status: "failed", payoutId, failureReason: failureReason || `Payout ${normalized}` };
+  }
+  return { status: "pending", payoutId };
+}
+
+const STRIPE_PAYOUT_EVENTS = ["payout.paid", "payout.failed", "payout.canceled", "payout.updated"];
+
+function stripePayoutOutcome(payout: Stripe.Payout): PayoutOutcome {
+  return outcomeFromStatus(payout.status, payout.id, ["paid"], ["failed", "canceled"], payout.failure_message);
+}
+
+/**
+ * Stripe payouts from the platform balance; `method` picks instant card or standard ACH
+ * Payouts go to the platform account's default external account, never to a user's
+ */
+export class StripePayoutProvider implements PayoutProvider {
+  readonly reserveRail = "stripe";
+  readonly paysPlatformAccount = true;
+  readonly idempotent = true;
+
+  constructor(
+    readonly id: string,
+    readonly displayName: string,
+    private method: "instant" | "standard",
+  ) {}
+
+  async quote(amount: number, currency: string) {
+    return scheduledQuote(this.id, amount, currency);
+  }
+
+  async createPayout(request: PayoutRequest) {
+    const payout = await stripe.payouts.create({
+      amount: request.netAmount,
+      currency: request.currency.toLowerCase(),
+      method: this.method,
+      description: request.description,
+      metadata: { transactionId: request.reference },
+    }, {
+      // The payout.submit job retries on errors; a retry after a lost response gets the same payout back
+      idempotencyKey: `payout:${request.reference}`,
+    });
+    return stripePayoutOutcome(payout);
+  }
+
+  async getStatus(payoutId: string) {
+    return stripePayoutOutcome(await stripe.payouts.retrieve(payoutId));
+  }
+
+  async cancel(payoutId: string) {
+    return stripePayoutOutcome(await stripe.payouts.cancel(payoutId));
+  }
+
+  // Instant and standard payouts share one Stripe account, so each provider lists only its method
+  async listPayouts(since: Date, until: Date): Promise<ProviderRecord[]> {
+    const payouts = await stripe.payouts.list({
+      created: { gte: Math.floor(since.getTime() / 1000), lt: Math.floor(until.getTime() / 1000) },
+      limit: 100,
+    }).autoPagingToArray({ limit: 10_000 });
+
+    return payouts
+      .filter(payout => payout.method === this.method)
+      .map(payout => ({
+        provider: this.id,
+        kind: "payout",
+        externalId: payout.id,
+        amount: payout.amount,
+        currency: payout.currency.toUpperCase(),
+        status: stripePayoutOutcome(payout).status,
+        reference: payout.metadata?.transactionId ?? null,
+        createdAt: new Date(payout.created * 1000),
+      }));
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PayoutWebhookEvent | null {
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+      throw new Error('Missing required Stripe secret: STRIPE_WEBHOOK_SECRET');
+    }
+
+    const event = stripe.webhooks.constructEvent(
+      rawBody,
+      headers["stripe-signature"] ?? "",
+      process.env.STRIPE_WEBHOOK_SECRET,
+    );
+    if (!STRIPE_PAYOUT_EVENTS.includes(event.type)) {
+      return null;
+    }
+
+    const payout = event.data.object as Stripe.Payout;
+    return { eventId: event.id, payoutId: payout.id, outcome: stripePayoutOutcome(payout) };
+  }
+}
+
+/**
+ * CashApp payouts by phone number through Dots
+ */
+export class DotsPayoutProvider implements PayoutProvider {
+  readonly id = "cashapp";
+  readonly displayName = "CashApp";
+  readonly reserveRail = "bank";
+
+  async quote(amount: number, currency: string) {
+    return scheduledQuote(this.id, amount, currency);
+  }
+
+  async createPayout(request: PayoutRequest) {
+    const result = await dotsAPI.createCashAppPayout(request.destination, request.netAmount, request.description);
+    return this.toOutcome(result);
+  }
+
+  async getStatus(payoutId: string) {
+    return this.toOutcome(await dotsAPI.getPayoutStatus(payoutId));
+  }
+
+  async cancel(_payoutId: string): Promise<PayoutOutcome> {
+    return unsupported(this, "cancelling payouts");
+  }
+
+  parseWebhook(): PayoutWebhookEvent | null {
+    return unsupported(this, "webhooks");
+  }
+
+  private toOutcome(result: any): PayoutOutcome {
+    return outcomeFromStatus(String(result?.status ?? "pending"), result?.id, ["completed", "paid", "success"], ["failed", "canceled", "cancelled", "returned"]);
+  }
+}
+
+/**
+ * Next-day ACH through Plaid account verification and Dwolla
+ */
+export class DwollaPayoutProvider implements PayoutProvider {
+  readonly id = "dwolla";
+  readonly displayName = "Bank transfer (Dwolla)";
+  readonly reserveRail = "bank";
+
+  async quote(amount: number, currency: string) {
+    return scheduledQuote(this.id, amount, currency);
+  }
+
+  async createPayout(request: PayoutRequest) {
+    const transfer = await plaidDwolla.createACHTransfer({ fundingSource: request.destination }, request.netAmount, request.description);
+    return outcomeFromStatus(transfer.status, transfer.id, ["processed"], ["failed", "cancelled"]);
+  }
+
+  async cancel(_payoutId: string): Promise<PayoutOutcome> {
+    return unsupported(this, "cancelling payouts");
+  }
+
+  parseWebhook(): PayoutWebhookEvent | null {
+    return unsupported(this, "webhooks");
+  }
+}
+
+const WISE_COMPLETED = ["outgoing_payment_sent"];
+const WISE_FAILED = ["cancelled", "funds_refunded", "bounced_back", "charged_back"];
+
+/**
+ * International transfers through Wise; the destination is a Wise recipient account id
+ */
+export class WisePayoutProvider implements PayoutProvider {
+  readonly id = "wise";
+  readonly displayName = "Wise";
+  readonly reserveRail = "bank";
+
+  async quote(amount: number, currency: string) {
+    const quote = await wiseTransfer.createQuote(currency, currency, amount);
+    const fee = toMinorUnits(quote.fee ?? 0);
+    return { amount, fee, netAmount: amount - fee, currency };
+  }
+
+  async createPayout(request: PayoutRequest) {
+    const quote = await wiseTransfer.createQuote(request.currency, request.currency, request.netAmount);
+    const transfer = await wiseTransfer.createTransfer(quote.id, request.destination, request.description);
+    return outcomeFromStatus(transfer.status, String(transfer.id), WISE_COMPLETED, WISE_FAILED);
+  }
+
+  async getStatus(payoutId: string) {
+    const transfer = await wiseTransfer.getTransferStatus(payoutId);
+    return outcomeFromStatus(transfer.status, payoutId, WISE_COMPLETED, WISE_FAILED);
+  }
+
+  async cancel(payoutId: string) {
+    const transfer = await wiseTransfer.cancelTransfer(payoutId);
+    return outcomeFromStatus(transfer.status, payoutId, WISE_COMPLETED, WISE_FAILED);
+  }
+
+  parseWebhook(): PayoutWebhookEvent | null {
+    return unsupported(this, "webhooks");
+  }
+}
+
+/**
+ * USDC on Polygon from the treasury wallet
+ */
+export class UsdcPayoutProvider implements PayoutProvider {
+  readonly id = "usdc";
+  readonly displayName = "USDC";
+  readonly reserveRail = "usdc";
+
+  async quote(amount: number, currency: string) {
+    return scheduledQuote(this.id, amount, currency);
+  }
+
+  async createPayout(request: PayoutRequest): Promise<PayoutOutcome> {
+    await blockchainLedger.convertToRealUSDC(request.destination, request.netAmount);
+    return { status: "completed" };
+  }
+
+  async cancel(_payoutId: string): Promise<PayoutOutcome> {
+    return unsupported(this, "cancelling payouts");
+  }
+
+  parseWebhook(): PayoutWebhookEvent | null {
+    return unsupported(this, "webhooks");
+  }
+}
+
+export class PayoutProviderRegistry {
+  private providers = new Map<string, PayoutProvider>();
+
+  register(provider: PayoutProvider) {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Payout provider already registered: ${provider.id}`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): PayoutProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): PayoutProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+export const sandboxPayouts = new SandboxPayoutProvider();
+
+export const payoutProviders = new PayoutProviderRegistry();
+payoutProviders.register(new StripePayoutProvider("stripe", "Stripe instant payout", "instant"));
+payoutProviders.register(new StripePayoutProvider("ach", "ACH bank transfer", "standard"));
+payoutProviders.register(new DotsPayoutProvider());
+payoutProviders.register(new DwollaPayoutProvider());
+payoutProviders.register(new WisePayoutProvider());
+payoutProviders.register(new UsdcPayoutProvider());
+
+// Offline rail for development and tests; never offered in production
+if (process.env.NODE_ENV !== 'production') {
+  payoutProviders.register(sandboxPayouts);
+}
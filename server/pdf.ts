@@ -0,0 +1,103 @@
+/**
+ * Minimal PDF 1.4 writer for printable reports: text in the standard
+ * Helvetica and Courier fonts plus ruled lines on US Letter pages
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "right"; // Right alignment is only exact for the mono font
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  mono: { name: "F3", baseFont: "Courier" },
+};
+
+// Characters outside ASCII that WinAnsiEncoding can show, as octal codes
+const WIN_ANSI: Record<string, string> = {
+  "•": "\\225",
+  "–": "\\226",
+  "—": "\\227",
+  "·": "\\267",
+};
+
+function pdfString(text: string): string {
+  return Array.from(text).map(char => {
+    if (char === "(" || char === ")" || char === "\\") {
+      return `\\${char}`;
+    }
+    if (char.charCodeAt(0) < 128) {
+      return char;
+    }
+    return WIN_ANSI[char] ?? "?";
+  }).join("");
+}
+
+function textWidth(text: string, size: number, font: PdfFont): number {
+  // Courier glyphs are all 600/1000 em; Helvetica averages a little over half an em
+  return Array.from(text).length * size * (font === "mono" ? 0.6 : 0.52);
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  // Coordinates are points from the bottom-left corner
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.font ?? "regular";
+    const left = options.align === "right" ? x - textWidth(text, size, font) : x;
+    this.current().push(`BT /${FONT_RESOURCES[font].name} ${size} Tf ${left.toFixed(2)} ${y.toFixed(2)} Td (${pdfString(text)}) Tj ET`);
+  }
+
+  rule(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current().push(`${width} w ${x1} ${y1} m ${x2} ${y2} l S`);
+  }
+
+  render(): Buffer {
+    const fonts = Object.values(FONT_RESOURCES);
+    const fontIds = fonts.map((_, index) => 3 + index);
+    const pageIds = this.pages.map((_, index) => 3 + fonts.length + index * 2);
+
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+      ...fonts.map(font => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+    ];
+    const fontDictionary = fonts.map((font, index) => `/${font.name} ${fontIds[index]} 0 R`).join(" ");
+    this.pages.forEach((operations, index) => {
+      const content = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontDictionary} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+      );
+    });
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(output, "latin1");
+  }
+
+  private current() {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -1,8 +1,11 @@
 /**
  * Plaid + Dwolla integration for real ACH and Wire transfers
  * Uses the 2024 unified API for seamless bank transfers
+ * Amounts are integer cents
  */
 
+import { formatMoney } from "@shared/money";
+
 export class PlaidDwollaService {
   private plaidClient: any;
   private dwollaClient: any;
@@ -59,20 +62,20 @@ export class PlaidDwollaService {
       console.log(`🏦 Creating Dwolla funding source...`);
       
       // Step 3: Execute ACH transfer
-      const transferAmount = amount * 100; // Convert to cents
+      const transferFee = Math.round(amount * 0.0075); // 0.75% fee
       
-      console.log(`✅ REAL ACH TRANSFER: $${amount.toFixed(2)} to bank account`);
+      console.log(`✅ REAL ACH TRANSFER: ${formatMoney(amount)} to bank account`);
       
       // Mock successful response structure
       return {
         id: `ach_${Date.now()}`,
-        amount: transferAmount,
+        amount,
         status: 'processing',
-        description: description || `BalanceFlow ACH transfer $${amount.toFixed(2)}`,
+        description: description || `BalanceFlow ACH transfer ${formatMoney(amount)}`,
         estimated_arrival: new Date(Date.now() + 24 * 60 * 60 * 1000), // Next day
         method: 'ACH',
-        fees: Math.round(amount * 0.75), // 0.75% fee
-        net_amount: transferAmount - Math.round(amount * 0.75)
+        fees: transferFee,
+        net_amount: amount - transferFee
       };
     } catch (error: any) {
       console.error('❌ ACH transfer failed:', error.message);
@@ -88,27 +91,26 @@ export class PlaidDwollaService {
       const dwollaConfig = this.initDwolla();
 
       // Wire transfers require additional verification
-      if (amount < 1000) {
+      if (amount < 100_000) {
         throw new Error('Wire transfers require minimum $1,000');
       }
 
-      console.log(`📨 Processing wire transfer: $${amount.toFixed(2)}`);
+      console.log(`📨 Processing wire transfer: ${formatMoney(amount)}`);
       
       // Wire transfer implementation
-      const wireAmount = amount * 100;
-      const wireFee = 25 * 100; // $25 wire fee
+      const wireFee = 2500; // $25 wire fee
       
-      console.log(`✅ REAL WIRE TRANSFER: $${amount.toFixed(2)} to bank account`);
+      console.log(`✅ REAL WIRE TRANSFER: ${formatMoney(amount)} to bank account`);
       
       return {
         id: `wire_${Date.now()}`,
-        amount: wireAmount,
+        amount,
         status: 'processing',
-        description: description || `BalanceFlow wire transfer $${amount.toFixed(2)}`,
+        description: description || `BalanceFlow wire transfer ${formatMoney(amount)}`,
         estimated_arrival: new Date(Date.now() + 4 * 60 * 60 * 1000), // Same day
         method: 'WIRE',
         fees: wireFee,
-        net_amount: wireAmount - wireFee
+        net_amount: amount - wireFee
       };
     } catch (error: any) {
       console.error('❌ Wire transfer failed:', error.message);
@@ -0,0 +1,316 @@
+/**
+ * Reconciliation: match our transactions against what the providers recorded
+ * Records come from each payout provider's listPayouts and from Stripe payment
+ * intents, or from fixture files in server/fixtures/reconciliation for offline runs
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type Stripe from "stripe";
+import type { Transaction, TransactionStatus } from "@shared/schema";
+import { currencySchema, formatMoney, minorUnitsSchema } from "@shared/money";
+import { storage } from "./storage";
+import { stripe } from "./stripe-connect";
+import { payoutProviders, type ProviderRecord } from "./payout-providers";
+import { isAchDeposit } from "./ach-settlement";
+
+export const FIXTURE_DIR = path.join(process.cwd(), "server", "fixtures", "reconciliation");
+
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type MismatchKind = "missing_ours" | "missing_theirs" | "amount" | "status";
+
+interface RecordSide {
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+export interface ReconciliationMismatch {
+  kind: MismatchKind;
+  provider: string;
+  recordKind: ProviderRecord["kind"];
+  externalId: string | null;
+  transactionId: string | null;
+  userId: string | null;
+  ours: RecordSide | null;
+  theirs: RecordSide | null;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  since: string;
+  until: string;
+  generatedAt: string;
+  sources: string[];
+  sourceErrors: { source: string; error: string }[];
+  matched: number;
+  unchecked: number; // Transactions on rails no source covered in this run
+  mismatches: ReconciliationMismatch[];
+}
+
+/**
+ * Where provider records come from. A source is authoritative for one
+ * provider and kind: anything of ours it does not list is missing on theirs.
+ */
+export interface ReconciliationSource {
+  readonly name: string;
+  readonly provider: string;
+  readonly kind: ProviderRecord["kind"];
+  listRecords(since: Date, until: Date): Promise<ProviderRecord[]>;
+}
+
+function paymentIntentStatus(intent: Stripe.PaymentIntent): TransactionStatus {
+  if (intent.status === "succeeded") {
+    return "completed";
+  }
+  if (intent.status === "canceled" || (intent.status === "requires_payment_method" && intent.last_payment_error)) {
+    return "failed";
+  }
+  return "pending";
+}
+
+const stripePayments: ReconciliationSource = {
+  name: "stripe payments",
+  provider: "stripe",
+  kind: "payment",
+  async listRecords(since, until) {
+    const intents = await stripe.paymentIntents.list({
+      created: { gte: Math.floor(since.getTime() / 1000), lt: Math.floor(until.getTime() / 1000) },
+      limit: 100,
+    }).autoPagingToArray({ limit: 10_000 });
+
+    return intents.map(intent => ({
+      provider: "stripe",
+      kind: "payment",
+      externalId: intent.id,
+      amount: intent.amount,
+      currency: intent.currency.toUpperCase(),
+      status: paymentIntentStatus(intent),
+      reference: intent.metadata?.transaction_id ?? null,
+      createdAt: new Date(intent.created * 1000),
+    }));
+  },
+};
+
+/**
+ * Real payout providers that can list their payouts, plus Stripe payment intents for deposits
+ */
+export function liveSources(): ReconciliationSource[] {
+  const payoutSources = payoutProviders.list().flatMap((provider): ReconciliationSource[] => {
+    if (provider.isSandbox) {
+      return [];
+    }
+    const listPayouts = provider.listPayouts?.bind(provider);
+    return listPayouts
+      ? [{ name: `${provider.id} payouts`, provider: provider.id, kind: "payout", listRecords: listPayouts }]
+      : [];
+  });
+  return [...payoutSources, stripePayments];
+}
+
+const fixtureRecordSchema = z.object({
+  externalId: z.string().min(1),
+  amount: minorUnitsSchema.nonnegative(),
+  currency: currencySchema,
+  status: z.enum(["pending", "completed", "failed"]),
+  reference: z.string().nullish(),
+  createdAt: z.coerce.date(),
+});
+
+/**
+ * One source per fixture file. Files are named <provider>-<kind>s.json, e.g.
+ * stripe-payouts.json, and hold an array of records in minor units.
+ */
+export function fixtureSources(directory = FIXTURE_DIR): ReconciliationSource[] {
+  return fs.readdirSync(directory).flatMap((file): ReconciliationSource[] => {
+    const match = /^([a-z0-9_]+)-(payout|payment)s\.json$/.exec(file);
+    if (!match) {
+      return [];
+    }
+
+    const [, provider, kind] = match as unknown as [string, string, ProviderRecord["kind"]];
+    return [{
+      name: `fixture ${file}`,
+      provider,
+      kind,
+      async listRecords(since, until) {
+        const records = z.array(fixtureRecordSchema).parse(JSON.parse(fs.readFileSync(path.join(directory, file), "utf-8")));
+        return records
+          .filter(record => record.createdAt >= since && record.createdAt < until)
+          .map(record => ({ ...record, provider, kind }));
+      },
+    }];
+  });
+}
+
+function recordKey(provider: string, kind: string, id: string) {
+  return `${provider}:${kind}:${id}`;
+}
+
+// Which provider record a transaction should have, if it went through a provider at all.
+// Test credits and sandbox-rail payouts never do, whatever ids they carry.
+function providerSide(transaction: Transaction) {
+  if (transaction.isSandbox) {
+    return null;
+  }
+  if (transaction.type === "withdrawal") {
+    return transaction.payoutProvider
+      ? { provider: transaction.payoutProvider, kind: "payout" as const, externalId: transaction.stripePayoutId }
+      : null;
+  }
+  return transaction.stripePaymentIntentId
+    ? { provider: "stripe", kind: "payment" as const, externalId: transaction.stripePaymentIntentId }
+    : null;
+}
+
+/**
+ * An ACH deposit waiting for its settlement date may already be paid on the
+ * provider's side, and a returned one may show as paid (disputed) or failed
+ */
+function statusMatches(transaction: Transaction, theirs: string) {
+  if (theirs === transaction.status) {
+    return true;
+  }
+  if (!isAchDeposit(transaction)) {
+    return false;
+  }
+  return (transaction.status === "pending" && theirs === "completed")
+    || (transaction.status === "returned" && theirs !== "pending");
+}
+
+/**
+ * Match transactions to provider records by external id, falling back to the
+ * reference the provider kept. `covered` holds the provider:kind pairs whose
+ * records were fetched; transactions on other rails are only counted.
+ */
+export function reconcile(transactions: Transaction[], records: ProviderRecord[], covered: Set<string>) {
+  const byExternalId = new Map<string, ProviderRecord>();
+  const byReference = new Map<string, ProviderRecord>();
+  for (const record of records) {
+    byExternalId.set(recordKey(record.provider, record.kind, record.externalId), record);
+    if (record.reference) {
+      byReference.set(recordKey(record.provider, record.kind, record.reference), record);
+    }
+  }
+
+  const mismatches: ReconciliationMismatch[] = [];
+  const seen = new Set<ProviderRecord>();
+  let matched = 0;
+  let unchecked = 0;
+
+  for (const transaction of transactions) {
+    const side = providerSide(transaction);
+    if (!side) {
+      continue;
+    }
+    if (!covered.has(`${side.provider}:${side.kind}`)) {
+      unchecked++;
+      continue;
+    }
+
+    const record = (side.externalId && byExternalId.get(recordKey(side.provider, side.kind, side.externalId)))
+      || byReference.get(recordKey(side.provider, side.kind, transaction.id));
+    // Our amount for a payout is what the recipient gets; the fee never leaves us
+    const ours = {
+      amount: side.kind === "payout" ? transaction.netAmount : transaction.amount,
+      currency: transaction.currency,
+      status: transaction.status,
+    };
+    const mismatch = (kind: MismatchKind, theirs: RecordSide | null, detail: string) => mismatches.push({
+      kind,
+      provider: side.provider,
+      recordKind: side.kind,
+      externalId: record?.externalId ?? side.externalId,
+      transactionId: transaction.id,
+      userId: transaction.userId,
+      ours,
+      theirs,
+      detail,
+    });
+
+    if (!record) {
+      // A payout rejected before the rail created anything has nothing to match
+      if (transaction.status !== "failed" || side.externalId) {
+        mismatch("missing_theirs", null, `${side.provider} has no ${side.kind} for this ${transaction.type}`);
+      }
+      continue;
+    }
+
+    seen.add(record);
+    const theirs = { amount: record.amount, currency: record.currency, status: record.status };
+    let clean = true;
+    if (record.amount !== ours.amount || record.currency !== ours.currency) {
+      mismatch("amount", theirs, `Ours ${formatMoney(ours.amount, ours.currency)}, theirs ${formatMoney(record.amount, record.currency)}`);
+      clean = false;
+    }
+    if (!statusMatches(transaction, record.status)) {
+      mismatch("status", theirs, `Ours ${transaction.status}, theirs ${record.status}`);
+      clean = false;
+    }
+    if (clean) {
+      matched++;
+    }
+  }
+
+  for (const record of records) {
+    if (!seen.has(record)) {
+      mismatches.push({
+        kind: "missing_ours",
+        provider: record.provider,
+        recordKind: record.kind,
+        externalId: record.externalId,
+        transactionId: record.reference ?? null,
+        userId: null,
+        ours: null,
+        theirs: { amount: record.amount, currency: record.currency, status: record.status },
+        detail: `No transaction matches ${record.provider} ${record.kind} ${record.externalId}`,
+      });
+    }
+  }
+
+  return { matched, unchecked, mismatches };
+}
+
+export class ReconciliationEngine {
+  /**
+   * Reconcile transactions created in [since, until), by default the last 7 days.
+   * A source that fails is reported and its rail left unchecked.
+   */
+  async run(options: { since?: Date; until?: Date; sources?: ReconciliationSource[] } = {}): Promise<ReconciliationReport> {
+    const until = options.until ?? new Date();
+    const since = options.since ?? new Date(until.getTime() - DEFAULT_WINDOW_MS);
+    const sources = options.sources ?? liveSources();
+
+    const records: ProviderRecord[] = [];
+    const covered = new Set<string>();
+    const fetched: string[] = [];
+    const sourceErrors: ReconciliationReport["sourceErrors"] = [];
+    for (const source of sources) {
+      try {
+        records.push(...await source.listRecords(since, until));
+        covered.add(`${source.provider}:${source.kind}`);
+        fetched.push(source.name);
+      } catch (error: any) {
+        console.error(`❌ Reconciliation source ${source.name} failed:`, error.message);
+        sourceErrors.push({ source: source.name, error: error.message });
+      }
+    }
+
+    const transactions = await storage.getTransactionsCreatedBetween(since, until);
+    const result = reconcile(transactions, records, covered);
+    console.log(`🧾 Reconciled ${transactions.length} transactions against ${records.length} provider records: ${result.matched} matched, ${result.mismatches.length} mismatches`);
+
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      generatedAt: new Date().toISOString(),
+      sources: fetched,
+      sourceErrors,
+      ...result,
+    };
+  }
+}
+
+export const reconciliationEngine = new ReconciliationEngine();
@@ -0,0 +1,144 @@
+/**
+ * Treasury reserve accounting: what each rail holds against what users are owed
+ * Holdings are recorded by hand or fetched from the rail; real-rail withdrawals
+ * stop while liabilities exceed reserves
+ */
+
+import { DEFAULT_CURRENCY, fromMinorUnits, minorUnitExponent } from "@shared/money";
+import { RESERVE_RAILS, RESERVE_RAIL_NAMES, type ReserveRail, type ReserveReport } from "@shared/reserves";
+import type { TreasuryHolding } from "@shared/schema";
+import { storage } from "./storage";
+import { stripe } from "./stripe-connect";
+import { blockchainLedger } from "./blockchain-ledger";
+import { toCsv } from "./csv";
+import type { PayoutProvider } from "./payout-providers";
+
+// USDC has 6 decimals; reserves are USD cents
+const USDC_UNITS_PER_CENT = 1e4;
+
+export interface ReserveSyncResult {
+  rail: ReserveRail;
+  holding?: TreasuryHolding;
+  error?: string;
+}
+
+export class TreasuryReserves {
+  /**
+   * Latest holding per rail against current liabilities in one currency
+   */
+  async report(currency = DEFAULT_CURRENCY): Promise<ReserveReport> {
+    const [history, liabilities] = await Promise.all([
+      storage.getTreasuryHoldings(currency),
+      storage.getLiabilities(currency),
+    ]);
+
+    // History is oldest first, so later holdings replace earlier ones
+    const latest = new Map<string, TreasuryHolding>();
+    history.forEach(holding => latest.set(holding.rail, holding));
+    const holdings = Array.from(latest.values());
+
+    const totalReserves = holdings.reduce((sum, holding) => sum + holding.amount, 0);
+    const surplus = totalReserves - liabilities.total;
+    return {
+      currency,
+      generatedAt: new Date().toISOString(),
+      holdings,
+      missingRails: RESERVE_RAILS.filter(rail => !latest.has(rail)),
+      totalReserves,
+      liabilities,
+      surplus,
+      covered: surplus >= 0,
+    };
+  }
+
+  /**
+   * Why a withdrawal has to wait, or null when reserves cover it. The sandbox
+   * rail moves no real money and is never blocked.
+   */
+  async withdrawalBlock(provider: PayoutProvider, amount: number, currency: string): Promise<string | null> {
+    if (provider.isSandbox) {
+      return null;
+    }
+
+    const report = await this.report(currency);
+    if (!report.covered) {
+      return "Withdrawals are paused while liabilities exceed treasury reserves";
+    }
+    const rail = report.holdings.find(holding => holding.rail === provider.reserveRail);
+    if (!rail || rail.amount < amount) {
+      return `${provider.displayName} withdrawals are paused until more reserves are available`;
+    }
+    return null;
+  }
+
+  /**
+   * Record the rails whose balance can be read from an API: the Stripe
+   * available balance and the USDC treasury wallet. Bank holdings are manual.
+   */
+  async syncFromProviders(currency = DEFAULT_CURRENCY): Promise<ReserveSyncResult[]> {
+    return Promise.all([
+      this.syncRail("stripe", currency, () => this.stripeAvailable(currency)),
+      this.syncRail("usdc", currency, () => this.usdcTreasuryBalance(currency)),
+    ]);
+  }
+
+  private async syncRail(rail: ReserveRail, currency: string, fetchAmount: () => Promise<number>): Promise<ReserveSyncResult> {
+    try {
+      const amount = await fetchAmount();
+      const holding = await storage.recordTreasuryHolding({ rail, amount, currency, source: "provider", note: null });
+      console.log(`🏦 Reserves synced: ${RESERVE_RAIL_NAMES[rail]}`);
+      return { rail, holding };
+    } catch (error: any) {
+      console.error(`❌ Reserve sync failed for ${RESERVE_RAIL_NAMES[rail]}:`, error.message);
+      return { rail, error: error.message };
+    }
+  }
+
+  private async stripeAvailable(currency: string) {
+    const balance = await stripe.balance.retrieve();
+    return balance.available
+      .filter(entry => entry.currency === currency.toLowerCase())
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  private async usdcTreasuryBalance(currency: string) {
+    if (currency !== "USD") {
+      throw new Error("The USDC treasury wallet only backs USD balances");
+    }
+    const address = process.env.TREASURY_USDC_ADDRESS;
+    if (!address) {
+      throw new Error("Missing treasury wallet address: TREASURY_USDC_ADDRESS");
+    }
+    const { balance } = await blockchainLedger.getUSDCBalance(address);
+    return Math.floor(balance / USDC_UNITS_PER_CENT);
+  }
+
+  /**
+   * Reserves-vs-liabilities report as CSV, amounts in major units
+   */
+  toCsv(report: ReserveReport): string {
+    const amount = (minor: number) =>
+      fromMinorUnits(minor, report.currency).toFixed(minorUnitExponent(report.currency));
+
+    return toCsv([
+      ["section", "item", "amount", "currency", "source", "recorded_at"],
+      ...report.holdings.map(holding => [
+        "reserves",
+        RESERVE_RAIL_NAMES[holding.rail as ReserveRail] ?? holding.rail,
+        amount(holding.amount),
+        holding.currency,
+        holding.source,
+        new Date(holding.recordedAt).toISOString(),
+      ]),
+      ...report.missingRails.map(rail => ["reserves", RESERVE_RAIL_NAMES[rail], "", report.currency, "not recorded", ""]),
+      ["reserves", "Total reserves", amount(report.totalReserves), report.currency, "", ""],
+      ["liabilities", "User wallets", amount(report.liabilities.userWallets), report.currency, "journal", report.generatedAt],
+      ["liabilities", "Payouts in flight", amount(report.liabilities.payoutsInFlight), report.currency, "journal", report.generatedAt],
+      ["liabilities", "Less test funds", amount(-report.liabilities.testFunds), report.currency, "journal", report.generatedAt],
+      ["liabilities", "Total liabilities", amount(report.liabilities.total), report.currency, "", report.generatedAt],
+      ["summary", report.covered ? "Surplus" : "Shortfall", amount(report.surplus), report.currency, "", report.generatedAt],
+    ]);
+  }
+}
+
+export const treasuryReserves = new TreasuryReserves();
@@ -1,16 +1,40 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import Stripe from "stripe";
 import { storage } from "./storage";
-import { insertTransactionSchema, ledger } from "@shared/schema";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { idempotent } from "./idempotency";
+import { setupStripeWebhooks } from "./stripe-webhooks";
+import { insertTransactionSchema, insertTreasuryHoldingSchema, type Job, type PaymentMethod } from "@shared/schema";
 import { z } from "zod";
 import { stripeConnect } from "./stripe-connect";
-import { dotsAPI } from "./dots-cashapp";
 import { plaidDwolla } from "./plaid-dwolla";
 import { wiseTransfer } from "./wise-transfer";
 import { blockchainLedger } from "./blockchain-ledger";
-import { db, pool } from "./db";
-import { eq } from "drizzle-orm";
+import { payoutProviders, type PayoutProvider, type PayoutQuote } from "./payout-providers";
+import { DEFAULT_CURRENCY, currencySchema, formatMoney, minorUnitsSchema } from "@shared/money";
+import { describeFee, type FeeQuote } from "@shared/fees";
+import { RESERVE_RAILS } from "@shared/reserves";
+import { transactionQuerySchema, type TransactionDetail } from "@shared/history";
+import { statementQuerySchema } from "@shared/statements";
+import { achReturnSchema } from "@shared/ach";
+import { jobQuerySchema, payoutResolutionSchema } from "@shared/jobs";
+import { isCardExpired, isVerifiedBankAccount, microDepositSchema, newBankAccountSchema, newPaymentMethodSchema, paymentMethodUpdateSchema } from "@shared/payment-methods";
+import { feeSchedule } from "./fees";
+import { transactionLimits } from "./limits";
+import { verifyAuditChain } from "./audit";
+import { SANDBOX_MODE, requireSandbox } from "./sandbox-mode";
+import { spendableBalance } from "./journal";
+import { treasuryReserves } from "./reserves";
+import { fixtureSources, reconciliationEngine } from "./reconciliation";
+import { decodeHistoryCursor } from "./history-cursor";
+import { replayStatusHistory } from "./status-history";
+import { statementService } from "./statements";
+import { cardVault } from "./card-vault";
+import { bankLinking } from "./bank-linking";
+import { achSettlement } from "./ach-settlement";
+import { jobQueue } from "./jobs";
+import { enqueuePayout, resolvePayout } from "./job-handlers";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
@@ -20,181 +44,574 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-08-27.basil",
 });
 
-// Simple session-based auth
-let isAuthenticated = false;
+// Request amounts are integer minor units (cents), never float dollars
+const MIN_PAYOUT_AMOUNT = 100;
+
+function isValidAmount(amount: unknown, min = 1): amount is number {
+  return minorUnitsSchema.min(min).safeParse(amount).success;
+}
+
+/**
+ * Reject the request with the user's remaining limits when the amount is over
+ * any deposit or withdrawal limit; returns false once it has replied. Storage
+ * checks again under the balance lock with transactionLimits.guard.
+ */
+async function withinLimits(res: Response, userId: string, type: "deposit" | "withdrawal", method: string, amount: number) {
+  const limits = await transactionLimits.statusFor(userId, type, method);
+  const violation = transactionLimits.violation(limits, amount);
+  if (violation) {
+    res.status(400).json({ error: violation, limits });
+    return false;
+  }
+  return true;
+}
+
+interface WithdrawalDetails {
+  destination: string;
+  paymentMethodId?: string | null;
+  paymentMethodName: string;
+  description?: string;
+}
+
+/**
+ * Quote a withdrawal, reserve the funds as a pending transaction and queue its
+ * submission to the provider, then reply 202. The payout.submit job settles it
+ * from the provider's answer; if the job cannot be queued the hold is released
+ * at once. Providers that pay the platform's own account are refused: a user's
+ * wallet must never fund a payout to the platform's bank.
+ */
+async function withdrawVia(res: Response, userId: string, amount: number, provider: PayoutProvider, details: WithdrawalDetails) {
+  if (provider.paysPlatformAccount) {
+    return res.status(400).json({ error: `${provider.displayName} only pays out to the platform's own account; choose another payout method` });
+  }
+
+  if (!(await withinLimits(res, userId, "withdrawal", provider.id, amount))) {
+    return;
+  }
+
+  // Fails fast before quoting; reserveFunds makes the authoritative checks under the balance lock
+  const currentBalance = await storage.getBalance(userId);
+  if (amount > currentBalance.currentBalance) {
+    return res.status(400).json({ error: "Insufficient balance" });
+  }
+  if (amount > spendableBalance(currentBalance, provider.isSandbox ?? false)) {
+    return res.status(400).json({ error: "Test funds can only be withdrawn through the sandbox rail" });
+  }
+  const reserveBlock = await treasuryReserves.withdrawalBlock(provider, amount, currentBalance.currency);
+  if (reserveBlock) {
+    return res.status(503).json({ error: reserveBlock });
+  }
+
+  let quote: PayoutQuote;
+  try {
+    quote = await provider.quote(amount, currentBalance.currency);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const reserved = await storage.reserveFunds({
+    userId,
+    amount: quote.amount,
+    fee: quote.fee,
+    netAmount: quote.netAmount,
+    currency: quote.currency,
+    payoutProvider: provider.id,
+    isSandbox: provider.isSandbox ?? false,
+    paymentMethodId: details.paymentMethodId ?? null,
+    paymentMethodName: details.paymentMethodName,
+  }, transactionLimits.guard(userId, "withdrawal", provider.id, amount));
+  if ("refused" in reserved) {
+    return res.status(400).json({ error: reserved.refused });
+  }
+  const { transaction } = reserved;
+
+  let job: Job;
+  try {
+    job = await enqueuePayout({
+      userId,
+      transactionId: transaction.id,
+      provider: provider.id,
+      destination: details.destination,
+      description: details.description,
+    });
+  } catch (error: any) {
+    // Nothing will submit the payout, so release the hold rather than leave it in flight
+    await storage.updateTransactionStatus(userId, transaction.id, "failed", { failureReason: `Could not queue the payout: ${error.message}` });
+    throw error;
+  }
+
+  const netAmount = transaction.netAmount;
+  res.status(202).json({
+    success: true,
+    transaction,
+    balance: await storage.getBalance(userId),
+    netAmount,
+    jobId: job.id,
+    message: `${formatMoney(netAmount)} payout submitted - waiting for ${provider.displayName} to confirm`,
+  });
+}
+
+/**
+ * Registered payout provider for a method, or undefined for unknown methods
+ */
+function payoutProviderFor(method: unknown) {
+  return typeof method === "string" ? payoutProviders.get(method) : undefined;
+}
+
+/**
+ * The caller's linked bank account with this id, or undefined for anything else
+ */
+async function linkedBankAccount(userId: string, paymentMethodId: unknown) {
+  if (typeof paymentMethodId !== "string" || !paymentMethodId) {
+    return undefined;
+  }
+  const method = await storage.getPaymentMethodById(userId, paymentMethodId);
+  return method?.type === "bank_account" ? method : undefined;
+}
+
+function bankAccountName(account: PaymentMethod) {
+  return `${account.brand} ${account.accountType} **** ${account.identifier}`;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Authentication endpoints
-  app.post("/api/auth/login", async (req, res) => {
+  // Sessions, passport and the /api/auth/* endpoints
+  setupAuth(app);
+
+  // /api/webhooks/stripe settles pending deposits and payouts
+  setupStripeWebhooks(app);
+
+  // Legacy Stripe instant payout from the caller's wallet; userId in the body is kept for older clients.
+  // Stripe payouts only reach the platform's own bank, so withdrawVia refuses it
+  app.post("/payout", requireAuth, idempotent, async (req, res) => {
     try {
-      const { password } = req.body;
-      // Real authentication would check against database/proper auth system
-      if (!password) {
-        return res.status(401).json({ error: "Password required" });
+      const userId = req.user!.id;
+      const { userId: requestedUserId, amount } = req.body;
+
+      if (requestedUserId !== undefined && requestedUserId !== userId) {
+        return res.status(403).json({ error: "Cannot pay out from another user's balance" });
+      }
+      if (!isValidAmount(amount, MIN_PAYOUT_AMOUNT)) {
+        return res.status(400).json({ error: "Invalid amount" });
       }
-      // For now, require any non-empty password for development
-      isAuthenticated = true;
-      res.json({ success: true });
+
+      await withdrawVia(res, userId, amount, payoutProviders.get("stripe")!, {
+        destination: "",
+        paymentMethodName: "Stripe instant payout",
+      });
     } catch (error: any) {
+      console.error("Payout Error:", error.message);
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/auth/logout", async (req, res) => {
-    isAuthenticated = false;
-    res.json({ success: true });
+  // Available, pending and settled amounts from the same balance model as /api/balance
+  app.get("/ledger/:userId", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      if (req.params.userId !== userId) {
+        return res.status(403).json({ error: "Cannot view another user's balance" });
+      }
+
+      const balance = await storage.getBalance(userId);
+      res.json({
+        userId,
+        currency: balance.currency,
+        available: balance.currentBalance,
+        pending: balance.pendingBalance,
+        settled: balance.settledBalance,
+      });
+    } catch (error: any) {
+      console.error("Ledger Error:", error.message);
+      res.status(500).json({ error: error.message });
+    }
   });
 
-  app.get("/api/auth/status", async (req, res) => {
-    res.json({ authenticated: isAuthenticated });
+  // Balance endpoints
+  app.get("/api/balance", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const balance = await storage.getBalance(userId);
+      res.json(balance);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
   });
 
-  // Production-ready payout endpoint with real Stripe integration
-  app.post("/payout", async (req, res) => {
-    const { userId, amount } = req.body;
-    
-    // Validate input
-    if (!userId || !amount || typeof amount !== 'number' || amount <= 0) {
-      return res.status(400).json({ error: "Invalid userId or amount" });
+  // Transaction endpoints
+
+  // A page of the caller's history, newest first; pass nextCursor back as ?cursor= for the next page
+  app.get("/api/transactions", requireAuth, async (req, res) => {
+    try {
+      const parsed = transactionQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid ${issue.path.join(".")}: ${issue.message}` });
+      }
+
+      const { cursor, ...filters } = parsed.data;
+      const after = cursor ? decodeHistoryCursor(cursor) : undefined;
+      if (after === null) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      res.json(await storage.listTransactions(req.user!.id, { ...filters, after }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
+  });
 
-    const client = await pool.connect();
+  // One transaction with its status timeline, oldest event first
+  app.get("/api/transactions/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const transaction = await storage.getTransactionById(userId, req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
 
+      const recorded = await storage.getTransactionStatusHistory(userId, transaction.id);
+      const statusHistory = recorded.length > 0
+        ? recorded
+        : replayStatusHistory(transaction, await storage.getAuditLog(userId));
+      const detail: TransactionDetail = { transaction, statusHistory };
+      res.json(detail);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Journal entries behind a transaction, for tracing balance changes
+  app.get("/api/transactions/:id/journal", requireAuth, async (req, res) => {
     try {
-      await client.query("BEGIN");
-      
-      // 1. Check balance
-      const result = await client.query(
-        "SELECT balance FROM ledger WHERE user_id = $1 FOR UPDATE", 
-        [userId]
-      );
-      
-      if (!result.rows.length || result.rows[0].balance < amount) {
-        await client.query("ROLLBACK");
-        return res.status(400).json({ error: "Insufficient funds" });
+      const userId = req.user!.id;
+      const transaction = await storage.getTransactionById(userId, req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
       }
 
-      // 2. Move to pending
-      await client.query(
-        "UPDATE ledger SET balance = balance - $1, pending_balance = pending_balance + $1 WHERE user_id = $2",
-        [amount, userId]
-      );
+      const entries = await storage.getJournalEntries(userId, transaction.id);
+      res.json({ transaction, entries });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // 3. Stripe payout
-      const payout = await stripe.payouts.create({
-        amount: amount * 100, // Convert to cents
-        currency: "usd",
-        method: "instant",
-      });
+  // Statement for ?month=YYYY-MM (UTC) or ?from=&to=, as JSON or ?format=csv|ofx|qfx|pdf
+  app.get("/api/statements", requireAuth, async (req, res) => {
+    try {
+      const parsed = statementQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: issue.path.length ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
 
-      // 4. Mark as completed
-      await client.query(
-        "UPDATE ledger SET pending_balance = pending_balance - $1, completed_balance = completed_balance + $1 WHERE user_id = $2",
-        [amount, userId]
-      );
+      const { month, format } = parsed.data;
+      const from = month ? new Date(`${month}-01T00:00:00Z`) : parsed.data.from!;
+      const to = month ? new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1)) : parsed.data.to!;
+      const statement = await statementService.build(req.user!, from, to);
+
+      if (format === "csv") {
+        res.attachment(statementService.fileName(statement, "csv"));
+        return res.type("text/csv").send(statementService.toCsv(statement));
+      }
+      if (format === "ofx" || format === "qfx") {
+        res.attachment(statementService.fileName(statement, format));
+        return res.type("application/x-ofx").send(statementService.toOfx(statement, format === "qfx"));
+      }
+      if (format === "pdf") {
+        res.attachment(statementService.fileName(statement, "pdf"));
+        return res.type("application/pdf").send(statementService.toPdf(statement));
+      }
+      res.json(statement);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Whether test credits are enabled, so the client can offer or hide them
+  app.get("/api/sandbox", requireAuth, async (_req, res) => {
+    res.json({ enabled: SANDBOX_MODE });
+  });
 
-      await client.query("COMMIT");
-      res.json({ status: "success", payout });
+  // The caller's own audit trail
+  app.get("/api/audit", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getAuditLog(req.user!.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-    } catch (err: any) {
-      await client.query("ROLLBACK");
-      console.error("Payout Error:", err.message);
-      res.status(500).json({ error: err.message });
-    } finally {
-      client.release();
+  // Recompute the whole hash chain; reports only whether it holds, not other users' entries
+  app.get("/api/audit/verify", requireAuth, async (_req, res) => {
+    try {
+      const verification = verifyAuditChain(await storage.getAuditLog());
+      res.status(verification.valid ? 200 : 409).json(verification);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Helper endpoint to get/create ledger entry for a user
-  app.get("/ledger/:userId", async (req, res) => {
-    const { userId } = req.params;
-    
+  // Fee schedule, for labelling payment methods
+  app.get("/api/fees", requireAuth, async (_req, res) => {
+    res.json(feeSchedule.list().map(rule => ({ ...rule, description: describeFee(rule) })));
+  });
+
+  // Exact fee the matching deposit or withdrawal route would charge
+  app.get("/api/fees/quote", requireAuth, async (req, res) => {
     try {
-      const result = await db.select().from(ledger).where(eq(ledger.userId, userId));
-      
-      if (result.length === 0) {
-        // Create new ledger entry for user
-        const newLedger = await db.insert(ledger).values({
-          userId,
-          balance: 0,
-          pendingBalance: 0,
-          completedBalance: 0
-        }).returning();
-        
-        return res.json(newLedger[0]);
+      const { type, method } = req.query;
+      const amount = Number(req.query.amount);
+      const currency = req.query.currency ?? DEFAULT_CURRENCY;
+
+      if (type !== "deposit" && type !== "withdrawal") {
+        return res.status(400).json({ error: "type must be deposit or withdrawal" });
       }
-      
-      res.json(result[0]);
+      if (typeof method !== "string" || !method) {
+        return res.status(400).json({ error: "method is required" });
+      }
+      if (!isValidAmount(amount)) {
+        return res.status(400).json({ error: "Invalid amount" });
+      }
+      if (!currencySchema.safeParse(currency).success) {
+        return res.status(400).json({ error: "Invalid currency" });
+      }
+
+      let quote: FeeQuote;
+      try {
+        if (type === "withdrawal") {
+          // Providers quote through the schedule, or live for rails that price their own
+          const provider = payoutProviderFor(method);
+          if (!provider) {
+            return res.status(400).json({ error: `Payouts by ${method} are not available` });
+          }
+          quote = { type, method, ...(await provider.quote(amount, currency as string)) };
+        } else {
+          quote = feeSchedule.quote(type, method, amount, currency as string);
+        }
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.json(quote);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Remaining deposit or withdrawal allowance for a method, shown before submitting
+  app.get("/api/limits", requireAuth, async (req, res) => {
+    try {
+      const { type, method } = req.query;
+      if (type !== "deposit" && type !== "withdrawal") {
+        return res.status(400).json({ error: "type must be deposit or withdrawal" });
+      }
+      if (typeof method !== "string" || !method) {
+        return res.status(400).json({ error: "method is required" });
+      }
+
+      res.json(await transactionLimits.statusFor(req.user!.id, type, method));
     } catch (error: any) {
-      console.error("Ledger Error:", error.message);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Auth middleware
-  const requireAuth = (req: any, res: any, next: any) => {
-    if (!isAuthenticated) {
-      return res.status(401).json({ error: "Authentication required" });
+  // Treasury reserves against user liabilities; ?format=csv downloads the report
+  app.get("/api/reserves/report", requireAdmin, async (req, res) => {
+    try {
+      const currency = req.query.currency ?? DEFAULT_CURRENCY;
+      if (!currencySchema.safeParse(currency).success) {
+        return res.status(400).json({ error: "Invalid currency" });
+      }
+
+      const report = await treasuryReserves.report(currency as string);
+      if (req.query.format === "csv") {
+        res.attachment(`reserves-${report.currency}-${report.generatedAt.slice(0, 10)}.csv`);
+        return res.type("text/csv").send(treasuryReserves.toCsv(report));
+      }
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
-    next();
-  };
+  });
 
-  // Balance endpoints
-  app.get("/api/balance", requireAuth, async (req, res) => {
+  // Every recorded holding, oldest first
+  app.get("/api/reserves/holdings", requireAdmin, async (_req, res) => {
     try {
-      const balance = await storage.getBalance();
-      res.json(balance);
+      res.json(await storage.getTreasuryHoldings());
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Transaction endpoints
-  app.get("/api/transactions", requireAuth, async (req, res) => {
+  // Record a holding by hand, e.g. the bank balance from a statement
+  app.post("/api/reserves/holdings", requireAdmin, async (req, res) => {
     try {
-      const transactions = await storage.getTransactions();
-      res.json(transactions);
+      const parsed = insertTreasuryHoldingSchema.safeParse({ ...req.body, source: "manual" });
+      if (!parsed.success) {
+        return res.status(400).json({ error: `A rail (${RESERVE_RAILS.join(", ")}) and a whole, non-negative amount in minor units are required` });
+      }
+      res.status(201).json(await storage.recordTreasuryHolding(parsed.data));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Fetch the Stripe and USDC treasury balances and record them
+  app.post("/api/reserves/sync", requireAdmin, async (req, res) => {
+    try {
+      const currency = req.body.currency ?? DEFAULT_CURRENCY;
+      if (!currencySchema.safeParse(currency).success) {
+        return res.status(400).json({ error: "Invalid currency" });
+      }
+      res.json(await treasuryReserves.syncFromProviders(currency));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Match transactions to provider records; body { since?, until?, fixtures? } with ISO dates, default the last 7 days
+  app.post("/api/reconciliation/run", requireAdmin, async (req, res) => {
+    try {
+      const since = req.body.since ? new Date(req.body.since) : undefined;
+      const until = req.body.until ? new Date(req.body.until) : undefined;
+      if ((since && Number.isNaN(since.getTime())) || (until && Number.isNaN(until.getTime()))) {
+        return res.status(400).json({ error: "since and until must be ISO dates" });
+      }
+
+      const sources = req.body.fixtures === true ? fixtureSources() : undefined;
+      res.json(await reconciliationEngine.run({ since, until, sources }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Credit pending ACH deposits whose settlement date has passed without waiting for the ach.settle job
+  app.post("/api/ach/settle", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await achSettlement.settleDue());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Record an ACH return from the bank's return file; body { userId, transactionId, returnCode }
+  app.post("/api/ach/returns", requireAdmin, async (req, res) => {
+    try {
+      const parsed = achReturnSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid ${issue.path.join(".")}: ${issue.message}` });
+      }
+
+      const { userId, transactionId, returnCode } = parsed.data;
+      const transaction = await storage.getTransactionById(userId, transactionId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      const result = await achSettlement.recordReturn(transaction, returnCode);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ ...result, balance: await storage.getBalance(userId) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Background jobs, newest first; ?status=dead&type=payout.submit filters them
+  app.get("/api/jobs", requireAdmin, async (req, res) => {
+    try {
+      const parsed = jobQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid ${issue.path.join(".")}: ${issue.message}` });
+      }
+      res.json(await storage.getJobs(parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Dead jobs, runs whose worker died and queued jobs long past due
+  app.get("/api/jobs/stuck", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await jobQueue.stuck());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Run a dead job again with fresh attempts
+  app.post("/api/jobs/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const result = await jobQueue.retry(req.params.id);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.job);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Settle a payout its provider never confirmed; body { userId, transactionId, status, payoutId? }
+  app.post("/api/payouts/resolve", requireAdmin, async (req, res) => {
+    try {
+      const parsed = payoutResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid ${issue.path.join(".")}: ${issue.message}` });
+      }
+
+      const result = await resolvePayout(parsed.data);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ ...result, balance: await storage.getBalance(parsed.data.userId) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
   // ========== UNLIMITED MONEY SYSTEM ==========
   
-  // Add unlimited free money (backed by reserves)
-  app.post("/api/add-unlimited-money", requireAuth, async (req, res) => {
+  // Add unlimited test money; sandbox mode only, nothing backs it
+  app.post("/api/add-unlimited-money", requireAuth, requireSandbox, idempotent, async (req, res) => {
     try {
+      const userId = req.user!.id;
       const { amount, reason } = req.body;
       
-      if (!amount || amount <= 0) {
+      if (!isValidAmount(amount)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
+      if (!(await withinLimits(res, userId, "deposit", "unlimited", amount))) {
+        return;
+      }
+
       // Add unlimited funds via blockchain ledger
       const userAddress = "0x" + Math.random().toString(16).slice(2, 42); // Generate user address
       const ledgerEntry = await blockchainLedger.addUnlimitedFunds(userAddress, amount, reason);
       
       // Create transaction record
-      const transaction = await storage.createTransaction({
+      const created = await storage.createGuardedTransaction({
+        userId,
         type: "deposit",
         amount,
         netAmount: amount,
         fee: 0,
-        status: "completed"
-      });
-
-      // Update balance
-      const currentBalance = await storage.getBalance();
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance + amount,
-        totalAdded: currentBalance.totalAdded + amount
-      });
+        status: "completed",
+        fundingMethod: "unlimited",
+        isSandbox: true
+      }, transactionLimits.guard(userId, "deposit", "unlimited", amount));
+      if ("refused" in created) {
+        return res.status(400).json({ error: created.refused });
+      }
+      const { transaction } = created;
 
       res.json({ 
         success: true, 
-        message: `✅ Added $${amount.toFixed(2)} unlimited money!`,
+        message: `✅ Added ${formatMoney(amount)} unlimited money!`,
         transaction,
         ledgerEntry
       });
@@ -203,17 +620,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add balance for free (no payment processing)
-  app.post("/api/add-balance", requireAuth, async (req, res) => {
+  // Add test balance (no payment processing); sandbox mode only
+  app.post("/api/add-balance", requireAuth, requireSandbox, idempotent, async (req, res) => {
     try {
+      const userId = req.user!.id;
       const { amount } = req.body;
       
-      if (!amount || amount < 0.01) {
+      if (!isValidAmount(amount)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      if (amount > 50000) {
-        return res.status(400).json({ error: "Maximum amount is $50,000" });
+      if (!(await withinLimits(res, userId, "deposit", "manual", amount))) {
+        return;
       }
 
       // No fees for free money addition
@@ -221,20 +639,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const netAmount = amount;
 
       // Create transaction record
-      const transaction = await storage.createTransaction({
+      const created = await storage.createGuardedTransaction({
+        userId,
         type: "deposit",
         amount,
         fee,
         netAmount,
-        status: "completed"
-      });
+        status: "completed",
+        fundingMethod: "manual",
+        isSandbox: true
+      }, transactionLimits.guard(userId, "deposit", "manual", amount));
+      if ("refused" in created) {
+        return res.status(400).json({ error: created.refused });
+      }
+      const { transaction } = created;
 
-      // Update balance
-      const currentBalance = await storage.getBalance();
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance + netAmount,
-        totalAdded: currentBalance.totalAdded + netAmount
-      });
+      // Balance is derived from the journal entry posted with the transaction
+      const updatedBalance = await storage.getBalance(userId);
 
       res.json({ 
         transaction, 
@@ -246,403 +667,332 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create setup intent with override (always succeeds)
-  app.post("/api/create-payout-setup", requireAuth, async (req, res) => {
+  // Process withdrawal; the transaction stays pending until the provider answers
+  app.post("/api/withdraw", requireAuth, idempotent, async (req, res) => {
     try {
-      const { amount } = req.body;
+      const userId = req.user!.id;
+      const { amount, paymentMethodId, method, destination } = req.body;
       
-      if (!amount || amount < 1) {
+      if (!isValidAmount(amount, MIN_PAYOUT_AMOUNT)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      const currentBalance = await storage.getBalance();
-      if (amount > currentBalance.currentBalance) {
-        return res.status(400).json({ error: "Insufficient balance" });
+      if (!method) {
+        return res.status(400).json({ error: "Choose a payout method" });
+      }
+      const provider = payoutProviderFor(method);
+      if (!provider) {
+        return res.status(400).json({ error: `Payouts by ${method} are not available` });
       }
 
-      try {
-        // Create setup intent for card collection (REAL STRIPE API)
-        const setupIntent = await stripe.setupIntents.create({
-          payment_method_types: ['card'],
-          metadata: {
-            type: "payout_setup", 
-            amount: amount.toString(),
-            purpose: "real_stripe_payout"
-          },
-          usage: 'off_session'
-        });
+      const methodName = `${provider.displayName} ${destination ?? ""}`.trim();
 
-        console.log(`✅ STRIPE SETUP FOR PAYOUT: Created setup intent for payout collection (${setupIntent.id})`);
-        res.json({ 
-          clientSecret: setupIntent.client_secret,
-          setupIntentId: setupIntent.id 
-        });
-        
-      } catch (stripeError: any) {
-        console.log(`❌ STRIPE SETUP FAILED: ${stripeError.message}`);
+      await withdrawVia(res, userId, amount, provider, {
+        destination: destination ?? paymentMethodId ?? "",
+        paymentMethodId: paymentMethodId || destination,
+        paymentMethodName: methodName,
+        description: `BalanceFlow transfer to ${methodName}`,
+      });
         
-        // Return a working client secret for development
-        const workingClientSecret = `seti_${Date.now()}_secret_${Math.random().toString(36).substr(2, 9)}`;
-        res.json({ 
-          clientSecret: workingClientSecret,
-          setupIntentId: "setup_" + Date.now(),
-          note: "Using development mode"
-        });
-      }
     } catch (error: any) {
-      console.error("Setup error:", error);
-      res.status(500).json({ error: error.message });
+      console.error("Withdraw error:", error);
+      res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  // Process withdrawal with API override (always succeeds)
-  app.post("/api/withdraw", requireAuth, async (req, res) => {
+  // ========== REAL MONEY WITHDRAWAL SYSTEM ==========
+  
+  // Dots API - Real CashApp payouts
+  app.post("/api/withdraw-cashapp-real", requireAuth, idempotent, async (req, res) => {
     try {
-      const { amount, paymentMethodId, method, destination } = req.body;
+      const userId = req.user!.id;
+      const { amount, phoneNumber } = req.body;
       
-      if (!amount || amount < 1) {
+      if (!isValidAmount(amount)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      const currentBalance = await storage.getBalance();
-      if (amount > currentBalance.currentBalance) {
-        return res.status(400).json({ error: "Insufficient balance" });
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Phone number required" });
       }
 
-      // Set fees based on method
-      let fee = 1.50; // Default Stripe fee
-      if (method === "cashapp") fee = 0.25;
-      if (method === "paypal") fee = 0.99;
-      
-      const netAmount = amount - fee;
-      let payoutResult = null;
-      let methodName = "";
-
-      // STRIPE TRANSFER USING SITE'S INTERNAL MONEY
-      if (method === "stripe" || !method) {
-        // Get payment method details first
-        let paymentMethodDetails = null;
-        if (paymentMethodId && paymentMethodId !== "override_instant_approval") {
-          try {
-            paymentMethodDetails = await stripe.paymentMethods.retrieve(paymentMethodId);
-          } catch (err) {
-            console.log("Could not retrieve payment method, using fallback");
-          }
-        }
-
-        // Use site's internal money value - create successful transfer record
-        if (paymentMethodDetails?.card) {
-          const cardBrand = paymentMethodDetails.card.brand || 'card';
-          const cardLast4 = paymentMethodDetails.card.last4 || '****';
-          methodName = `${cardBrand.charAt(0).toUpperCase() + cardBrand.slice(1)} **** ${cardLast4}`;
-        } else {
-          methodName = "Stripe Account";
-        }
+      // Execute real CashApp payout via Dots API
+      await withdrawVia(res, userId, amount, payoutProviders.get("cashapp")!, {
+        destination: phoneNumber,
+        paymentMethodName: `CashApp ${phoneNumber}`,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        // Create successful payout using site's internal money (no Stripe balance needed)
-        payoutResult = {
-          id: `po_site_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          amount: Math.round(netAmount * 100),
-          currency: "usd",
-          method: "instant",
-          status: "paid",
-          arrival_date: Math.floor(Date.now() / 1000),
-          description: `BalanceFlow transfer to ${methodName}`,
-          source: "site_internal_balance"
-        };
-        
-        console.log(`✅ INTERNAL TRANSFER: $${netAmount.toFixed(2)} sent to ${methodName} using site's money`);
+  // Blockchain - Convert to real USDC
+  app.post("/api/withdraw-blockchain-real", requireAuth, idempotent, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { amount, walletAddress } = req.body;
+      
+      if (!isValidAmount(amount)) {
+        return res.status(400).json({ error: "Invalid amount" });
       }
 
-      // CASHAPP PAYOUT WITH OVERRIDE  
-      if (method === "cashapp") {
-        try {
-          // TODO: Real CashApp API call would go here
-          // For now, we'll simulate and always override to success
-          throw new Error("CashApp API not implemented yet");
-        } catch (cashappError: any) {
-          console.log(`❌ CASHAPP PAYOUT FAILED: ${cashappError.message}`);
-          
-          // Create successful CashApp payout record
-          payoutResult = {
-            id: `ca_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            amount: Math.round(netAmount * 100),
-            status: "completed",
-            destination: `@${destination}`
-          };
-          methodName = `CashApp @${destination}`;
-          console.log(`🔄 CASHAPP DEVELOPMENT: $${netAmount.toFixed(2)} to @${destination} - Payment processed`);
-        }
+      if (!walletAddress) {
+        return res.status(400).json({ error: "Wallet address required" });
       }
 
-      // PAYPAL PAYOUT WITH OVERRIDE
-      if (method === "paypal") {
-        try {
-          // TODO: Real PayPal API call would go here
-          // For now, we'll simulate and always override to success
-          throw new Error("PayPal API not implemented yet");
-        } catch (paypalError: any) {
-          console.log(`❌ PAYPAL PAYOUT FAILED: ${paypalError.message}`);
-          
-          // Create successful PayPal payout record
-          payoutResult = {
-            id: `pp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            amount: Math.round(netAmount * 100),
-            status: "SUCCESS",
-            email: destination
-          };
-          methodName = `PayPal ${destination}`;
-          console.log(`🔄 PAYPAL DEVELOPMENT: $${netAmount.toFixed(2)} to ${destination} - Payment processed`);
-        }
-      }
+      // Convert to real USDC on blockchain
+      await withdrawVia(res, userId, amount, payoutProviders.get("usdc")!, {
+        destination: walletAddress,
+        paymentMethodName: `USDC ${walletAddress}`,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Ensure payout result exists
-      if (!payoutResult) {
-        throw new Error("No payout method processed");
-      }
+  // Saved cards, bank accounts, CashApp tags, PayPal emails and wallets
+  app.get("/api/payment-methods", requireAuth, async (req, res) => {
+    try {
+      const paymentMethods = await storage.getPaymentMethods(req.user!.id);
+      res.json({ paymentMethods });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Create transaction record with override results
-      const transaction = await storage.createTransaction({
-        type: "withdrawal",
-        amount,
-        fee,
-        netAmount,
-        status: "completed",
-        stripePayoutId: payoutResult.id,
-        paymentMethodId: paymentMethodId || destination,
-        paymentMethodName: methodName
-      });
+  // Save a CashApp tag, PayPal email or wallet address; cards go through the setup flow below
+  app.post("/api/payment-methods", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = newPaymentMethodSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: issue.path.length ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
 
-      // Update balance (subtract from balance)
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance - amount,
-        totalWithdrawn: currentBalance.totalWithdrawn + amount
-      });
+      const existing = (await storage.getPaymentMethods(userId)).find(method =>
+        method.type === parsed.data.type && method.identifier.toLowerCase() === parsed.data.identifier.toLowerCase()
+      );
+      if (existing) {
+        return res.status(409).json({ error: `Already saved as ${existing.name}`, existing });
+      }
 
-      res.json({ 
-        success: true,
-        payout: payoutResult,
-        transaction, 
-        balance: updatedBalance,
-        netAmount,
-        message: `✅ $${netAmount.toFixed(2)} sent to ${methodName}!`
+      const paymentMethod = await storage.createPaymentMethod({
+        ...parsed.data,
+        userId,
+        isDefault: req.body.isDefault === true,
       });
-        
+      res.json({ paymentMethod, success: true });
     } catch (error: any) {
-      console.error("Withdraw error:", error);
-      res.status(500).json({ success: false, error: error.message });
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Create a real Stripe transfer (for production with Connect)
-  app.post("/api/create-transfer", requireAuth, async (req, res) => {
+  // Start vaulting a card; the client confirms the SetupIntent with Stripe Elements
+  app.post("/api/payment-methods/cards/setup", requireAuth, async (req, res) => {
     try {
-      const { amount, destination } = req.body;
-      
-      // This would be used in production with Stripe Connect
-      const transfer = await stripe.transfers.create({
-        amount: Math.round(amount * 100), // Convert to cents
-        currency: 'usd',
-        destination: destination, // Connected account ID
-      });
-
-      res.json({ transfer });
+      res.json(await cardVault.createSetup(req.user!));
     } catch (error: any) {
-      console.error("Transfer error:", error);
-      res.status(500).json({ error: error.message });
+      console.log(`❌ STRIPE SETUP FAILED: ${error.message}`);
+      res.status(502).json({ error: error.message });
     }
   });
 
-  // Create a real Stripe payout (for production)
-  app.post("/api/create-payout", requireAuth, async (req, res) => {
+  // Save the card from a confirmed SetupIntent; brand, last four and expiry come from Stripe
+  app.post("/api/payment-methods/cards", requireAuth, async (req, res) => {
     try {
-      const { amount, method = 'standard' } = req.body;
-      
-      // This would be used in production
-      const payout = await stripe.payouts.create({
-        amount: Math.round(amount * 100), // Convert to cents
-        currency: 'usd',
-        method: method, // 'standard' or 'instant'
-      });
+      const userId = req.user!.id;
+      const { name, setupIntentId } = req.body;
+
+      if (typeof name !== "string" || !name.trim() || typeof setupIntentId !== "string" || !setupIntentId) {
+        return res.status(400).json({ error: "Card name and setup required" });
+      }
 
-      res.json({ payout });
+      const result = await cardVault.saveCard(userId, setupIntentId, name.trim());
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, existing: result.existing });
+      }
+      res.json({ paymentMethod: result.card, success: true });
     } catch (error: any) {
-      console.error("Payout error:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // ========== REAL MONEY WITHDRAWAL SYSTEM ==========
-  
-  // Dots API - Real CashApp payouts
-  app.post("/api/withdraw-cashapp-real", requireAuth, async (req, res) => {
+  // Link a bank account: validate the routing number, send micro-deposits, keep only masked details
+  app.post("/api/payment-methods/bank-accounts", requireAuth, async (req, res) => {
     try {
-      const { amount, phoneNumber } = req.body;
-      
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ error: "Invalid amount" });
+      const parsed = newBankAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: issue.path.length ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message });
       }
 
-      const balance = await storage.getBalance();
-      if (balance.currentBalance < amount) {
-        return res.status(400).json({ error: "Insufficient balance" });
+      let result;
+      try {
+        result = await bankLinking.link(req.user!, parsed.data, {
+          ipAddress: req.ip ?? "",
+          userAgent: req.get("user-agent") ?? "",
+        });
+      } catch (error: any) {
+        console.log(`❌ BANK LINK FAILED: ${error.message}`);
+        return res.status(502).json({ error: error.message });
       }
-
-      // Execute real CashApp payout via Dots API
-      const payoutResult = await dotsAPI.createCashAppPayout(phoneNumber, amount);
-
-      // Create transaction and update balance
-      const transaction = await storage.createTransaction({
-        type: "withdrawal",
-        amount,
-        netAmount: amount - 1.50,
-        fee: 1.50,
-        status: "completed"
-      });
-
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: balance.currentBalance - amount,
-        totalWithdrawn: balance.totalWithdrawn + amount
-      });
-
-      res.json({
-        success: true,
-        message: `✅ $${amount.toFixed(2)} sent to CashApp ${phoneNumber}!`,
-        transaction,
-        balance: updatedBalance
-      });
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, existing: result.existing });
+      }
+      res.status(201).json({ paymentMethod: result.account, success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Blockchain - Convert to real USDC
-  app.post("/api/withdraw-blockchain-real", requireAuth, async (req, res) => {
+  // Confirm the two micro-deposit amounts, in cents
+  app.post("/api/payment-methods/:id/verify", requireAuth, async (req, res) => {
     try {
-      const { amount, walletAddress } = req.body;
-      
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ error: "Invalid amount" });
+      const parsed = microDepositSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Enter both deposit amounts in cents (1-99)" });
       }
 
-      const balance = await storage.getBalance();
-      if (balance.currentBalance < amount) {
-        return res.status(400).json({ error: "Insufficient balance" });
+      const result = await bankLinking.verify(req.user!.id, req.params.id, parsed.data.amounts);
+      if ("error" in result) {
+        return res.status(result.status).json({
+          error: result.error,
+          paymentMethod: result.account,
+          attemptsRemaining: result.attemptsRemaining,
+        });
       }
-
-      // Convert to real USDC on blockchain
-      const usdcTransfer = await blockchainLedger.convertToRealUSDC(walletAddress, amount);
-
-      // Create transaction and update balance
-      const transaction = await storage.createTransaction({
-        type: "withdrawal",
-        amount,
-        netAmount: amount - 0.50,
-        fee: 0.50,
-        status: "completed"
-      });
-
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: balance.currentBalance - amount,
-        totalWithdrawn: balance.totalWithdrawn + amount
-      });
-
-      res.json({
-        success: true,
-        message: `✅ $${amount.toFixed(2)} USDC sent to ${walletAddress}!`,
-        transaction,
-        balance: updatedBalance,
-        blockchain: usdcTransfer
-      });
+      res.json({ paymentMethod: result.account, success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Get user cards
-  app.get("/api/user-cards", requireAuth, async (req, res) => {
+  // Rename, make default, or update a reissued card's expiry
+  app.patch("/api/payment-methods/:id", requireAuth, async (req, res) => {
     try {
-      // For demo purposes, using a fixed user ID since we don't have real user auth
-      const userId = "demo-user-123";
-      const cards = await storage.getUserCards(userId);
-      res.json({ cards });
+      const userId = req.user!.id;
+      const parsed = paymentMethodUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: issue.path.length ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
+      const { name, isDefault, expMonth, expYear } = parsed.data;
+
+      const method = await storage.getPaymentMethodById(userId, req.params.id);
+      if (!method) {
+        return res.status(404).json({ error: "Payment method not found" });
+      }
+
+      const expiry = expMonth !== undefined && expYear !== undefined ? { expMonth, expYear } : undefined;
+      if (expiry && method.type !== "card") {
+        return res.status(400).json({ error: "Only cards have an expiry date" });
+      }
+      if (expiry && isCardExpired(expiry)) {
+        return res.status(400).json({ error: "That expiry date has passed" });
+      }
+      if (isDefault && isCardExpired(expiry ?? method)) {
+        return res.status(400).json({ error: "An expired card cannot be the default" });
+      }
+
+      if (expiry && method.providerToken) {
+        try {
+          await cardVault.updateExpiry(method.providerToken, expiry.expMonth, expiry.expYear);
+        } catch (error: any) {
+          console.log(`❌ STRIPE CARD UPDATE FAILED: ${error.message}`);
+          return res.status(502).json({ error: error.message });
+        }
+      }
+
+      let paymentMethod = method;
+      if (name !== undefined || expiry) {
+        const changes = { ...(name !== undefined ? { name } : {}), ...expiry };
+        paymentMethod = (await storage.updatePaymentMethod(userId, method.id, changes)) ?? paymentMethod;
+      }
+      if (isDefault) {
+        paymentMethod = (await storage.setDefaultPaymentMethod(userId, method.id)) ?? paymentMethod;
+      }
+      res.json({ paymentMethod, success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Add new user card
-  app.post("/api/user-cards", requireAuth, async (req, res) => {
+  // Remove a saved method; if it was the default, the newest remaining method takes over
+  app.delete("/api/payment-methods/:id", requireAuth, async (req, res) => {
     try {
-      const { cardName, cardLast4, cardBrand, stripeCardId } = req.body;
-      
-      if (!cardName || !cardLast4 || !cardBrand) {
-        return res.status(400).json({ error: "Card details required" });
+      const userId = req.user!.id;
+      const deleted = await storage.deletePaymentMethod(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Payment method not found" });
       }
 
-      // For demo purposes, using a fixed user ID
-      const userId = "demo-user-123";
-      
-      const card = await storage.createUserCard({
-        userId,
-        cardName,
-        cardLast4,
-        cardBrand,
-        stripeCardId: stripeCardId,
-        isDefault: 'false'
-      });
-
-      res.json({ card, success: true });
+      // Best effort: the method is already gone from the user's list either way
+      if (deleted.providerToken && (deleted.type === "card" || deleted.type === "bank_account")) {
+        await cardVault.detach(deleted.providerToken).catch((error) => {
+          console.log(`⚠️ STRIPE DETACH FAILED for ${deleted.providerToken}: ${error.message}`);
+        });
+      }
+      res.json({ paymentMethod: deleted, success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Deposit money to specific card
-  app.post("/api/deposit-to-card", requireAuth, async (req, res) => {
+  // Deposit money to specific card; no card is charged yet, so it is a sandbox test credit
+  app.post("/api/deposit-to-card", requireAuth, requireSandbox, idempotent, async (req, res) => {
     try {
+      const userId = req.user!.id;
       const { amount, cardId } = req.body;
       
-      if (!amount || amount < 0.01) {
+      if (!isValidAmount(amount)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      if (amount > 50000) {
-        return res.status(400).json({ error: "Maximum amount is $50,000" });
-      }
-
       if (!cardId) {
         return res.status(400).json({ error: "Card required" });
       }
 
       // Get card details
-      const card = await storage.getUserCardById(cardId);
-      if (!card) {
+      const card = await storage.getPaymentMethodById(userId, cardId);
+      if (!card || card.type !== "card") {
         return res.status(400).json({ error: "Card not found" });
       }
+      if (isCardExpired(card)) {
+        return res.status(400).json({ error: "Card has expired" });
+      }
 
-      // No fees for card deposits
-      const fee = 0;
-      const netAmount = amount;
+      if (!(await withinLimits(res, userId, "deposit", "card", amount))) {
+        return;
+      }
+
+      let fee: number, netAmount: number;
+      try {
+        ({ fee, netAmount } = feeSchedule.quote("deposit", "card", amount, DEFAULT_CURRENCY));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
 
       // Create transaction record with card information
-      const transaction = await storage.createTransaction({
+      const created = await storage.createGuardedTransaction({
+        userId,
         type: "deposit",
         amount,
         fee,
         netAmount,
         status: "completed",
-        stripePaymentIntentId: `deposit_to_card_${Date.now()}`, // Mock deposit ID
+        fundingMethod: "card",
+        isSandbox: true,
         paymentMethodId: cardId,
-        paymentMethodName: `${card.cardBrand.toUpperCase()} ••••${card.cardLast4} (${card.cardName})`
-      });
+        paymentMethodName: `${(card.brand ?? "card").toUpperCase()} ••••${card.identifier} (${card.name})`
+      }, transactionLimits.guard(userId, "deposit", "card", amount));
+      if ("refused" in created) {
+        return res.status(400).json({ error: created.refused });
+      }
+      const { transaction } = created;
 
-      // Update balance (ADD money to balance when depositing to card)
-      const currentBalance = await storage.getBalance();
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance + amount,
-        totalAdded: currentBalance.totalAdded + amount
-      });
+      // Balance is derived from the journal entry posted with the transaction
+      const updatedBalance = await storage.getBalance(userId);
 
       res.json({ 
         transaction, 
@@ -654,169 +1004,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ACH Deposit with override (always succeeds)
-  app.post("/api/ach-deposit", requireAuth, async (req, res) => {
+  // ACH Deposit from a verified bank account; pending until Stripe collects the debit and the settlement date passes
+  app.post("/api/ach-deposit", requireAuth, idempotent, async (req, res) => {
     try {
-      const { amount, bankName, accountNumber, routingNumber, accountType } = req.body;
+      const userId = req.user!.id;
+      const { amount, paymentMethodId } = req.body;
       
-      if (!amount || amount < 1) {
+      if (!isValidAmount(amount, MIN_PAYOUT_AMOUNT)) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      if (!bankName || !accountNumber || !routingNumber) {
-        return res.status(400).json({ error: "Bank account details required" });
+      const account = await linkedBankAccount(userId, paymentMethodId);
+      if (!account) {
+        return res.status(400).json({ error: "Link a bank account first" });
+      }
+      if (!isVerifiedBankAccount(account)) {
+        return res.status(400).json({ error: "Verify this bank account's micro-deposits before depositing from it" });
+      }
+      if (!account.providerToken) {
+        return res.status(400).json({ error: "This bank account cannot be debited; link it again" });
       }
 
-      const fee = 0; // ACH deposits typically free
-      const netAmount = amount;
-      let paymentResult = null;
-      let methodName = `${bankName} ${accountType} **** ${accountNumber.slice(-4)}`;
+      if (!(await withinLimits(res, userId, "deposit", "ach", amount))) {
+        return;
+      }
+
+      let fee: number, netAmount: number;
+      try {
+        ({ fee, netAmount } = feeSchedule.quote("deposit", "ach", amount, DEFAULT_CURRENCY));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      const methodName = bankAccountName(account);
 
+      // Created unconfirmed so nothing is debited until the transaction has passed the limits
+      let paymentIntent: Stripe.PaymentIntent;
       try {
-        // Try real Stripe ACH payment first
-        const paymentIntent = await stripe.paymentIntents.create({
-          amount: Math.round(amount * 100),
+        paymentIntent = await stripe.paymentIntents.create({
+          amount,
           currency: "usd",
+          customer: await cardVault.customerFor(req.user!),
+          payment_method: account.providerToken,
           payment_method_types: ["us_bank_account"],
           metadata: {
-            bank_name: bankName,
-            account_type: accountType,
-            routing_number: routingNumber,
+            user_id: userId,
+            bank_name: account.brand ?? "",
+            account_type: account.accountType ?? "",
+            payment_method_id: account.id,
           },
         });
-        
-        paymentResult = paymentIntent;
-        console.log(`✅ REAL STRIPE ACH DEPOSIT: $${amount.toFixed(2)} from ${methodName} (ID: ${paymentIntent.id})`);
-        
       } catch (stripeError: any) {
         console.log(`❌ STRIPE ACH DEPOSIT FAILED: ${stripeError.message}`);
-        
-        // Create successful ACH deposit record
-        paymentResult = {
-          id: `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          amount: Math.round(amount * 100),
-          currency: "usd",
-          status: "succeeded",
-          payment_method_types: ["us_bank_account"],
-        };
-        console.log(`🔄 STRIPE ACH DEVELOPMENT: $${amount.toFixed(2)} from ${methodName} - Payment processed`);
+        return res.status(502).json({ success: false, error: stripeError.message });
       }
 
-      // Get current balance
-      const currentBalance = await storage.getBalance();
-
-      // Create transaction record
-      const transaction = await storage.createTransaction({
+      // Held in pending balance until the debit is collected and the settlement date passes; a return before then credits nothing
+      const settlesAt = achSettlement.settlementDate();
+      const created = await storage.createGuardedTransaction({
+        userId,
         type: "deposit",
         amount,
         fee,
         netAmount,
-        status: "completed",
-        stripePaymentIntentId: paymentResult.id,
-        paymentMethodId: `${routingNumber}-${accountNumber.slice(-4)}`,
-        paymentMethodName: methodName
-      });
-
-      // Update balance (add to balance)
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance + amount,
-        totalAdded: currentBalance.totalAdded + amount
-      });
-
-      res.json({ 
-        success: true,
-        payment: paymentResult,
-        transaction, 
-        balance: updatedBalance,
-        netAmount,
-        message: `✅ $${netAmount.toFixed(2)} deposited from ${methodName}!`
-      });
-        
-    } catch (error: any) {
-      console.error("ACH deposit error:", error);
-      res.status(500).json({ success: false, error: error.message });
-    }
-  });
-
-  // ACH Withdrawal with override (always succeeds)
-  app.post("/api/ach-withdraw", requireAuth, async (req, res) => {
-    try {
-      const { amount, bankName, accountNumber, routingNumber, accountType } = req.body;
-      
-      if (!amount || amount < 1) {
-        return res.status(400).json({ error: "Invalid amount" });
-      }
-
-      if (!bankName || !accountNumber || !routingNumber) {
-        return res.status(400).json({ error: "Bank account details required" });
-      }
-
-      const currentBalance = await storage.getBalance();
-      if (amount > currentBalance.currentBalance) {
-        return res.status(400).json({ error: "Insufficient balance" });
+        status: "pending",
+        fundingMethod: "ach",
+        stripePaymentIntentId: paymentIntent.id,
+        paymentMethodId: account.id,
+        paymentMethodName: methodName,
+        settlesAt,
+      }, transactionLimits.guard(userId, "deposit", "ach", amount));
+      if ("refused" in created) {
+        await stripe.paymentIntents.cancel(paymentIntent.id).catch(() => undefined);
+        return res.status(400).json({ error: created.refused });
       }
-
-      const fee = 1.00; // Small fee for ACH withdrawals
-      const netAmount = amount - fee;
-      let payoutResult = null;
-      let methodName = `${bankName} ${accountType} **** ${accountNumber.slice(-4)}`;
+      const { transaction } = created;
 
       try {
-        // Try real Stripe ACH payout first
-        const payout = await stripe.payouts.create({
-          amount: Math.round(netAmount * 100),
-          currency: "usd",
-          method: "standard", // ACH is standard (not instant)
-          description: `ACH payout to ${methodName}`,
+        paymentIntent = await stripe.paymentIntents.confirm(paymentIntent.id, {
+          mandate_data: {
+            customer_acceptance: {
+              type: "online",
+              online: { ip_address: req.ip ?? "", user_agent: req.get("user-agent") ?? "" },
+            },
+          },
         });
-        
-        payoutResult = payout;
-        console.log(`✅ REAL STRIPE ACH PAYOUT: $${netAmount.toFixed(2)} to ${methodName} (ID: ${payout.id})`);
-        
+        console.log(`✅ REAL STRIPE ACH DEPOSIT: ${formatMoney(amount)} from ${methodName} (ID: ${paymentIntent.id})`);
       } catch (stripeError: any) {
-        console.log(`❌ STRIPE ACH PAYOUT FAILED: ${stripeError.message}`);
-        
-        // Create successful ACH payout record
-        payoutResult = {
-          id: `po_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          amount: Math.round(netAmount * 100),
-          currency: "usd",
-          method: "standard",
-          status: "paid",
-          arrival_date: Math.floor(Date.now() / 1000) + (3 * 24 * 60 * 60), // 3 days from now
-        };
-        console.log(`🔄 STRIPE ACH DEVELOPMENT: $${netAmount.toFixed(2)} to ${methodName} - Payment processed`);
+        console.log(`❌ STRIPE ACH DEPOSIT FAILED: ${stripeError.message}`);
+        await storage.updateTransactionStatus(userId, transaction.id, "failed", { failureReason: stripeError.message });
+        return res.status(502).json({ success: false, error: stripeError.message });
       }
 
-      // Create transaction record
-      const transaction = await storage.createTransaction({
-        type: "withdrawal",
-        amount,
-        fee,
-        netAmount,
-        status: "completed",
-        stripePayoutId: payoutResult.id,
-        paymentMethodId: `${routingNumber}-${accountNumber.slice(-4)}`,
-        paymentMethodName: methodName
-      });
-
-      // Update balance (subtract from balance)
-      const updatedBalance = await storage.updateBalance({
-        currentBalance: currentBalance.currentBalance - amount,
-        totalWithdrawn: currentBalance.totalWithdrawn + amount
-      });
+      const balance = await storage.getBalance(userId);
 
-      res.json({ 
+      res.status(202).json({ 
         success: true,
-        payout: payoutResult,
+        payment: paymentIntent,
         transaction, 
-        balance: updatedBalance,
+        balance,
         netAmount,
-        message: `✅ $${netAmount.toFixed(2)} sent to ${methodName}! (Arrives in 3-5 business days)`
+        message: `${formatMoney(netAmount)} deposit from ${methodName} is pending - it will be available on ${settlesAt.toDateString()}`
       });
         
     } catch (error: any) {
-      console.error("ACH withdrawal error:", error);
+      console.error("ACH deposit error:", error);
       res.status(500).json({ success: false, error: error.message });
     }
   });
@@ -0,0 +1,22 @@
+/**
+ * Sandbox mode gates every way of crediting a balance without real money behind it
+ * Enable it explicitly with SANDBOX_MODE=true; it is off everywhere else
+ */
+
+import type { Request, Response, NextFunction } from "express";
+
+export const SANDBOX_MODE = process.env.SANDBOX_MODE === "true";
+
+if (SANDBOX_MODE) {
+  console.log("🧪 SANDBOX MODE: unbacked test credits are enabled and tagged as test funds");
+}
+
+/**
+ * Rejects the request unless the server runs in sandbox mode
+ */
+export function requireSandbox(_req: Request, res: Response, next: NextFunction) {
+  if (!SANDBOX_MODE) {
+    return res.status(403).json({ error: "Test credits are only available when the server runs in sandbox mode" });
+  }
+  next();
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { SandboxPayoutProvider } from "./sandbox-payout";
+import type { PayoutRequest } from "./payout-providers";
+
+function request(overrides: Partial<PayoutRequest> = {}): PayoutRequest {
+  return { netAmount: 2_500, currency: "USD", destination: "sandbox", reference: "tx_1", ...overrides };
+}
+
+describe("SandboxPayoutProvider", () => {
+  it("follows the configured behavior", async () => {
+    expect((await new SandboxPayoutProvider("succeed").createPayout(request())).status).toBe("completed");
+    expect((await new SandboxPayoutProvider("pending").createPayout(request())).status).toBe("pending");
+
+    const failed = await new SandboxPayoutProvider("fail").createPayout(request());
+    expect(failed.status).toBe("failed");
+    expect(failed.failureReason).toBe("Sandbox payout declined");
+  });
+
+  it("lets the destination override the behavior for one payout", async () => {
+    const provider = new SandboxPayoutProvider("succeed");
+
+    expect((await provider.createPayout(request({ reference: "a", destination: "sandbox-fail" }))).status).toBe("failed");
+    expect((await provider.createPayout(request({ reference: "b", destination: "sandbox-pending" }))).status).toBe("pending");
+    expect((await provider.createPayout(request({ reference: "c" }))).status).toBe("completed");
+  });
+
+  it("returns the first payout when a reference is sent again", async () => {
+    const provider = new SandboxPayoutProvider("succeed");
+    const first = await provider.createPayout(request());
+    provider.setBehavior("fail");
+
+    expect(await provider.createPayout(request())).toEqual(first);
+    expect(await provider.listPayouts(new Date(0), new Date(Date.now() + 1000))).toHaveLength(1);
+  });
+
+  it("gives every payout a distinct id, even across provider instances", async () => {
+    const first = await new SandboxPayoutProvider().createPayout(request());
+    const second = await new SandboxPayoutProvider().createPayout(request());
+
+    expect(first.payoutId).toMatch(/^sbx_po_/);
+    expect(second.payoutId).not.toBe(first.payoutId);
+  });
+
+  it("settles pending payouts from a webhook or a cancel", async () => {
+    const provider = new SandboxPayoutProvider("pending");
+    const paid = await provider.createPayout(request({ reference: "a" }));
+    const canceled = await provider.createPayout(request({ reference: "b" }));
+
+    const event = provider.parseWebhook(Buffer.from(JSON.stringify({ id: "evt_1", payoutId: paid.payoutId, status: "completed" })), {});
+    expect(event).toEqual({ eventId: "evt_1", payoutId: paid.payoutId, outcome: { status: "completed", payoutId: paid.payoutId } });
+    expect((await provider.getStatus(paid.payoutId!)).status).toBe("completed");
+
+    expect((await provider.cancel(canceled.payoutId!)).status).toBe("failed");
+    await expect(provider.cancel(canceled.payoutId!)).rejects.toThrow("already failed");
+  });
+
+  it("ignores webhook bodies that are not about a payout", () => {
+    const provider = new SandboxPayoutProvider();
+
+    expect(provider.parseWebhook(Buffer.from(JSON.stringify({ id: "evt_1", status: "completed" })), {})).toBeNull();
+  });
+});
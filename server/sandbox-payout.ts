@@ -0,0 +1,131 @@
+/**
+ * Deterministic in-process payout rail for exercising withdrawal flows offline
+ * Nothing leaves the process; outcomes depend only on the destination and configured behavior
+ */
+
+import { randomUUID } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type { TransactionStatus } from "@shared/schema";
+import type { PayoutOutcome, PayoutProvider, PayoutQuote, PayoutRequest, PayoutWebhookEvent, ProviderRecord } from "./payout-providers";
+import { feeSchedule } from "./fees";
+
+export type SandboxBehavior = "succeed" | "fail" | "pending";
+
+const SANDBOX_FAILURE = "Sandbox payout declined";
+
+// A destination like "sandbox-fail" overrides the configured behavior for one payout
+const DESTINATION_BEHAVIORS: Record<string, SandboxBehavior> = {
+  "sandbox-succeed": "succeed",
+  "sandbox-fail": "fail",
+  "sandbox-pending": "pending",
+};
+
+interface SandboxPayout {
+  outcome: PayoutOutcome;
+  request: PayoutRequest;
+  createdAt: Date;
+}
+
+export class SandboxPayoutProvider implements PayoutProvider {
+  readonly id = "sandbox";
+  readonly displayName = "Sandbox";
+  readonly isSandbox = true;
+  readonly idempotent = true;
+  private behavior: SandboxBehavior;
+  private payouts = new Map<string, SandboxPayout>();
+
+  constructor(behavior: SandboxBehavior = (process.env.SANDBOX_PAYOUT_BEHAVIOR as SandboxBehavior) || "succeed") {
+    this.behavior = behavior;
+  }
+
+  setBehavior(behavior: SandboxBehavior) {
+    this.behavior = behavior;
+  }
+
+  async quote(amount: number, currency: string): Promise<PayoutQuote> {
+    const { fee, netAmount } = feeSchedule.quote("withdrawal", this.id, amount, currency);
+    return { amount, fee, netAmount, currency };
+  }
+
+  async createPayout(request: PayoutRequest): Promise<PayoutOutcome> {
+    const existing = Array.from(this.payouts.values()).find(payout => payout.request.reference === request.reference);
+    if (existing) {
+      return existing.outcome;
+    }
+
+    // Random, so ids never repeat across restarts and collide with payouts already recorded
+    const payoutId = `sbx_po_${randomUUID()}`;
+    const behavior = DESTINATION_BEHAVIORS[request.destination] ?? this.behavior;
+
+    const outcome: PayoutOutcome = behavior === "succeed"
+      ? { status: "completed", payoutId }
+      : behavior === "fail"
+        ? { status: "failed", payoutId, failureReason: SANDBOX_FAILURE }
+        : { status: "pending", payoutId };
+
+    this.payouts.set(payoutId, { outcome, request, createdAt: new Date() });
+    console.log(`🧪 SANDBOX PAYOUT: ${payoutId} for ${request.reference} -> ${outcome.status}`);
+    return outcome;
+  }
+
+  async getStatus(payoutId: string): Promise<PayoutOutcome> {
+    const payout = this.payouts.get(payoutId);
+    if (!payout) {
+      throw new Error(`Unknown sandbox payout: ${payoutId}`);
+    }
+    return payout.outcome;
+  }
+
+  async cancel(payoutId: string): Promise<PayoutOutcome> {
+    const outcome = await this.getStatus(payoutId);
+    if (outcome.status !== "pending") {
+      throw new Error(`Sandbox payout ${payoutId} is already ${outcome.status}`);
+    }
+    return this.settle(payoutId, "failed", "Sandbox payout canceled");
+  }
+
+  /**
+   * Resolve a pending sandbox payout, as the real rail would later
+   */
+  settle(payoutId: string, status: TransactionStatus, failureReason = SANDBOX_FAILURE): PayoutOutcome {
+    const payout = this.payouts.get(payoutId);
+    if (!payout) {
+      throw new Error(`Unknown sandbox payout: ${payoutId}`);
+    }
+    payout.outcome = status === "failed"
+      ? { status, payoutId, failureReason }
+      : { status, payoutId };
+    return payout.outcome;
+  }
+
+  // Only payouts made by this process; a fresh process reports every earlier sandbox payout missing
+  async listPayouts(since: Date, until: Date): Promise<ProviderRecord[]> {
+    return Array.from(this.payouts.entries())
+      .filter(([, payout]) => payout.createdAt >= since && payout.createdAt < until)
+      .map(([payoutId, payout]) => ({
+        provider: this.id,
+        kind: "payout",
+        externalId: payoutId,
+        amount: payout.request.netAmount,
+        currency: payout.request.currency,
+        status: payout.outcome.status,
+        reference: payout.request.reference,
+        createdAt: payout.createdAt,
+      }));
+  }
+
+  /**
+   * Sandbox webhooks are unsigned JSON: { id, payoutId, status, failureReason? }
+   */
+  parseWebhook(rawBody: Buffer, _headers: IncomingHttpHeaders): PayoutWebhookEvent | null {
+    const event = JSON.parse(rawBody.toString("utf-8"));
+    if (!event?.id || !event?.payoutId || !["pending", "completed", "failed"].includes(event.status)) {
+      return null;
+    }
+    return {
+      eventId: event.id,
+      payoutId: event.payoutId,
+      outcome: this.settle(event.payoutId, event.status, event.failureReason),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Open journal entries from the old `ledger` table's per-user balances
+ *
+ * Usage: tsx server/scripts/migrate-ledger.ts (after npm run db:push)
+ * Safe to re-run: users who already have an opening entry are skipped.
+ * The file store backfills data.json by itself on load.
+ */
+
+import { eq, inArray } from "drizzle-orm";
+import { accounts, balances, journalEntries, legacyLedger, postings } from "@shared/schema";
+import { DEFAULT_CURRENCY, formatMoney, toMinorUnits } from "@shared/money";
+import { db, pool } from "../db";
+import { accountTemplate, buildOpeningBalanceEntry } from "../journal";
+
+async function main() {
+  const rows = await db.select().from(legacyLedger);
+  let opened = 0;
+
+  await db.transaction(async (tx) => {
+    for (const row of rows) {
+      const amount = toMinorUnits(row.balance);
+      if (row.pendingBalance !== 0) {
+        console.log(`⚠️ ${row.userId} had ${formatMoney(toMinorUnits(row.pendingBalance))} pending in the old ledger; settle it by hand`);
+      }
+      if (amount === 0) {
+        continue;
+      }
+
+      const draft = buildOpeningBalanceEntry(row.userId, amount, DEFAULT_CURRENCY);
+      const [existing] = await tx.select({ id: journalEntries.id }).from(journalEntries)
+        .where(eq(journalEntries.description, draft.description));
+      if (existing) {
+        continue;
+      }
+
+      const [entry] = await tx.insert(journalEntries).values({ transactionId: null, description: draft.description }).returning();
+      for (const line of draft.lines) {
+        await tx.insert(accounts).values(accountTemplate(line.accountCode)).onConflictDoNothing({ target: accounts.code });
+        const [account] = await tx.select().from(accounts).where(eq(accounts.code, line.accountCode));
+        await tx.insert(postings).values({ entryId: entry.id, accountId: account.id, amount: line.amount, currency: draft.currency });
+      }
+      opened++;
+    }
+
+    // Cached balances are rebuilt from the journal on the next read
+    const userIds = rows.map(row => row.userId);
+    if (userIds.length > 0) {
+      await tx.delete(balances).where(inArray(balances.userId, userIds));
+    }
+  });
+
+  console.log(`✅ Opened ${opened} journal entries from ${rows.length} ledger rows`);
+  await pool.end();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
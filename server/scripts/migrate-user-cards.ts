@@ -0,0 +1,57 @@
+/**
+ * Copy saved cards from the old user_cards table into payment_methods
+ *
+ * Usage: tsx server/scripts/migrate-user-cards.ts (after npm run db:push)
+ * Safe to re-run: cards keep their ids and rows already copied are skipped.
+ * The file store migrates data.json by itself on load.
+ */
+
+import { asc } from "drizzle-orm";
+import { paymentMethods, userCards } from "@shared/schema";
+import { db, pool } from "../db";
+
+async function main() {
+  const cards = await db.select().from(userCards).orderBy(asc(userCards.createdAt));
+  const existing = await db.select({ userId: paymentMethods.userId }).from(paymentMethods);
+  const hasMethods = new Set(existing.map(method => method.userId));
+
+  // One default per user: their card marked 'true', else their oldest card.
+  // Users who already have payment methods keep their current default.
+  const defaults = new Map<string, typeof cards[number]>();
+  for (const card of cards) {
+    const current = defaults.get(card.userId);
+    if (!hasMethods.has(card.userId) && (!current || (card.isDefault === "true" && current.isDefault !== "true"))) {
+      defaults.set(card.userId, card);
+    }
+  }
+
+  let copied = 0;
+  await db.transaction(async (tx) => {
+    for (const card of cards) {
+      const inserted = await tx.insert(paymentMethods).values({
+        id: card.id,
+        userId: card.userId,
+        type: "card",
+        name: card.cardName,
+        identifier: card.cardLast4,
+        brand: card.cardBrand,
+        providerToken: card.stripeCardId,
+        expMonth: card.expMonth,
+        expYear: card.expYear,
+        fingerprint: card.fingerprint,
+        isDefault: defaults.get(card.userId)?.id === card.id,
+        createdAt: card.createdAt,
+        updatedAt: card.createdAt,
+      }).onConflictDoNothing().returning({ id: paymentMethods.id });
+      copied += inserted.length;
+    }
+  });
+
+  console.log(`✅ Copied ${copied} of ${cards.length} saved cards into payment_methods`);
+  await pool.end();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+/**
+ * Reconcile transactions against provider records and print the mismatches
+ *
+ * Usage: tsx server/scripts/reconcile.ts [--since <date>] [--until <date>] [--fixtures [dir]]
+ *   --since / --until  ISO dates; the window defaults to the last 7 days
+ *   --fixtures         read records from server/fixtures/reconciliation (or dir) instead of the providers
+ * Exits 1 when there is any mismatch or a source could not be read
+ */
+
+import { formatMoney } from "@shared/money";
+import { FIXTURE_DIR, fixtureSources, reconciliationEngine } from "../reconciliation";
+
+function option(args: string[], name: string) {
+  const index = args.indexOf(name);
+  if (index < 0) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  return value && !value.startsWith("--") ? value : "";
+}
+
+function parseDate(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO date`);
+  }
+  return date;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fixtures = option(args, "--fixtures");
+  const report = await reconciliationEngine.run({
+    since: parseDate(option(args, "--since"), "--since"),
+    until: parseDate(option(args, "--until"), "--until"),
+    sources: fixtures === undefined ? undefined : fixtureSources(fixtures || FIXTURE_DIR),
+  });
+
+  console.log(`Window ${report.since} -> ${report.until}`);
+  console.log(`Sources: ${report.sources.join(", ") || "none"}`);
+  for (const { source, error } of report.sourceErrors) {
+    console.error(`❌ ${source}: ${error}`);
+  }
+  for (const mismatch of report.mismatches) {
+    const theirs = mismatch.theirs ? formatMoney(mismatch.theirs.amount, mismatch.theirs.currency) : "-";
+    console.log(`⚠️  ${mismatch.kind.padEnd(14)} ${mismatch.provider} ${mismatch.externalId ?? "-"} txn ${mismatch.transactionId ?? "-"} (theirs ${theirs}): ${mismatch.detail}`);
+  }
+  console.log(`${report.matched} matched, ${report.mismatches.length} mismatches, ${report.unchecked} unchecked`);
+
+  process.exit(report.mismatches.length || report.sourceErrors.length ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
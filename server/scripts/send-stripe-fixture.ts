@@ -0,0 +1,45 @@
+/**
+ * Sign a Stripe event fixture and POST it to the webhook endpoint, for testing offline
+ *
+ * Usage: STRIPE_WEBHOOK_SECRET=whsec_... tsx server/scripts/send-stripe-fixture.ts <fixture> [objectId] [url]
+ *   fixture   file name in server/fixtures/stripe, e.g. payout.paid
+ *   objectId  replaces the payment intent / payout id so it matches a local transaction
+ *   url       defaults to http://localhost:5000/api/webhooks/stripe
+ */
+
+import fs from "fs";
+import path from "path";
+import Stripe from "stripe";
+
+const FIXTURE_DIR = path.join(process.cwd(), "server", "fixtures", "stripe");
+
+async function main() {
+  const [fixture, objectId, url = "http://localhost:5000/api/webhooks/stripe"] = process.argv.slice(2);
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!fixture || !secret) {
+    console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... tsx server/scripts/send-stripe-fixture.ts <fixture> [objectId] [url]");
+    process.exit(1);
+  }
+
+  const event = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${fixture.replace(/\.json$/, "")}.json`), "utf-8"));
+  if (objectId) {
+    // A distinct event id per object so dedup does not swallow runs against new transactions
+    event.data.object.id = objectId;
+    event.id = `${event.id}_${objectId}`;
+  }
+
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+    body: payload,
+  });
+
+  console.log(`${event.type} (${event.id}) -> ${response.status} ${await response.text()}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
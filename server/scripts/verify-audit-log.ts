@@ -0,0 +1,26 @@
+/**
+ * Verify the audit log hash chain in the configured storage backend
+ *
+ * Usage: tsx server/scripts/verify-audit-log.ts
+ * Exits 1 when any entry was edited, removed or reordered
+ */
+
+import { storage } from "../storage";
+import { verifyAuditChain } from "../audit";
+
+async function main() {
+  const verification = verifyAuditChain(await storage.getAuditLog());
+  if (verification.valid) {
+    console.log(`✅ Audit log intact: ${verification.checked} entries, head ${verification.headHash}`);
+    process.exit(0);
+  }
+
+  console.error(`❌ Audit log broken at sequence ${verification.brokenAt}: ${verification.reason}`);
+  console.error(`   ${verification.checked} entries verified before the break`);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
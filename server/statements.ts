@@ -0,0 +1,291 @@
+/**
+ * Account statements: opening balance, wallet activity, fees and closing
+ * balance for a period, rendered as JSON, CSV, OFX/QFX or PDF
+ * Activity comes from the user's wallet postings, so every line is a real
+ * balance change: deposits, withdrawal holds, reversals of failed payouts and
+ * returned ACH deposits taken back out of the wallet
+ */
+
+import type { Transaction, User } from "@shared/schema";
+import { formatMoney, fromMinorUnits, minorUnitExponent } from "@shared/money";
+import type { Statement, StatementLine } from "@shared/statements";
+import { storage } from "./storage";
+import { userWalletCode } from "./journal";
+import { toCsv } from "./csv";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from "./pdf";
+
+const OFX_NAME_LENGTH = 32;
+
+function day(iso: string) {
+  return iso.slice(0, 10);
+}
+
+// Statements are [from, to); show the last day they include
+function lastDay(to: string) {
+  return day(new Date(new Date(to).getTime() - 1).toISOString());
+}
+
+function ofxDate(iso: string) {
+  return iso.replace(/[-:T]/g, "").slice(0, 14);
+}
+
+// OFX 1.x files here are plain ASCII; card masks become asterisks
+function ofxText(text: string) {
+  return text
+    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    .replace(/•/g, "*").replace(/[^\x20-\x7e]/g, "?");
+}
+
+function describe(transaction: Transaction, kind: StatementLine["kind"]) {
+  const destination = transaction.paymentMethodName ?? transaction.payoutProvider ?? "external account";
+  if (kind === "reversal") {
+    return `Reversal: withdrawal to ${destination} failed`;
+  }
+  if (kind === "withdrawal") {
+    return `Withdrawal to ${destination}`;
+  }
+  const source = transaction.paymentMethodName ?? transaction.fundingMethod;
+  if (kind === "return") {
+    const code = transaction.returnCode ? ` (${transaction.returnCode})` : "";
+    return `Return: deposit from ${source ?? "bank"}${code}`;
+  }
+  return source ? `Deposit from ${source}` : "Deposit";
+}
+
+export class StatementService {
+  /**
+   * Build the statement for [from, to). Lines are wallet postings in the
+   * period; the opening balance sums every posting before it.
+   */
+  async build(user: Pick<User, "id" | "username">, from: Date, to: Date): Promise<Statement> {
+    const [balance, accounts, entries, transactions] = await Promise.all([
+      storage.getBalance(user.id),
+      storage.getAccounts(),
+      storage.getJournalEntries(user.id),
+      storage.getTransactions(user.id),
+    ]);
+    const currency = balance.currency;
+    const wallet = accounts.find(account => account.code === userWalletCode(user.id));
+    const byId = new Map(transactions.map(transaction => [transaction.id, transaction]));
+
+    const changes = entries
+      .flatMap(entry => entry.postings
+        .filter(posting => posting.accountId === wallet?.id && posting.currency === currency)
+        .map(posting => ({ entry, amount: posting.amount, createdAt: new Date(entry.createdAt) })))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const openingBalance = changes
+      .filter(change => change.createdAt < from)
+      .reduce((sum, change) => sum + change.amount, 0);
+
+    let running = openingBalance;
+    const lines: StatementLine[] = changes
+      .filter(change => change.createdAt >= from && change.createdAt < to)
+      .flatMap(({ entry, amount, createdAt }) => {
+        const transaction = entry.transactionId ? byId.get(entry.transactionId) : undefined;
+        if (!transaction) {
+          return [];
+        }
+        const kind = transaction.type === "deposit"
+          ? amount > 0 ? "deposit" : "return"
+          : amount > 0 ? "reversal" : "withdrawal";
+        running += amount;
+        return [{
+          entryId: entry.id,
+          transactionId: transaction.id,
+          date: createdAt.toISOString(),
+          kind,
+          description: describe(transaction, kind),
+          status: transaction.status,
+          amount,
+          fee: kind === "reversal" || kind === "return" ? -transaction.fee : transaction.fee,
+          balance: running,
+        }];
+      });
+
+    return {
+      username: user.username,
+      currency,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      generatedAt: new Date().toISOString(),
+      openingBalance,
+      moneyIn: lines.filter(line => line.amount > 0).reduce((sum, line) => sum + line.amount, 0),
+      moneyOut: lines.filter(line => line.amount < 0).reduce((sum, line) => sum - line.amount, 0),
+      fees: lines.reduce((sum, line) => sum + line.fee, 0),
+      closingBalance: running,
+      lines,
+    };
+  }
+
+  fileName(statement: Statement, extension: string) {
+    return `statement-${day(statement.from)}-to-${lastDay(statement.to)}.${extension}`;
+  }
+
+  /**
+   * One row per line between opening and closing balance rows, amounts in major units
+   */
+  toCsv(statement: Statement): string {
+    const amount = (minor: number) =>
+      fromMinorUnits(minor, statement.currency).toFixed(minorUnitExponent(statement.currency));
+
+    return toCsv([
+      ["date", "description", "type", "status", "amount", "fee", "balance", "currency", "transaction_id"],
+      [day(statement.from), "Opening balance", "", "", "", "", amount(statement.openingBalance), statement.currency, ""],
+      ...statement.lines.map(line => [
+        line.date,
+        line.description,
+        line.kind,
+        line.status,
+        amount(line.amount),
+        amount(line.fee),
+        amount(line.balance),
+        statement.currency,
+        line.transactionId,
+      ]),
+      [lastDay(statement.to), "Closing balance", "", "", "", amount(statement.fees), amount(statement.closingBalance), statement.currency, ""],
+    ]);
+  }
+
+  /**
+   * OFX 1.0.2 bank statement; QFX adds the INTU.BID Quicken expects
+   */
+  toOfx(statement: Statement, quicken = false): string {
+    const amount = (minor: number) =>
+      fromMinorUnits(minor, statement.currency).toFixed(minorUnitExponent(statement.currency));
+    const now = ofxDate(statement.generatedAt);
+    const transactions = statement.lines.map(line => [
+      "<STMTTRN>",
+      `<TRNTYPE>${line.amount >= 0 ? "CREDIT" : "DEBIT"}`,
+      `<DTPOSTED>${ofxDate(line.date)}`,
+      `<TRNAMT>${amount(line.amount)}`,
+      `<FITID>${line.entryId}`,
+      `<NAME>${ofxText(line.description.slice(0, OFX_NAME_LENGTH))}`,
+      `<MEMO>${ofxText(line.fee !== 0 ? `${line.description} (fee ${formatMoney(line.fee, statement.currency)})` : line.description)}`,
+      "</STMTTRN>",
+    ].join("\r\n"));
+
+    return [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "VERSION:102",
+      "SECURITY:NONE",
+      "ENCODING:USASCII",
+      "CHARSET:1252",
+      "COMPRESSION:NONE",
+      "OLDFILEUID:NONE",
+      "NEWFILEUID:NONE",
+      "",
+      "<OFX>",
+      "<SIGNONMSGSRSV1>",
+      "<SONRS>",
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      `<DTSERVER>${now}`,
+      "<LANGUAGE>ENG",
+      "<FI><ORG>BalanceFlow<FID>BALANCEFLOW</FI>",
+      ...(quicken ? ["<INTU.BID>BALANCEFLOW"] : []),
+      "</SONRS>",
+      "</SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1>",
+      "<STMTTRNRS>",
+      "<TRNUID>0",
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<STMTRS>",
+      `<CURDEF>${statement.currency}`,
+      "<BANKACCTFROM>",
+      "<BANKID>BALANCEFLOW",
+      `<ACCTID>${ofxText(statement.username)}`,
+      "<ACCTTYPE>CHECKING",
+      "</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      `<DTSTART>${ofxDate(statement.from)}`,
+      `<DTEND>${ofxDate(statement.to)}`,
+      ...transactions,
+      "</BANKTRANLIST>",
+      "<LEDGERBAL>",
+      `<BALAMT>${amount(statement.closingBalance)}`,
+      `<DTASOF>${ofxDate(statement.to)}`,
+      "</LEDGERBAL>",
+      "</STMTRS>",
+      "</STMTTRNRS>",
+      "</BANKMSGSRSV1>",
+      "</OFX>",
+      "",
+    ].join("\r\n");
+  }
+
+  /**
+   * Printable statement: summary, then itemized activity across as many pages as it needs
+   */
+  toPdf(statement: Statement): Buffer {
+    const money = (minor: number) => formatMoney(minor, statement.currency);
+    const pdf = new PdfDocument();
+    const left = 50;
+    const right = PAGE_WIDTH - 50;
+    let y = PAGE_HEIGHT - 60;
+
+    pdf.text(left, y, "BalanceFlow Statement", { size: 18, font: "bold" });
+    y -= 24;
+    pdf.text(left, y, `Account holder: ${statement.username}`);
+    y -= 14;
+    pdf.text(left, y, `Period: ${day(statement.from)} to ${lastDay(statement.to)}`);
+    y -= 14;
+    pdf.text(left, y, `Generated: ${statement.generatedAt.replace("T", " ").slice(0, 19)} UTC`);
+    y -= 30;
+
+    const summary: [string, number][] = [
+      ["Opening balance", statement.openingBalance],
+      ["Money in", statement.moneyIn],
+      ["Money out", -statement.moneyOut],
+      ["Fees (included above)", statement.fees],
+      ["Closing balance", statement.closingBalance],
+    ];
+    pdf.text(left, y, "Summary", { size: 12, font: "bold" });
+    y -= 6;
+    pdf.rule(left, y, right, y);
+    for (const [label, amount] of summary) {
+      y -= 16;
+      const bold = label.endsWith("balance");
+      pdf.text(left, y, label, { font: bold ? "bold" : "regular" });
+      pdf.text(right, y, money(amount), { font: "mono", align: "right" });
+    }
+    y -= 36;
+
+    const header = () => {
+      pdf.text(left, y, "Date", { size: 9, font: "bold" });
+      pdf.text(left + 60, y, "Description", { size: 9, font: "bold" });
+      pdf.text(left + 235, y, "Status", { size: 9, font: "bold" });
+      pdf.text(left + 340, y, "Fee", { size: 9, font: "bold", align: "right" });
+      pdf.text(left + 426, y, "Amount", { size: 9, font: "bold", align: "right" });
+      pdf.text(right, y, "Balance", { size: 9, font: "bold", align: "right" });
+      y -= 6;
+      pdf.rule(left, y, right, y);
+      y -= 14;
+    };
+
+    pdf.text(left, y, "Activity", { size: 12, font: "bold" });
+    y -= 18;
+    header();
+    if (statement.lines.length === 0) {
+      pdf.text(left, y, "No activity in this period", { size: 9 });
+    }
+    for (const line of statement.lines) {
+      if (y < 60) {
+        pdf.addPage();
+        y = PAGE_HEIGHT - 60;
+        header();
+      }
+      pdf.text(left, y, day(line.date), { size: 9 });
+      pdf.text(left + 60, y, line.description.slice(0, 36), { size: 9 });
+      pdf.text(left + 235, y, line.status, { size: 9 });
+      pdf.text(left + 340, y, line.fee ? money(line.fee) : "", { size: 9, font: "mono", align: "right" });
+      pdf.text(left + 426, y, money(line.amount), { size: 9, font: "mono", align: "right" });
+      pdf.text(right, y, money(line.balance), { size: 9, font: "mono", align: "right" });
+      y -= 14;
+    }
+
+    return pdf.render();
+  }
+}
+
+export const statementService = new StatementService();
@@ -0,0 +1,102 @@
+/**
+ * Status history: the timeline events a transaction change produces
+ * Storage writes them with the change; transactions from before the
+ * status history table are replayed from their audit log entries
+ */
+
+import type { AuditEntry, Transaction, TransactionStatusEvent } from "@shared/schema";
+import type { TransactionEvent } from "@shared/history";
+
+type EventSource = Pick<Transaction, "type" | "status" | "stripePayoutId" | "failureReason" | "collectedAt">;
+
+export interface StatusEventDraft {
+  event: TransactionEvent;
+  status: string;
+  detail: string | null;
+}
+
+// The event that puts a transaction into its current status
+function statusEvent(transaction: EventSource): StatusEventDraft {
+  if (transaction.status === "completed") {
+    return { event: "paid", status: "completed", detail: null };
+  }
+  if (transaction.status === "failed") {
+    return { event: "failed", status: "failed", detail: transaction.failureReason };
+  }
+  if (transaction.status === "returned") {
+    return { event: "returned", status: "returned", detail: transaction.failureReason };
+  }
+  return { event: "pending", status: "pending", detail: null };
+}
+
+/**
+ * Events for a newly recorded transaction: created, then its initial status
+ */
+export function creationEvents(transaction: EventSource): StatusEventDraft[] {
+  return [
+    { event: "created", status: transaction.status, detail: null },
+    statusEvent(transaction),
+  ];
+}
+
+/**
+ * Events for a status update. A new payout id means the provider accepted the
+ * payout, and a collection time that Stripe took an ACH deposit's debit; a failed withdrawal also releases its hold back to the wallet, and a
+ * deposit returned after it was credited is taken back out of it.
+ */
+export function statusChangeEvents(before: EventSource, after: EventSource): StatusEventDraft[] {
+  const events: StatusEventDraft[] = [];
+  if (after.stripePayoutId && after.stripePayoutId !== before.stripePayoutId) {
+    events.push({ event: "submitted", status: after.status, detail: after.stripePayoutId });
+  }
+  if (after.collectedAt && !before.collectedAt) {
+    events.push({ event: "collected", status: after.status, detail: null });
+  }
+  if (after.status !== before.status) {
+    events.push(statusEvent(after));
+    if (after.status === "failed" && after.type === "withdrawal") {
+      events.push({ event: "reversed", status: "failed", detail: "Held funds returned to the wallet" });
+    }
+    if (after.status === "returned" && before.status === "completed") {
+      events.push({ event: "reversed", status: "returned", detail: "Credit taken back from the wallet" });
+    }
+  }
+  return events;
+}
+
+/**
+ * Rebuild the timeline of a transaction recorded before status history
+ * existed from its audit entries, or from the transaction alone when it
+ * predates the audit log too
+ */
+export function replayStatusHistory(transaction: Transaction, auditEntries: AuditEntry[]): TransactionStatusEvent[] {
+  const snapshot = (state: unknown) => (state as { transaction?: EventSource } | null)?.transaction;
+  const timeline = (id: string, drafts: StatusEventDraft[], createdAt: Date) => drafts.map((draft, index) => ({
+    ...draft,
+    id: `${id}:${index}`,
+    transactionId: transaction.id,
+    userId: transaction.userId,
+    createdAt,
+  }));
+
+  const replayed = auditEntries
+    .filter(entry => entry.entityId === transaction.id)
+    .sort((a, b) => a.sequence - b.sequence)
+    .flatMap(entry => {
+      const before = snapshot(entry.before);
+      const after = snapshot(entry.after);
+      if (!after) {
+        return [];
+      }
+      const changed = entry.action === "transaction.status_changed" || entry.action === "transaction.returned";
+      const drafts = changed && before
+        ? statusChangeEvents(before, after)
+        : creationEvents(after);
+      return timeline(entry.id, drafts, new Date(entry.createdAt));
+    });
+
+  const events = replayed.length > 0
+    ? replayed
+    : timeline(transaction.id, creationEvents(transaction), new Date(transaction.createdAt));
+  return events.map((event, index) => ({ ...event, sequence: index + 1 }));
+}
@@ -1,38 +1,170 @@
-import { type User, type InsertUser, type Transaction, type InsertTransaction, type Balance, type InsertBalance, type UserCard, type InsertUserCard } from "@shared/schema";
+import { type User, type InsertUser, type Transaction, type InsertTransaction, type Balance, type UserCard, type PaymentMethod, type InsertPaymentMethod, type Account, type JournalEntry, type Posting, type TransactionStatus, type IdempotencyKey, type WebhookEvent, type AuditEntry, type TreasuryHolding, type InsertTreasuryHolding, type TransactionStatusEvent, type Job, type InsertJob } from "@shared/schema";
 import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { DEFAULT_CURRENCY, money, toMinorUnits, type Money } from "@shared/money";
+import type { ReserveLiabilities } from "@shared/reserves";
+import type { TransactionPage, TransactionQuery } from "@shared/history";
+import type { JobQuery } from "@shared/jobs";
+import { DbStorage } from "./db-storage";
+import { encodeHistoryCursor, type HistoryCursor } from "./history-cursor";
+import { balanceSnapshot, sealAuditEntry, transactionSnapshot, type AuditDraft } from "./audit";
+import { creationEvents, statusChangeEvents, type StatusEventDraft } from "./status-history";
+import { SYSTEM_ACCOUNTS, accountTemplate, assertBalanced, buildReturnEntry, buildStatusChangeEntry, buildTransactionEntry, deriveBalance, liabilitySummary, spendableBalance, sumPostings, userWalletCode, type JournalEntryDraft } from "./journal";
+
+export interface JournalEntryWithPostings extends JournalEntry {
+  postings: Posting[];
+}
+
+export interface IdempotencyClaim {
+  record: IdempotencyKey;
+  claimed: boolean; // False when the key was already used; record holds the earlier request
+}
+
+// History filters with the cursor already decoded; rows come after `after` in newest-first order
+export type TransactionListOptions = Omit<TransactionQuery, 'cursor'> & { after?: HistoryCursor };
+
+// Re-checked against the user's transactions under their balance lock, so concurrent
+// requests cannot all pass; returns why the new transaction is refused, or null
+export type TransactionGuard = (history: Transaction[]) => string | null;
+
+export type GuardedTransaction = { transaction: Transaction } | { refused: string };
+
+export type TransactionStatusDetails = Partial<Pick<Transaction, 'stripePayoutId' | 'failureReason' | 'collectedAt' | 'submittedAt'>>;
+
+// The outcome of a job run; releasing a job always clears its lock
+export type JobChanges = Partial<Pick<Job, 'status' | 'runAt' | 'attempts' | 'lastError' | 'result' | 'completedAt'>>;
+
+export type PaymentMethodChanges = Partial<Pick<PaymentMethod, 'name' | 'expMonth' | 'expYear' | 'verificationStatus' | 'verificationAttempts' | 'verifiedAt'>>;
+
+export const INSUFFICIENT_FUNDS = "Insufficient balance for this payout method";
+
+const MemoryStore = createMemoryStore(session);
+
+// Owner for records written before balances were per user; the old routes used this id for cards
+export const LEGACY_USER_ID = "demo-user-123";
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  setStripeCustomerId(userId: string, customerId: string): Promise<User | undefined>;
   
-  getBalance(): Promise<Balance>;
-  updateBalance(balance: Partial<InsertBalance>): Promise<Balance>;
+  // Everything below is scoped to one user; ids from another user are treated as not found
+
+  // Derived from journal postings; there is no direct way to set a balance
+  getBalance(userId: string): Promise<Balance>;
   
-  getTransactions(): Promise<Transaction[]>;
+  getTransactions(userId: string): Promise<Transaction[]>;
+  // One page of history, newest first, filtered in the backend rather than after loading everything
+  listTransactions(userId: string, options: TransactionListOptions): Promise<TransactionPage>;
+  // Records the transaction and, once completed, its journal entry in one write
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  getTransactionById(id: string): Promise<Transaction | undefined>;
+  // createTransaction, unless the guard refuses it
+  createGuardedTransaction(transaction: InsertTransaction, guard: TransactionGuard): Promise<GuardedTransaction>;
+  getTransactionById(userId: string, id: string): Promise<Transaction | undefined>;
+  // Atomically checks the wallet covers the withdrawal and records it as pending, holding the amount.
+  // Only sandbox-rail withdrawals (isSandbox) may spend test funds.
+  // Refuses, recording nothing, when the balance is insufficient or the guard refuses.
+  reserveFunds(withdrawal: Omit<InsertTransaction, 'type' | 'status'>, guard?: TransactionGuard): Promise<GuardedTransaction>;
+  // Looks up a transaction by provider payment intent or payout id; not user scoped, for webhooks
+  getTransactionByExternalId(externalId: string): Promise<Transaction | undefined>;
+  // Every user's transactions created in [since, until), oldest first; not user scoped, for reconciliation
+  getTransactionsCreatedBetween(since: Date, until: Date): Promise<Transaction[]>;
+  // Settles a pending transaction and posts the matching journal entry; failed withdrawals are reversed
+  updateTransactionStatus(userId: string, id: string, status: TransactionStatus, details?: TransactionStatusDetails): Promise<Transaction | undefined>;
+  // Pending deposits collected from the bank whose settlement date is at or before asOf, oldest first; not user scoped, for the settlement scheduler
+  getDepositsDueForSettlement(asOf: Date): Promise<Transaction[]>;
+  // Marks a pending or completed deposit returned by the bank. A completed one is taken back out
+  // of the wallet, which may go negative when the funds were already spent
+  returnDeposit(userId: string, id: string, returnCode: string, failureReason: string): Promise<Transaction | undefined>;
+  // Oldest first; empty for transactions recorded before status history existed
+  getTransactionStatusHistory(userId: string, transactionId: string): Promise<TransactionStatusEvent[]>;
   
-  getUserCards(userId: string): Promise<UserCard[]>;
-  createUserCard(card: InsertUserCard): Promise<UserCard>;
-  deleteUserCard(cardId: string): Promise<boolean>;
-  getUserCardById(cardId: string): Promise<UserCard | undefined>;
+  // Oldest first. A user has at most one default: their first method becomes it, creating one
+  // with isDefault takes it over, and deleting it promotes the newest remaining method
+  getPaymentMethods(userId: string): Promise<PaymentMethod[]>;
+  getPaymentMethodById(userId: string, id: string): Promise<PaymentMethod | undefined>;
+  createPaymentMethod(method: InsertPaymentMethod): Promise<PaymentMethod>;
+  updatePaymentMethod(userId: string, id: string, changes: PaymentMethodChanges): Promise<PaymentMethod | undefined>;
+  setDefaultPaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined>;
+  // Counts one micro-deposit guess against a pending bank account, atomically; undefined once
+  // the account is no longer pending or has used maxAttempts, so concurrent guesses cannot exceed it
+  claimVerificationAttempt(userId: string, id: string, maxAttempts: number): Promise<PaymentMethod | undefined>;
+  // Returns the removed method so callers can clean up with its provider
+  deletePaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined>;
+
+  // Keys older than staleBefore are forgotten and can be claimed again
+  claimIdempotencyKey(userId: string, key: string, requestHash: string, staleBefore: Date): Promise<IdempotencyClaim>;
+  completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void>;
+  // Forgets a key still in progress, so a request that never stored a response can be retried
+  releaseIdempotencyKey(id: string): Promise<void>;
+
+  // Returns false when the event was already claimed; release lets a failed delivery be retried
+  claimWebhookEvent(provider: string, eventId: string, type: string): Promise<boolean>;
+  releaseWebhookEvent(provider: string, eventId: string): Promise<void>;
+
+  // Every write above that changes a user, balance, transaction or payment method appends a hash-chained
+  // audit entry in the same write; entries are returned in sequence order
+  getAuditLog(userId?: string): Promise<AuditEntry[]>;
+
+  // Treasury holdings are appended, never edited; the latest per rail and currency is current.
+  // Returned oldest first
+  recordTreasuryHolding(holding: InsertTreasuryHolding): Promise<TreasuryHolding>;
+  getTreasuryHoldings(currency?: string): Promise<TreasuryHolding[]>;
+  // What all users are owed in one currency, from wallet and in-flight postings
+  getLiabilities(currency?: string): Promise<ReserveLiabilities>;
+
+  getAccounts(): Promise<Account[]>;
+  getAccountBalance(code: string, currency?: string): Promise<Money>;
+  getJournalEntries(userId: string, transactionId?: string): Promise<JournalEntryWithPostings[]>;
+
+  // Returns the queued or running job with the same uniqueKey instead of adding another
+  enqueueJob(job: InsertJob): Promise<Job>;
+  // Marks up to `limit` due jobs running for workerId and counts an attempt; running jobs
+  // locked before staleBefore belong to a worker that died and are taken over
+  claimJobs(workerId: string, limit: number, staleBefore: Date): Promise<Job[]>;
+  // Returns undefined when workerId no longer holds the job
+  releaseJob(id: string, workerId: string, changes: JobChanges): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  // Newest first
+  getJobs(query: JobQuery, limit?: number): Promise<Job[]>;
+  // Queue a dead job to run now with fresh attempts; undefined when it is not dead
+  requeueJob(id: string): Promise<Job | undefined>;
 }
 
 interface FileData {
   users: User[];
   transactions: Transaction[];
-  balance: Balance;
-  userCards: UserCard[];
+  transactionStatusHistory: TransactionStatusEvent[];
+  balances: Balance[]; // Cached projection of each user's wallet postings
+  paymentMethods: PaymentMethod[];
+  userCards?: UserCard[]; // Files written before payment methods; moved across on load
+  accounts: Account[];
+  journalEntries: JournalEntry[];
+  postings: Posting[];
+  idempotencyKeys: IdempotencyKey[];
+  webhookEvents: WebhookEvent[];
+  auditLog: AuditEntry[];
+  treasuryHoldings: TreasuryHolding[];
+  jobs: Job[];
+  moneyUnit?: 'minor'; // Absent in files written when amounts were float dollars
 }
 
 export class MemStorage implements IStorage {
   private dataFile: string;
-  private data: FileData;
+  private data!: FileData;
+  sessionStore: session.Store;
 
   constructor() {
+    // Sessions are process-local here; they do not need to survive restarts
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.dataFile = path.join(process.cwd(), 'data.json');
     this.loadData();
   }
@@ -41,37 +173,181 @@ export class MemStorage implements IStorage {
     try {
       if (fs.existsSync(this.dataFile)) {
         const fileContent = fs.readFileSync(this.dataFile, 'utf-8');
-        this.data = JSON.parse(fileContent);
+        const { balance: _legacyBalance, moneyUnit, ...fileData } = JSON.parse(fileContent);
+        this.data = { ...this.emptyData(), ...fileData, moneyUnit };
+        this.migrateToMinorUnits();
+        this.assignLegacyOwner();
+        this.tagUnbackedLegacyCredits();
+        this.migrateUserCards();
+        this.backfillJournal();
+        this.refreshStaleBalances();
       } else {
-        this.data = {
-          users: [],
-          transactions: [],
-          balance: {
-            id: randomUUID(),
-            currentBalance: 0,
-            totalAdded: 0,
-            totalWithdrawn: 0,
-            lastUpdated: new Date(),
-          },
-          userCards: []
-        };
+        this.data = this.emptyData();
         this.saveData();
       }
     } catch (error) {
       console.error('Error loading data:', error);
-      this.data = {
-        users: [],
-        transactions: [],
-        balance: {
-          id: randomUUID(),
-          currentBalance: 0,
-          totalAdded: 0,
-          totalWithdrawn: 0,
-          lastUpdated: new Date(),
-        },
-        userCards: []
-      };
+      this.data = this.emptyData();
+    }
+  }
+
+  private emptyData(): FileData {
+    return {
+      users: [],
+      transactions: [],
+      transactionStatusHistory: [],
+      balances: [],
+      paymentMethods: [],
+      accounts: [],
+      journalEntries: [],
+      postings: [],
+      idempotencyKeys: [],
+      webhookEvents: [],
+      auditLog: [],
+      treasuryHoldings: [],
+      jobs: [],
+      moneyUnit: 'minor'
+    };
+  }
+
+  /**
+   * Convert files that stored float dollars into integer cents. The journal is
+   * dropped and rebuilt from the converted transactions by backfillJournal.
+   */
+  private migrateToMinorUnits() {
+    if (this.data.moneyUnit === 'minor') {
+      return;
+    }
+
+    this.data.transactions = this.data.transactions.map(transaction => ({
+      ...transaction,
+      amount: toMinorUnits(transaction.amount),
+      fee: toMinorUnits(transaction.fee ?? 0),
+      netAmount: toMinorUnits(transaction.netAmount),
+      currency: transaction.currency ?? DEFAULT_CURRENCY,
+    }));
+    this.data.moneyUnit = 'minor';
+    this.resetJournal();
+    this.saveData();
+  }
+
+  /**
+   * Files from before per-user accounts have unowned transactions and cards.
+   * Give them to LEGACY_USER_ID and rebuild the journal with per-user wallets.
+   */
+  private assignLegacyOwner() {
+    const unowned = this.data.transactions.some(transaction => !transaction.userId)
+      || (this.data.userCards ?? []).some(card => !card.userId);
+    if (!unowned) {
+      return;
+    }
+
+    this.data.transactions = this.data.transactions.map(transaction => ({
+      ...transaction,
+      userId: transaction.userId || LEGACY_USER_ID,
+    }));
+    this.data.userCards = this.data.userCards?.map(card => ({
+      ...card,
+      userId: card.userId || LEGACY_USER_ID,
+    }));
+    this.resetJournal();
+    this.saveData();
+  }
+
+  /**
+   * Files from before sandbox mode have no isSandbox flags. Their deposits with
+   * no payment intent were manual credits, so they become test funds that only
+   * the sandbox rail can withdraw.
+   */
+  private tagUnbackedLegacyCredits() {
+    if (!this.data.transactions.some(transaction => transaction.isSandbox === undefined)) {
+      return;
     }
+
+    this.data.transactions = this.data.transactions.map(transaction => transaction.isSandbox !== undefined ? transaction : {
+      ...transaction,
+      isSandbox: transaction.type === 'deposit' && !transaction.stripePaymentIntentId,
+    });
+    // Cached balances predate the flags; they are rebuilt on the next read
+    this.data.balances = [];
+    this.saveData();
+  }
+
+  /**
+   * Saved cards used to live in userCards; copy them into payment methods.
+   * Each user's default is their card marked 'true', else their oldest card.
+   */
+  private migrateUserCards() {
+    if (!this.data.userCards) {
+      return;
+    }
+
+    const cards = this.data.userCards;
+    const defaults = new Map<string, UserCard>();
+    for (const card of cards) {
+      const current = defaults.get(card.userId);
+      if (!current || (card.isDefault === 'true' && current.isDefault !== 'true')) {
+        defaults.set(card.userId, card);
+      }
+    }
+
+    this.data.paymentMethods.push(...cards.map(card => ({
+      id: card.id,
+      userId: card.userId,
+      type: 'card',
+      name: card.cardName,
+      identifier: card.cardLast4,
+      brand: card.cardBrand,
+      providerToken: card.stripeCardId ?? null,
+      expMonth: card.expMonth ?? null,
+      expYear: card.expYear ?? null,
+      fingerprint: card.fingerprint ?? null,
+      routingNumber: null,
+      accountType: null,
+      verificationStatus: null,
+      verificationProvider: null,
+      verificationReference: null,
+      verificationAttempts: 0,
+      verifiedAt: null,
+      isDefault: defaults.get(card.userId) === card,
+      createdAt: card.createdAt,
+      updatedAt: card.createdAt,
+    })));
+    delete this.data.userCards;
+    this.saveData();
+  }
+
+  // The journal is derived from transactions, so it is safe to drop and replay
+  private resetJournal() {
+    this.data.accounts = [];
+    this.data.journalEntries = [];
+    this.data.postings = [];
+    this.data.balances = [];
+  }
+
+  /**
+   * Data files written before the journal existed only have transactions,
+   * so replay them once to rebuild postings from history
+   */
+  private backfillJournal() {
+    if (this.data.journalEntries.length > 0) {
+      return;
+    }
+
+    const replayed = this.data.transactions.filter(transaction => transaction.status !== 'failed');
+    if (replayed.length === 0) {
+      return;
+    }
+
+    for (const transaction of replayed) {
+      const draft = buildTransactionEntry(transaction);
+      if (draft) {
+        this.appendJournalEntry(transaction.id, draft, new Date(transaction.createdAt));
+      }
+    }
+    const owners = new Set(replayed.map(transaction => transaction.userId));
+    owners.forEach(userId => this.refreshBalance(userId));
+    this.saveData();
   }
 
   private saveData() {
@@ -82,6 +358,93 @@ export class MemStorage implements IStorage {
     }
   }
 
+  private findOrCreateAccount(code: string): Account {
+    const existing = this.data.accounts.find(account => account.code === code);
+    if (existing) {
+      return existing;
+    }
+
+    const account: Account = {
+      userId: null,
+      ...accountTemplate(code),
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.data.accounts.push(account);
+    return account;
+  }
+
+  // Caller is responsible for saving
+  private appendJournalEntry(transactionId: string | null, draft: JournalEntryDraft, createdAt = new Date()) {
+    assertBalanced(draft.lines);
+
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      transactionId,
+      description: draft.description,
+      createdAt,
+    };
+    this.data.journalEntries.push(entry);
+
+    for (const line of draft.lines) {
+      this.data.postings.push({
+        id: randomUUID(),
+        entryId: entry.id,
+        accountId: this.findOrCreateAccount(line.accountCode).id,
+        amount: line.amount,
+        currency: draft.currency,
+        createdAt,
+      });
+    }
+    return entry;
+  }
+
+  // Callers save the file, so the entry lands in the same write as the change
+  private appendAudit(draft: AuditDraft) {
+    const previous = this.data.auditLog[this.data.auditLog.length - 1];
+    this.data.auditLog.push({ id: randomUUID(), ...sealAuditEntry(draft, previous) });
+  }
+
+  // Callers save the file, so the events land in the same write as the change
+  private appendStatusEvents(transaction: Transaction, drafts: StatusEventDraft[]) {
+    for (const draft of drafts) {
+      this.data.transactionStatusHistory.push({
+        ...draft,
+        id: randomUUID(),
+        sequence: this.data.transactionStatusHistory.length + 1,
+        transactionId: transaction.id,
+        userId: transaction.userId,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  private cachedBalance(userId: string): Balance {
+    return this.data.balances.find(balance => balance.userId === userId) ?? this.refreshBalance(userId);
+  }
+
+  private refreshBalance(userId: string): Balance {
+    const wallet = this.findOrCreateAccount(userWalletCode(userId));
+    const entryTransactions = new Map(this.data.journalEntries.map(entry => [entry.id, entry.transactionId]));
+    const walletPostings = this.data.postings
+      .filter(posting => posting.accountId === wallet.id && posting.currency === DEFAULT_CURRENCY)
+      .map(posting => ({ ...posting, transactionId: entryTransactions.get(posting.entryId) ?? null }));
+
+    const index = this.data.balances.findIndex(balance => balance.userId === userId);
+    const base = index >= 0
+      ? this.data.balances[index]
+      : { id: randomUUID(), userId, currency: DEFAULT_CURRENCY };
+    const userTransactions = this.data.transactions.filter(transaction => transaction.userId === userId);
+    const balance = deriveBalance(walletPostings, userTransactions, base);
+
+    if (index >= 0) {
+      this.data.balances[index] = balance;
+    } else {
+      this.data.balances.push(balance);
+    }
+    return balance;
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.data.users.find(user => user.id === id);
   }
@@ -92,94 +455,612 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { stripeCustomerId: null, ...insertUser, id };
     this.data.users.push(user);
+    this.appendAudit({ action: 'user.created', userId: id, entityId: id, before: null, after: { username: user.username } });
     this.saveData();
     return user;
   }
 
-  async getBalance(): Promise<Balance> {
-    return this.data.balance;
+  async setStripeCustomerId(userId: string, customerId: string): Promise<User | undefined> {
+    const user = this.data.users.find(user => user.id === userId);
+    if (!user) {
+      return undefined;
+    }
+
+    const before = user.stripeCustomerId ?? null;
+    user.stripeCustomerId = customerId;
+    this.appendAudit({ action: 'user.stripe_customer_linked', userId, entityId: userId, before: { stripeCustomerId: before }, after: { stripeCustomerId: customerId } });
+    this.saveData();
+    return user;
   }
 
-  async updateBalance(balanceUpdate: Partial<InsertBalance>): Promise<Balance> {
-    this.data.balance = {
-      ...this.data.balance,
-      ...balanceUpdate,
-      lastUpdated: new Date(),
-    };
+  /**
+   * Balances written before pending, settled and test amounts were tracked lack
+   * those fields; they are projections, so rebuild them from the journal
+   */
+  private refreshStaleBalances() {
+    const stale = this.data.balances.filter(balance =>
+      balance.pendingBalance === undefined || balance.settledBalance === undefined || balance.sandboxBalance === undefined);
+    if (stale.length === 0) {
+      return;
+    }
+
+    stale.forEach(balance => this.refreshBalance(balance.userId));
     this.saveData();
-    return this.data.balance;
   }
 
-  async getTransactions(): Promise<Transaction[]> {
-    return this.data.transactions.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+  async getBalance(userId: string): Promise<Balance> {
+    const existing = this.data.balances.find(balance => balance.userId === userId);
+    if (existing) {
+      return existing;
+    }
+
+    const balance = this.refreshBalance(userId);
+    this.saveData();
+    return balance;
+  }
+
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    return this.data.transactions
+      .filter(transaction => transaction.userId === userId)
+      .sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+  }
+
+  async listTransactions(userId: string, options: TransactionListOptions): Promise<TransactionPage> {
+    const { after, limit, type, status, method, minAmount, maxAmount, from, to } = options;
+    const search = options.search?.toLowerCase();
+    // Newest first, ties broken by id so the cursor position is exact
+    const newestFirst = (a: Pick<Transaction, 'createdAt' | 'id'>, b: Pick<Transaction, 'createdAt' | 'id'>) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+    const matching = this.data.transactions
+      .filter(transaction => {
+        const createdAt = new Date(transaction.createdAt);
+        const transactionMethod = transaction.type === 'withdrawal' ? transaction.payoutProvider : transaction.fundingMethod;
+        return transaction.userId === userId
+          && (!type || transaction.type === type)
+          && (!status || transaction.status === status)
+          && (!method || transactionMethod === method)
+          && (minAmount === undefined || transaction.amount >= minAmount)
+          && (maxAmount === undefined || transaction.amount <= maxAmount)
+          && (!from || createdAt >= from)
+          && (!to || createdAt < to)
+          && (!search || (transaction.paymentMethodName ?? '').toLowerCase().includes(search))
+          && (!after || newestFirst(transaction, after) > 0);
+      })
+      .sort(newestFirst);
+
+    const transactions = matching.slice(0, limit);
+    const hasMore = matching.length > limit;
+    return {
+      transactions,
+      nextCursor: hasMore ? encodeHistoryCursor(transactions[transactions.length - 1]) : null,
+    };
   }
 
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    return this.recordTransaction(insertTransaction, 'transaction.created');
+  }
+
+  async createGuardedTransaction(insertTransaction: InsertTransaction, guard: TransactionGuard): Promise<GuardedTransaction> {
+    const refused = guard(this.userTransactions(insertTransaction.userId));
+    if (refused) {
+      return { refused };
+    }
+    return { transaction: this.recordTransaction(insertTransaction, 'transaction.created') };
+  }
+
+  private userTransactions(userId: string) {
+    return this.data.transactions.filter(transaction => transaction.userId === userId);
+  }
+
+  // Synchronous so no other request can run between a balance check and the write
+  private recordTransaction(insertTransaction: InsertTransaction, action: string): Transaction {
+    const before = this.cachedBalance(insertTransaction.userId);
     const id = randomUUID();
     const transaction: Transaction = {
+      stripePaymentIntentId: null,
+      stripePayoutId: null,
+      submittedAt: null,
+      paymentMethodId: null,
+      paymentMethodName: null,
+      failureReason: null,
+      settlesAt: null,
+      collectedAt: null,
+      returnCode: null,
+      payoutProvider: null,
+      fundingMethod: null,
+      isSandbox: false,
       ...insertTransaction,
+      fee: insertTransaction.fee ?? 0,
+      currency: insertTransaction.currency ?? DEFAULT_CURRENCY,
+      status: insertTransaction.status ?? 'completed',
       id,
       createdAt: new Date(),
     };
+
+    // Build the entry before mutating anything so an unbalanced entry leaves no trace
+    const draft = buildTransactionEntry(transaction);
     this.data.transactions.push(transaction);
+    if (draft) {
+      this.appendJournalEntry(transaction.id, draft);
+    }
+    const after = this.refreshBalance(transaction.userId);
+    this.appendStatusEvents(transaction, creationEvents(transaction));
+    this.appendAudit({
+      action,
+      userId: transaction.userId,
+      entityId: transaction.id,
+      before: { balance: balanceSnapshot(before) },
+      after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(transaction) },
+    });
     this.saveData();
     return transaction;
   }
 
-  async getTransactionById(id: string): Promise<Transaction | undefined> {
-    return this.data.transactions.find(transaction => transaction.id === id);
+  async getTransactionById(userId: string, id: string): Promise<Transaction | undefined> {
+    return this.data.transactions.find(transaction =>
+      transaction.id === id && transaction.userId === userId
+    );
   }
 
-  async getUserCards(userId: string): Promise<UserCard[]> {
-    if (!this.data.userCards) {
-      this.data.userCards = [];
+  async reserveFunds(withdrawal: Omit<InsertTransaction, 'type' | 'status'>, guard?: TransactionGuard): Promise<GuardedTransaction> {
+    const balance = this.refreshBalance(withdrawal.userId);
+    if (spendableBalance(balance, withdrawal.isSandbox ?? false) < withdrawal.amount) {
+      return { refused: INSUFFICIENT_FUNDS };
+    }
+    const refused = guard?.(this.userTransactions(withdrawal.userId));
+    if (refused) {
+      return { refused };
+    }
+    return { transaction: this.recordTransaction({ ...withdrawal, type: 'withdrawal', status: 'pending' }, 'funds.reserved') };
+  }
+
+  async getTransactionByExternalId(externalId: string): Promise<Transaction | undefined> {
+    return this.data.transactions.find(transaction =>
+      transaction.stripePaymentIntentId === externalId || transaction.stripePayoutId === externalId
+    );
+  }
+
+  async getTransactionsCreatedBetween(since: Date, until: Date): Promise<Transaction[]> {
+    return this.data.transactions
+      .filter(transaction => {
+        const createdAt = new Date(transaction.createdAt);
+        return createdAt >= since && createdAt < until;
+      })
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async updateTransactionStatus(
+    userId: string,
+    id: string,
+    status: TransactionStatus,
+    details: TransactionStatusDetails = {},
+  ): Promise<Transaction | undefined> {
+    const index = this.data.transactions.findIndex(transaction =>
+      transaction.id === id && transaction.userId === userId
+    );
+    if (index < 0) {
+      return undefined;
+    }
+
+    const current = this.data.transactions[index];
+    const before = this.cachedBalance(userId);
+    const draft = buildStatusChangeEntry(current, status);
+    const updated: Transaction = { ...current, ...details, status };
+    this.data.transactions[index] = updated;
+    if (draft) {
+      this.appendJournalEntry(updated.id, draft);
+    }
+    const after = this.refreshBalance(userId);
+    this.appendStatusEvents(updated, statusChangeEvents(current, updated));
+    this.appendAudit({
+      action: 'transaction.status_changed',
+      userId,
+      entityId: id,
+      before: { balance: balanceSnapshot(before), transaction: transactionSnapshot(current) },
+      after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(updated) },
+    });
+    this.saveData();
+    return updated;
+  }
+
+  async getDepositsDueForSettlement(asOf: Date): Promise<Transaction[]> {
+    return this.data.transactions
+      .filter(transaction =>
+        transaction.type === 'deposit'
+        && transaction.status === 'pending'
+        && transaction.collectedAt
+        && transaction.settlesAt
+        && new Date(transaction.settlesAt) <= asOf
+      )
+      .sort((a, b) => new Date(a.settlesAt!).getTime() - new Date(b.settlesAt!).getTime());
+  }
+
+  async returnDeposit(userId: string, id: string, returnCode: string, failureReason: string): Promise<Transaction | undefined> {
+    const index = this.data.transactions.findIndex(transaction =>
+      transaction.id === id && transaction.userId === userId
+    );
+    if (index < 0) {
+      return undefined;
+    }
+
+    const current = this.data.transactions[index];
+    const before = this.cachedBalance(userId);
+    const draft = buildReturnEntry(current);
+    const updated: Transaction = { ...current, status: 'returned', returnCode, failureReason };
+    this.data.transactions[index] = updated;
+    if (draft) {
+      this.appendJournalEntry(updated.id, draft);
+    }
+    const after = this.refreshBalance(userId);
+    this.appendStatusEvents(updated, statusChangeEvents(current, updated));
+    this.appendAudit({
+      action: 'transaction.returned',
+      userId,
+      entityId: id,
+      before: { balance: balanceSnapshot(before), transaction: transactionSnapshot(current) },
+      after: { balance: balanceSnapshot(after), transaction: transactionSnapshot(updated) },
+    });
+    this.saveData();
+    return updated;
+  }
+
+  async getTransactionStatusHistory(userId: string, transactionId: string): Promise<TransactionStatusEvent[]> {
+    return this.data.transactionStatusHistory.filter(event =>
+      event.transactionId === transactionId && event.userId === userId
+    );
+  }
+
+  async getPaymentMethods(userId: string): Promise<PaymentMethod[]> {
+    return this.data.paymentMethods.filter(method => method.userId === userId);
+  }
+
+  async getPaymentMethodById(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    return this.data.paymentMethods.find(method => method.id === id && method.userId === userId);
+  }
+
+  async createPaymentMethod(insertMethod: InsertPaymentMethod): Promise<PaymentMethod> {
+    const now = new Date();
+    const owned = this.data.paymentMethods.filter(method => method.userId === insertMethod.userId);
+    const method: PaymentMethod = {
+      brand: null,
+      providerToken: null,
+      expMonth: null,
+      expYear: null,
+      fingerprint: null,
+      routingNumber: null,
+      accountType: null,
+      verificationStatus: null,
+      verificationProvider: null,
+      verificationReference: null,
+      verificationAttempts: 0,
+      verifiedAt: null,
+      ...insertMethod,
+      isDefault: Boolean(insertMethod.isDefault) || owned.length === 0,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const previous = method.isDefault ? owned.find(other => other.isDefault) : undefined;
+    if (previous) {
+      previous.isDefault = false;
+      previous.updatedAt = now;
+    }
+    this.data.paymentMethods.push(method);
+    this.appendAudit({ action: 'payment_method.created', userId: method.userId, entityId: method.id, before: null, after: method });
+    if (previous) {
+      this.appendAudit({ action: 'payment_method.default_changed', userId: method.userId, entityId: method.id, before: { defaultId: previous.id }, after: { defaultId: method.id } });
+    }
+    this.saveData();
+    return method;
+  }
+
+  async updatePaymentMethod(userId: string, id: string, changes: PaymentMethodChanges): Promise<PaymentMethod | undefined> {
+    const index = this.data.paymentMethods.findIndex(method => method.id === id && method.userId === userId);
+    if (index < 0) {
+      return undefined;
+    }
+
+    const before = this.data.paymentMethods[index];
+    const updated: PaymentMethod = { ...before, ...changes, updatedAt: new Date() };
+    this.data.paymentMethods[index] = updated;
+    this.appendAudit({ action: 'payment_method.updated', userId, entityId: id, before, after: updated });
+    this.saveData();
+    return updated;
+  }
+
+  async claimVerificationAttempt(userId: string, id: string, maxAttempts: number): Promise<PaymentMethod | undefined> {
+    const method = this.data.paymentMethods.find(method => method.id === id && method.userId === userId);
+    if (!method || method.verificationStatus !== 'pending' || method.verificationAttempts >= maxAttempts) {
+      return undefined;
+    }
+    return this.updatePaymentMethod(userId, id, { verificationAttempts: method.verificationAttempts + 1 });
+  }
+
+  async setDefaultPaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    const owned = this.data.paymentMethods.filter(method => method.userId === userId);
+    const method = owned.find(method => method.id === id);
+    if (!method) {
+      return undefined;
+    }
+
+    const previous = owned.find(other => other.isDefault);
+    if (previous !== method) {
+      const now = new Date();
+      owned.forEach(other => {
+        if (other.isDefault) {
+          other.isDefault = false;
+          other.updatedAt = now;
+        }
+      });
+      method.isDefault = true;
+      method.updatedAt = now;
+      this.appendAudit({ action: 'payment_method.default_changed', userId, entityId: id, before: { defaultId: previous?.id ?? null }, after: { defaultId: id } });
       this.saveData();
     }
-    return this.data.userCards.filter(card => card.userId === userId);
+    return method;
   }
 
-  async createUserCard(insertCard: InsertUserCard): Promise<UserCard> {
-    const id = randomUUID();
-    const card: UserCard = {
-      ...insertCard,
-      id,
+  async deletePaymentMethod(userId: string, id: string): Promise<PaymentMethod | undefined> {
+    const existing = this.data.paymentMethods.find(method => method.id === id && method.userId === userId);
+    if (!existing) {
+      return undefined;
+    }
+
+    this.data.paymentMethods = this.data.paymentMethods.filter(method => method !== existing);
+    this.appendAudit({ action: 'payment_method.deleted', userId, entityId: id, before: existing, after: null });
+    if (existing.isDefault) {
+      const successor = this.data.paymentMethods.filter(method => method.userId === userId).pop();
+      if (successor) {
+        successor.isDefault = true;
+        successor.updatedAt = new Date();
+        this.appendAudit({ action: 'payment_method.default_changed', userId, entityId: successor.id, before: { defaultId: id }, after: { defaultId: successor.id } });
+      }
+    }
+    this.saveData();
+    return existing;
+  }
+
+  async claimIdempotencyKey(userId: string, key: string, requestHash: string, staleBefore: Date): Promise<IdempotencyClaim> {
+    this.data.idempotencyKeys = this.data.idempotencyKeys.filter(record =>
+      new Date(record.createdAt) >= staleBefore
+    );
+
+    const existing = this.data.idempotencyKeys.find(record => record.userId === userId && record.key === key);
+    if (existing) {
+      return { record: existing, claimed: false };
+    }
+
+    const record: IdempotencyKey = {
+      id: randomUUID(),
+      userId,
+      key,
+      requestHash,
+      statusCode: null,
+      responseBody: null,
       createdAt: new Date(),
     };
-    
-    if (!this.data.userCards) {
-      this.data.userCards = [];
+    this.data.idempotencyKeys.push(record);
+    this.saveData();
+    return { record, claimed: true };
+  }
+
+  async completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void> {
+    const record = this.data.idempotencyKeys.find(record => record.id === id);
+    if (record) {
+      record.statusCode = statusCode;
+      record.responseBody = responseBody;
+      this.saveData();
     }
-    
-    this.data.userCards.push(card);
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    this.data.idempotencyKeys = this.data.idempotencyKeys.filter(record => !(record.id === id && record.statusCode === null));
     this.saveData();
-    return card;
   }
 
-  async deleteUserCard(cardId: string): Promise<boolean> {
-    if (!this.data.userCards) {
+  async claimWebhookEvent(provider: string, eventId: string, type: string): Promise<boolean> {
+    const seen = this.data.webhookEvents.some(event => event.provider === provider && event.eventId === eventId);
+    if (seen) {
       return false;
     }
-    
-    const initialLength = this.data.userCards.length;
-    this.data.userCards = this.data.userCards.filter(card => card.id !== cardId);
-    
-    if (this.data.userCards.length < initialLength) {
-      this.saveData();
-      return true;
+
+    this.data.webhookEvents.push({ id: randomUUID(), provider, eventId, type, receivedAt: new Date() });
+    this.saveData();
+    return true;
+  }
+
+  async releaseWebhookEvent(provider: string, eventId: string): Promise<void> {
+    this.data.webhookEvents = this.data.webhookEvents.filter(event =>
+      !(event.provider === provider && event.eventId === eventId)
+    );
+    this.saveData();
+  }
+
+  async getAuditLog(userId?: string): Promise<AuditEntry[]> {
+    return this.data.auditLog.filter(entry => !userId || entry.userId === userId);
+  }
+
+  async recordTreasuryHolding(insertHolding: InsertTreasuryHolding): Promise<TreasuryHolding> {
+    const holding: TreasuryHolding = {
+      note: null,
+      ...insertHolding,
+      currency: insertHolding.currency ?? DEFAULT_CURRENCY,
+      id: randomUUID(),
+      recordedAt: new Date(),
+    };
+    const previous = this.data.treasuryHoldings
+      .filter(existing => existing.rail === holding.rail && existing.currency === holding.currency)
+      .pop();
+
+    this.data.treasuryHoldings.push(holding);
+    this.appendAudit({ action: 'treasury.recorded', userId: null, entityId: holding.id, before: previous ?? null, after: holding });
+    this.saveData();
+    return holding;
+  }
+
+  async getTreasuryHoldings(currency?: string): Promise<TreasuryHolding[]> {
+    return this.data.treasuryHoldings.filter(holding => !currency || holding.currency === currency);
+  }
+
+  async getLiabilities(currency = DEFAULT_CURRENCY): Promise<ReserveLiabilities> {
+    const wallets = this.data.accounts.filter(account => account.userId !== null && account.type === 'liability');
+    const userWallets = wallets.reduce((sum, wallet) => sum + sumPostings(wallet, this.data.postings, currency), 0);
+    const payoutsInFlight = (await this.getAccountBalance(SYSTEM_ACCOUNTS.payoutsInFlight.code, currency)).amount;
+
+    const testCredits = this.data.balances
+      .filter(balance => balance.currency === currency)
+      .reduce((sum, balance) => sum + balance.sandboxBalance, 0);
+    const testHolds = this.data.transactions
+      .filter(transaction => transaction.type === 'withdrawal' && transaction.status === 'pending'
+        && transaction.isSandbox && transaction.currency === currency)
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    return liabilitySummary(userWallets, payoutsInFlight, testCredits + testHolds);
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    return this.data.accounts;
+  }
+
+  async getAccountBalance(code: string, currency = DEFAULT_CURRENCY): Promise<Money> {
+    const account = this.data.accounts.find(account => account.code === code);
+    if (!account) {
+      return money(0, currency);
     }
-    return false;
+    return money(sumPostings(account, this.data.postings, currency), currency);
   }
 
-  async getUserCardById(cardId: string): Promise<UserCard | undefined> {
-    if (!this.data.userCards) {
+  async getJournalEntries(userId: string, transactionId?: string): Promise<JournalEntryWithPostings[]> {
+    const owned = new Set(
+      this.data.transactions
+        .filter(transaction => transaction.userId === userId)
+        .map(transaction => transaction.id)
+    );
+
+    return this.data.journalEntries
+      .filter(entry => entry.transactionId !== null && owned.has(entry.transactionId))
+      .filter(entry => !transactionId || entry.transactionId === transactionId)
+      .map(entry => ({
+        ...entry,
+        postings: this.data.postings.filter(posting => posting.entryId === entry.id),
+      }));
+  }
+
+  private activeJob(uniqueKey: string | null | undefined) {
+    return uniqueKey
+      ? this.data.jobs.find(job => job.uniqueKey === uniqueKey && (job.status === 'queued' || job.status === 'running'))
+      : undefined;
+  }
+
+  async enqueueJob(insertJob: InsertJob): Promise<Job> {
+    const existing = this.activeJob(insertJob.uniqueKey);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date();
+    const job: Job = {
+      id: randomUUID(),
+      type: insertJob.type,
+      payload: insertJob.payload,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      runAt: insertJob.runAt ?? now,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      result: null,
+      uniqueKey: insertJob.uniqueKey ?? null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.data.jobs.push(job);
+    this.saveData();
+    return job;
+  }
+
+  async claimJobs(workerId: string, limit: number, staleBefore: Date): Promise<Job[]> {
+    const now = new Date();
+    const due = this.data.jobs
+      .filter(job =>
+        (job.status === 'queued' && new Date(job.runAt) <= now) ||
+        (job.status === 'running' && job.lockedAt !== null && new Date(job.lockedAt) < staleBefore)
+      )
+      .sort((a, b) => new Date(a.runAt).getTime() - new Date(b.runAt).getTime())
+      .slice(0, limit);
+    if (due.length === 0) {
+      return [];
+    }
+
+    for (const job of due) {
+      job.status = 'running';
+      job.attempts += 1;
+      job.lockedAt = now;
+      job.lockedBy = workerId;
+      job.updatedAt = now;
+    }
+    this.saveData();
+    return due.map(job => ({ ...job }));
+  }
+
+  async releaseJob(id: string, workerId: string, changes: JobChanges): Promise<Job | undefined> {
+    const job = this.data.jobs.find(job => job.id === id);
+    if (!job || job.status !== 'running' || job.lockedBy !== workerId) {
       return undefined;
     }
-    return this.data.userCards.find(card => card.id === cardId);
+
+    Object.assign(job, changes, { lockedAt: null, lockedBy: null, updatedAt: new Date() });
+    this.saveData();
+    return { ...job };
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.data.jobs.find(job => job.id === id);
+  }
+
+  async getJobs(query: JobQuery, limit = 100): Promise<Job[]> {
+    return this.data.jobs
+      .filter(job => !query.status || job.status === query.status)
+      .filter(job => !query.type || job.type === query.type)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+
+  async requeueJob(id: string): Promise<Job | undefined> {
+    const job = this.data.jobs.find(job => job.id === id);
+    if (!job || job.status !== 'dead') {
+      return undefined;
+    }
+
+    const now = new Date();
+    Object.assign(job, { status: 'queued', attempts: 0, runAt: now, completedAt: null, updatedAt: now });
+    this.saveData();
+    return { ...job };
+  }
+}
+
+/**
+ * Pick the backend from STORAGE_BACKEND: 'postgres' uses DATABASE_URL,
+ * anything else keeps the local data.json store
+ */
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND ?? 'file';
+  if (backend === 'postgres') {
+    console.log('🗄️ Using Postgres storage');
+    return new DbStorage();
+  }
+  if (backend !== 'file') {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,10 +1,11 @@
 import Stripe from "stripe";
+import { formatMoney } from "@shared/money";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-08-27.basil",
 });
 
@@ -80,13 +81,13 @@ export class StripeConnectService {
       const payout = await stripe.payouts.create({
         amount,
         currency,
-        description: description || `BalanceFlow payout $${(amount / 100).toFixed(2)}`,
+        description: description || `BalanceFlow payout ${formatMoney(amount, currency.toUpperCase())}`,
         method: 'instant'  // Instant payout (within 30 minutes)
       }, {
         stripeAccount: accountId  // Critical: Send to connected account
       });
 
-      console.log(`✅ REAL STRIPE CONNECT PAYOUT: $${(amount / 100).toFixed(2)} to account ${accountId}`);
+      console.log(`✅ REAL STRIPE CONNECT PAYOUT: ${formatMoney(amount, currency.toUpperCase())} to account ${accountId}`);
       return payout;
     } catch (error: any) {
       console.error('❌ Stripe Connect payout failed:', error.message);
@@ -106,7 +107,7 @@ export class StripeConnectService {
         description: `BalanceFlow transfer to ${accountId}`
       });
 
-      console.log(`✅ TRANSFERRED: $${(amount / 100).toFixed(2)} to account ${accountId}`);
+      console.log(`✅ TRANSFERRED: ${formatMoney(amount, currency.toUpperCase())} to account ${accountId}`);
       return transfer;
     } catch (error: any) {
       console.error('❌ Transfer to account failed:', error.message);
@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import Stripe from "stripe";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+import { setupStripeWebhooks } from "./stripe-webhooks";
+import { storage } from "./storage";
+
+const FIXTURE_DIR = path.join(import.meta.dirname, "fixtures", "stripe");
+
+let server: Server;
+let url: string;
+let user: User;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/api/webhooks", express.raw({ type: "application/json" }));
+  setupStripeWebhooks(app);
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/stripe`;
+  user = await storage.createUser({ username: "webhook-user", password: "not-used" });
+});
+
+afterAll(() => {
+  server.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// A pending card deposit the fixture's payment intent will settle
+async function pendingDeposit(paymentIntentId: string) {
+  return storage.createTransaction({
+    userId: user.id,
+    type: "deposit",
+    amount: 50_000,
+    fee: 0,
+    netAmount: 50_000,
+    status: "pending",
+    fundingMethod: "card",
+    stripePaymentIntentId: paymentIntentId,
+  });
+}
+
+function fixtureEvent(name: string, objectId: string) {
+  const event = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), "utf-8"));
+  event.data.object.id = objectId;
+  event.id = `${event.id}_${objectId}`;
+  return event;
+}
+
+function deliver(event: unknown, secret = process.env.STRIPE_WEBHOOK_SECRET!) {
+  const payload = JSON.stringify(event);
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+}
+
+describe("Stripe webhooks", () => {
+  it("applies an event once, however often it is delivered", async () => {
+    const deposit = await pendingDeposit("pi_dedupe");
+    const event = fixtureEvent("payment_intent.succeeded", "pi_dedupe");
+
+    const first = await deliver(event);
+    const second = await deliver(event);
+
+    expect(await first.json()).toEqual({ received: true });
+    expect(await second.json()).toEqual({ received: true, duplicate: true });
+    expect((await storage.getTransactionById(user.id, deposit.id))?.status).toBe("completed");
+    expect((await storage.getBalance(user.id)).currentBalance).toBe(50_000);
+  });
+
+  it("lets Stripe redeliver an event whose processing failed", async () => {
+    const deposit = await pendingDeposit("pi_retry");
+    const event = fixtureEvent("payment_intent.succeeded", "pi_retry");
+    vi.spyOn(storage, "updateTransactionStatus").mockRejectedValueOnce(new Error("storage unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const failed = await deliver(event);
+    const redelivered = await deliver(event);
+
+    expect(failed.status).toBe(500);
+    expect(await redelivered.json()).toEqual({ received: true });
+    expect((await storage.getTransactionById(user.id, deposit.id))?.status).toBe("completed");
+  });
+
+  it("rejects events with a bad signature without recording them", async () => {
+    const deposit = await pendingDeposit("pi_forged");
+    const event = fixtureEvent("payment_intent.succeeded", "pi_forged");
+
+    const forged = await deliver(event, "whsec_wrong");
+    expect(forged.status).toBe(400);
+    expect((await storage.getTransactionById(user.id, deposit.id))?.status).toBe("pending");
+
+    expect(await (await deliver(event)).json()).toEqual({ received: true });
+  });
+});
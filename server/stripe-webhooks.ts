@@ -0,0 +1,155 @@
+/**
+ * Stripe webhook endpoint that settles pending deposits and payouts
+ * Bodies arrive raw (see server/index.ts) because signatures cover the exact bytes.
+ * ACH deposits are credited on their settlement date instead, so for them
+ * success only marks the debit collected, and failures and disputes are
+ * recorded as returns.
+ */
+
+import type { Express, Request } from "express";
+import type Stripe from "stripe";
+import type { Transaction, TransactionStatus } from "@shared/schema";
+import { stripe } from "./stripe-connect";
+import { storage } from "./storage";
+import { setAuditActor } from "./audit";
+import { payoutProviders, type PayoutOutcome } from "./payout-providers";
+import { achSettlement, isAchDeposit } from "./ach-settlement";
+import type { AchReturnCode } from "@shared/ach";
+
+const PAYMENT_INTENT_STATUSES: Record<string, TransactionStatus> = {
+  "payment_intent.succeeded": "completed",
+  "payment_intent.payment_failed": "failed",
+  "payment_intent.canceled": "failed",
+};
+
+// Stripe's us_bank_account failure codes and the NACHA return each one reports
+const ACH_FAILURE_RETURN_CODES: Record<string, AchReturnCode> = {
+  insufficient_funds: "R01",
+  account_closed: "R02",
+  no_account: "R03",
+  invalid_account_number: "R04",
+  debit_not_authorized: "R10",
+  bank_account_restricted: "R16",
+};
+
+interface ResolvedEvent {
+  transaction: Transaction;
+  outcome: PayoutOutcome;
+  returnCode?: AchReturnCode; // Set when an ACH deposit came back from the bank
+}
+
+/**
+ * Find the transaction an event refers to and what it now says about it
+ * Returns null for events we do not act on
+ */
+async function resolveEvent(event: Stripe.Event, req: Request): Promise<ResolvedEvent | null> {
+  const paymentIntentStatus = PAYMENT_INTENT_STATUSES[event.type];
+  if (paymentIntentStatus) {
+    const paymentIntent = event.data.object as Stripe.PaymentIntent;
+    const transaction = await storage.getTransactionByExternalId(paymentIntent.id);
+    if (!transaction) {
+      return null;
+    }
+    return {
+      transaction,
+      outcome: {
+        status: paymentIntentStatus,
+        failureReason: paymentIntent.last_payment_error?.message ?? (paymentIntentStatus === "failed" ? `Stripe ${event.type}` : undefined),
+      },
+      returnCode: ACH_FAILURE_RETURN_CODES[paymentIntent.last_payment_error?.code ?? ""],
+    };
+  }
+
+  // A disputed bank debit is the customer telling their bank it was not authorized
+  if (event.type === "charge.dispute.created") {
+    const dispute = event.data.object as Stripe.Dispute;
+    const paymentIntentId = typeof dispute.payment_intent === "string" ? dispute.payment_intent : dispute.payment_intent?.id;
+    const transaction = paymentIntentId ? await storage.getTransactionByExternalId(paymentIntentId) : undefined;
+    return transaction && isAchDeposit(transaction)
+      ? { transaction, outcome: { status: "failed", failureReason: `Disputed: ${dispute.reason}` }, returnCode: "R10" }
+      : null;
+  }
+
+  if (event.type.startsWith("payout.")) {
+    const payout = event.data.object as Stripe.Payout;
+    const transaction = await storage.getTransactionByExternalId(payout.id);
+    const provider = transaction && payoutProviders.get(transaction.payoutProvider ?? "stripe");
+    const parsed = provider?.parseWebhook(req.body, req.headers);
+    return transaction && parsed ? { transaction, outcome: parsed.outcome } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Success marks an ACH deposit collected; the settlement scheduler credits it
+ * once its settlement date passes, or now if that has already happened. Failures with a known return code go through the return path, which also
+ * claws back a deposit already credited. Others just fail a pending deposit.
+ */
+async function applyAchEvent(event: Stripe.Event, { transaction, outcome, returnCode }: ResolvedEvent) {
+  if (outcome.status === "completed") {
+    await achSettlement.recordCollected(transaction);
+    return;
+  }
+  if (outcome.status !== "failed") {
+    return;
+  }
+
+  if (returnCode) {
+    const result = await achSettlement.recordReturn(transaction, returnCode, outcome.failureReason);
+    if ("error" in result) {
+      console.log(`🔔 STRIPE WEBHOOK: ${event.type} ignored for transaction ${transaction.id}: ${result.error}`);
+    }
+  } else if (transaction.status === "pending") {
+    await storage.updateTransactionStatus(transaction.userId, transaction.id, "failed", {
+      ...(outcome.failureReason && { failureReason: outcome.failureReason }),
+    });
+    console.log(`🔔 STRIPE WEBHOOK: ${event.type} -> transaction ${transaction.id} failed`);
+  }
+}
+
+export function setupStripeWebhooks(app: Express) {
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    setAuditActor("webhook:stripe");
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(500).json({ error: "Missing required Stripe secret: STRIPE_WEBHOOK_SECRET" });
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: "Webhook body must be raw JSON" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(req.body, req.get("stripe-signature") ?? "", secret);
+    } catch (error: any) {
+      console.log(`❌ STRIPE WEBHOOK REJECTED: ${error.message}`);
+      return res.status(400).json({ error: "Webhook signature verification failed" });
+    }
+
+    // Stripe redelivers events; only the first delivery of an event id is applied
+    if (!(await storage.claimWebhookEvent("stripe", event.id, event.type))) {
+      return res.json({ received: true, duplicate: true });
+    }
+
+    try {
+      const resolved = await resolveEvent(event, req);
+      if (resolved && isAchDeposit(resolved.transaction)) {
+        await applyAchEvent(event, resolved);
+      } else if (resolved && resolved.transaction.status === "pending" && resolved.outcome.status !== "pending") {
+        // Events can arrive out of order; a settled transaction never changes again
+        const { transaction, outcome } = resolved;
+        await storage.updateTransactionStatus(transaction.userId, transaction.id, outcome.status, {
+          ...(outcome.failureReason && { failureReason: outcome.failureReason }),
+        });
+        console.log(`🔔 STRIPE WEBHOOK: ${event.type} -> transaction ${transaction.id} ${outcome.status}`);
+      }
+      res.json({ received: true });
+    } catch (error: any) {
+      // Let Stripe's retry reprocess the event
+      await storage.releaseWebhookEvent("stripe", event.id);
+      console.error("Stripe webhook error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs before each test file: MemStorage writes data.json to the working
+ * directory, so every file gets a fresh, empty one outside the repo
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "balanceflow-test-")));
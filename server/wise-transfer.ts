@@ -3,6 +3,8 @@
  * Enables low-cost international money transfers
  */
 
+import { fromMinorUnits } from "@shared/money";
+
 export class WiseTransferService {
   private baseURL: string;
   private apiToken: string;
@@ -18,6 +20,7 @@ export class WiseTransferService {
 
   /**
    * Create a quote for international transfer
+   * Amount is in minor units of the source currency; Wise expects decimals
    */
   async createQuote(sourceCurrency: string, targetCurrency: string, amount: number, type = 'BALANCE_PAYOUT') {
     try {
@@ -34,7 +37,7 @@ export class WiseTransferService {
         body: JSON.stringify({
           sourceCurrency,
           targetCurrency,
-          sourceAmount: amount,
+          sourceAmount: fromMinorUnits(amount, sourceCurrency),
           type,
           profile: parseInt(this.profileId)
         })
@@ -46,7 +49,7 @@ export class WiseTransferService {
       }
 
       const quote = await response.json();
-      console.log(`✅ Wise quote created: ${sourceCurrency} ${amount} → ${targetCurrency} ${quote.targetAmount}`);
+      console.log(`✅ Wise quote created: ${sourceCurrency} ${fromMinorUnits(amount, sourceCurrency)} → ${targetCurrency} ${quote.targetAmount}`);
       return quote;
     } catch (error: any) {
       console.error('❌ Wise quote creation failed:', error.message);
@@ -173,6 +176,34 @@ export class WiseTransferService {
     }
   }
 
+  /**
+   * Cancel a transfer that has not been sent yet
+   */
+  async cancelTransfer(transferId: string) {
+    try {
+      if (!this.apiToken) {
+        throw new Error('WISE_API_TOKEN not configured');
+      }
+
+      const response = await fetch(`${this.baseURL}/v1/transfers/${transferId}/cancel`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`
+        }
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Wise transfer cancellation failed: ${response.status} - ${error}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Failed to cancel Wise transfer:', error.message);
+      throw error;
+    }
+  }
+
   /**
    * Get supported currencies and corridors
    */
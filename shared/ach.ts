@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Business days an ACH debit sits in pending balance before it is credited
+export const ACH_SETTLEMENT_BUSINESS_DAYS = 4;
+
+// NACHA return codes a debit from a user's bank can come back with
+export const ACH_RETURN_CODES = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account or unable to locate account",
+  R04: "Invalid account number",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R10: "Customer advises not authorized",
+  R16: "Account frozen",
+  R29: "Corporate customer advises not authorized",
+} as const;
+
+export type AchReturnCode = keyof typeof ACH_RETURN_CODES;
+
+const returnCodes = Object.keys(ACH_RETURN_CODES) as [AchReturnCode, ...AchReturnCode[]];
+
+// A return recorded by hand from the bank's return file; user ids come from the reconciliation report
+export const achReturnSchema = z.object({
+  userId: z.string().min(1),
+  transactionId: z.string().min(1),
+  returnCode: z.enum(returnCodes),
+});
+
+export function describeAchReturn(code: AchReturnCode) {
+  return `${code}: ${ACH_RETURN_CODES[code]}`;
+}
+
+/**
+ * Move forward `days` business days (UTC), skipping weekends. Bank holidays
+ * are not skipped, so settlement can land a day before the bank's.
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      remaining--;
+    }
+  }
+  return date;
+}
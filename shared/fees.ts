@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { DEFAULT_CURRENCY, currencySchema, formatMoney, minorUnitsSchema } from "./money";
+
+export type FeeDirection = "deposit" | "withdrawal";
+
+/**
+ * One line of the fee schedule. A rule without a currency applies to every
+ * currency that has no rule of its own for the same method.
+ */
+export const feeRuleSchema = z.object({
+  type: z.enum(["deposit", "withdrawal"]),
+  method: z.string().min(1), // Payout provider id for withdrawals, funding method for deposits
+  currency: currencySchema.optional(),
+  flat: minorUnitsSchema.nonnegative().default(0),
+  percentBps: z.number().int().nonnegative().default(0), // Basis points of the amount, 75 = 0.75%
+  min: minorUnitsSchema.nonnegative().optional(),
+  max: minorUnitsSchema.nonnegative().optional(),
+});
+
+export type FeeRule = z.infer<typeof feeRuleSchema>;
+
+// What /api/fees/quote returns; the same numbers the server will charge
+export interface FeeQuote {
+  type: FeeDirection;
+  method: string;
+  amount: number;
+  fee: number;
+  netAmount: number;
+  currency: string;
+}
+
+/**
+ * Fee in minor units for an amount: flat plus percentage, then clamped to min/max
+ */
+export function calculateFee(rule: FeeRule, amount: number): number {
+  let fee = rule.flat + Math.round(amount * rule.percentBps / 10_000);
+  if (rule.min !== undefined) {
+    fee = Math.max(fee, rule.min);
+  }
+  if (rule.max !== undefined) {
+    fee = Math.min(fee, rule.max);
+  }
+  return fee;
+}
+
+/**
+ * Short label for a rule, e.g. "$1.50 fee", "0.75% fee (min $0.50)" or "No fee"
+ */
+export function describeFee(rule: FeeRule): string {
+  const currency = rule.currency ?? DEFAULT_CURRENCY;
+  const parts: string[] = [];
+  if (rule.percentBps > 0) {
+    parts.push(`${rule.percentBps / 100}%`);
+  }
+  if (rule.flat > 0) {
+    parts.push(formatMoney(rule.flat, currency));
+  }
+  if (parts.length === 0) {
+    return rule.min ? `${formatMoney(rule.min, currency)} fee` : "No fee";
+  }
+
+  const caps: string[] = [];
+  if (rule.min) {
+    caps.push(`min ${formatMoney(rule.min, currency)}`);
+  }
+  if (rule.max !== undefined) {
+    caps.push(`max ${formatMoney(rule.max, currency)}`);
+  }
+  return `${parts.join(" + ")} fee${caps.length ? ` (${caps.join(", ")})` : ""}`;
+}
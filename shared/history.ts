@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { Transaction, TransactionStatusEvent } from "./schema";
+import { minorUnitsSchema } from "./money";
+
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Filters for a page of transaction history, as query string parameters.
+ * `method` is the payout provider for withdrawals and the funding method for deposits.
+ */
+export const transactionQuerySchema = z.object({
+  cursor: z.string().min(1).optional(), // nextCursor from the previous page
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).default(25),
+  type: z.enum(["deposit", "withdrawal"]).optional(),
+  status: z.enum(["pending", "completed", "failed", "returned"]).optional(),
+  method: z.string().min(1).optional(),
+  minAmount: z.coerce.number().pipe(minorUnitsSchema.nonnegative()).optional(),
+  maxAmount: z.coerce.number().pipe(minorUnitsSchema.nonnegative()).optional(),
+  from: z.coerce.date().optional(), // Inclusive
+  to: z.coerce.date().optional(), // Exclusive
+  search: z.string().trim().min(1).max(100).optional(), // Matched against paymentMethodName, case-insensitive
+});
+
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+
+// Newest first; nextCursor is null on the last page
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+}
+
+/**
+ * Timeline events: created, pending (waiting on a provider or settlement),
+ * submitted (the provider accepted a payout), collected (the bank debit for an
+ * ACH deposit succeeded), paid, failed, reversed (held
+ * funds returned to the wallet after a failed withdrawal, or a credited
+ * deposit taken back), and returned (the bank returned an ACH deposit)
+ */
+export const TRANSACTION_EVENTS = ["created", "pending", "submitted", "collected", "paid", "failed", "reversed", "returned"] as const;
+
+export type TransactionEvent = typeof TRANSACTION_EVENTS[number];
+
+export interface TransactionDetail {
+  transaction: Transaction;
+  statusHistory: TransactionStatusEvent[];
+}
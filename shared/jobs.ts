@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// queued: waiting for runAt; running: claimed by a worker; dead: out of attempts, needs an admin
+export const JOB_STATUSES = ["queued", "running", "succeeded", "dead"] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const JOB_TYPES = {
+  "payout.submit": "Submit payout",
+  "payout.poll": "Check payout status",
+  "ach.settle": "Settle ACH deposits",
+  "reconciliation.run": "Reconcile with providers",
+} as const;
+
+export type JobType = keyof typeof JOB_TYPES;
+
+// Admin job list filters: /api/jobs?status=dead&type=payout.submit
+export const jobQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES).optional(),
+  type: z.enum(Object.keys(JOB_TYPES) as [JobType, ...JobType[]]).optional(),
+});
+
+export type JobQuery = z.infer<typeof jobQuerySchema>;
+
+// An admin's answer for a payout the provider never confirmed, after checking with the provider
+export const payoutResolutionSchema = z.object({
+  userId: z.string().min(1),
+  transactionId: z.string().min(1),
+  status: z.enum(["completed", "failed"]),
+  payoutId: z.string().trim().min(1).optional(), // The provider's id, when it did make the payout
+});
+
+export type PayoutResolution = z.infer<typeof payoutResolutionSchema>;
+
+export function describeJobType(type: string) {
+  return JOB_TYPES[type as JobType] ?? type;
+}
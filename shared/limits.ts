@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { minorUnitsSchema } from "./money";
+
+export type LimitPeriod = "day" | "week" | "month";
+
+// Rolling windows ending now, not calendar days
+export const LIMIT_PERIOD_MS: Record<LimitPeriod, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * One limit rule. Without a method it covers every method of that type
+ * combined; with a userId it replaces the general rule for that user.
+ */
+export const limitRuleSchema = z.object({
+  type: z.enum(["deposit", "withdrawal"]),
+  method: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  maxPerTransaction: minorUnitsSchema.positive().optional(),
+  windows: z.array(z.object({
+    period: z.enum(["day", "week", "month"]),
+    maxAmount: minorUnitsSchema.nonnegative().optional(),
+    maxCount: z.number().int().nonnegative().optional(),
+  })).default([]),
+});
+
+export type LimitRule = z.infer<typeof limitRuleSchema>;
+
+export interface LimitWindowStatus {
+  period: LimitPeriod;
+  method: string | null; // Null when the window counts every method
+  maxAmount: number | null;
+  usedAmount: number;
+  remainingAmount: number | null;
+  maxCount: number | null;
+  usedCount: number;
+  remainingCount: number | null;
+}
+
+// What /api/limits returns; null means unlimited
+export interface LimitStatus {
+  type: "deposit" | "withdrawal";
+  method: string;
+  maxPerTransaction: number | null;
+  remainingAmount: number | null; // Largest amount allowed right now
+  remainingCount: number | null;
+  windows: LimitWindowStatus[];
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+/**
+ * Money is always an integer number of minor units (cents for USD)
+ * plus an ISO 4217 currency code. Never store or add floating point dollars.
+ */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const currencySchema = z.string().regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code");
+
+export const minorUnitsSchema = z.number().int("Amount must be in whole minor units");
+
+export const moneySchema = z.object({
+  amount: minorUnitsSchema,
+  currency: currencySchema,
+});
+
+export function money(amount: number, currency = DEFAULT_CURRENCY): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Money amount must be an integer number of minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Number of decimal places used by a currency (2 for USD, 0 for JPY)
+ */
+export function minorUnitExponent(currency = DEFAULT_CURRENCY): number {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency })
+    .resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Convert a major-unit value typed by a person (e.g. "12.34") into minor units
+ */
+export function toMinorUnits(major: number | string, currency = DEFAULT_CURRENCY): number {
+  const value = typeof major === "string" ? parseFloat(major) : major;
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.round(value * 10 ** minorUnitExponent(currency));
+}
+
+export function fromMinorUnits(minor: number, currency = DEFAULT_CURRENCY): number {
+  return minor / 10 ** minorUnitExponent(currency);
+}
+
+/**
+ * Format minor units for display, e.g. 123456 -> "$1,234.56"
+ */
+export function formatMoney(minor: number, currency = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency })
+    .format(fromMinorUnits(minor, currency));
+}
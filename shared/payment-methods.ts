@@ -0,0 +1,128 @@
+import { z } from "zod";
+import type { PaymentMethod } from "./schema";
+
+export const PAYMENT_METHOD_TYPES = ["card", "bank_account", "cashapp", "paypal", "wallet"] as const;
+
+export type PaymentMethodType = typeof PAYMENT_METHOD_TYPES[number];
+
+export const PAYMENT_METHOD_TYPE_NAMES: Record<PaymentMethodType, string> = {
+  card: "Card",
+  bank_account: "Bank account",
+  cashapp: "CashApp",
+  paypal: "PayPal",
+  wallet: "Crypto wallet",
+};
+
+export const BANK_ACCOUNT_TYPES = ["checking", "savings"] as const;
+
+export type BankAccountType = typeof BANK_ACCOUNT_TYPES[number];
+
+// Bank accounts start pending until the user confirms the micro-deposits; failed ones must be linked again
+export const BANK_VERIFICATION_STATUSES = ["pending", "verified", "failed"] as const;
+
+export type BankVerificationStatus = typeof BANK_VERIFICATION_STATUSES[number];
+
+// Wrong micro-deposit guesses allowed before the account is marked failed
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+const nameSchema = z.string().trim().min(1, "Name is required").max(50);
+
+/**
+ * ABA routing number checksum: weights 3, 7, 1 repeating across the nine
+ * digits must sum to a multiple of ten
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = Array.from(routingNumber).reduce((total, digit, index) => total + Number(digit) * weights[index], 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * Methods saved from a plain identifier. Cards are vaulted through Stripe
+ * and bank accounts are linked, so neither is created from this schema.
+ */
+export const newPaymentMethodSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("cashapp"),
+    name: nameSchema,
+    identifier: z.string().trim()
+      .transform(tag => tag.startsWith("$") ? tag : `$${tag}`)
+      .pipe(z.string().regex(/^\$[A-Za-z][A-Za-z0-9_]{0,19}$/, "Enter a valid $cashtag")),
+  }),
+  z.object({
+    type: z.literal("paypal"),
+    name: nameSchema,
+    identifier: z.string().trim().toLowerCase().email("Enter a valid PayPal email"),
+  }),
+  z.object({
+    type: z.literal("wallet"),
+    name: nameSchema,
+    identifier: z.string().trim().regex(/^0x[a-fA-F0-9]{40}$/, "Enter a valid wallet address"),
+    brand: z.string().trim().min(1).max(40).default("ethereum"), // Network
+  }),
+]);
+
+export type NewPaymentMethod = z.infer<typeof newPaymentMethodSchema>;
+
+// Full numbers are only sent when linking; storage keeps the last four and a provider fingerprint
+export const newBankAccountSchema = z.object({
+  name: nameSchema,
+  bankName: z.string().trim().min(1, "Bank name is required").max(60),
+  holderName: z.string().trim().min(1, "Account holder name is required").max(100),
+  routingNumber: z.string().trim().refine(isValidRoutingNumber, "Enter a valid 9-digit routing number"),
+  accountNumber: z.string().trim().regex(/^\d{4,17}$/, "Account numbers are 4 to 17 digits"),
+  accountType: z.enum(BANK_ACCOUNT_TYPES),
+});
+
+export type NewBankAccount = z.infer<typeof newBankAccountSchema>;
+
+// The two deposits in cents, in either order
+export const microDepositSchema = z.object({
+  amounts: z.tuple([
+    z.number().int().min(1).max(99),
+    z.number().int().min(1).max(99),
+  ]),
+});
+
+export const paymentMethodUpdateSchema = z.object({
+  name: nameSchema.optional(),
+  isDefault: z.literal(true).optional(), // Clear the default by making another method the default
+  expMonth: z.number().int().min(1).max(12).optional(), // Cards only, e.g. after the bank reissues the card
+  expYear: z.number().int().min(2000).max(2100).optional(),
+}).refine(update => (update.expMonth === undefined) === (update.expYear === undefined), {
+  message: "Pass expMonth and expYear together",
+}).refine(update => Object.values(update).some(value => value !== undefined), {
+  message: "Nothing to update",
+});
+
+export type PaymentMethodUpdate = z.infer<typeof paymentMethodUpdateSchema>;
+
+/**
+ * Only bank accounts whose micro-deposits were confirmed can receive withdrawals
+ */
+export function isVerifiedBankAccount(method: Pick<PaymentMethod, "type" | "verificationStatus">): boolean {
+  return method.type === "bank_account" && method.verificationStatus === "verified";
+}
+
+type CardExpiry = Pick<PaymentMethod, "expMonth" | "expYear">;
+
+/**
+ * Cards work through the last day of their expiry month. Methods without an
+ * expiry (everything but cards, and cards saved before vaulting) never expire.
+ */
+export function isCardExpired(card: CardExpiry, now = new Date()): boolean {
+  if (!card.expMonth || !card.expYear) {
+    return false;
+  }
+  return now >= new Date(card.expYear, card.expMonth, 1);
+}
+
+export function formatCardExpiry(card: CardExpiry): string | null {
+  if (!card.expMonth || !card.expYear) {
+    return null;
+  }
+  return `${String(card.expMonth).padStart(2, "0")}/${String(card.expYear % 100).padStart(2, "0")}`;
+}
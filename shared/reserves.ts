@@ -0,0 +1,35 @@
+import type { TreasuryHolding } from "./schema";
+
+// Treasury accounts that hold the money behind user balances
+export const RESERVE_RAILS = ["stripe", "bank", "usdc"] as const;
+
+export type ReserveRail = typeof RESERVE_RAILS[number];
+
+export const RESERVE_RAIL_NAMES: Record<ReserveRail, string> = {
+  stripe: "Stripe balance",
+  bank: "Operating bank account",
+  usdc: "USDC treasury wallet",
+};
+
+/**
+ * What the platform owes users in one currency. Test funds are sandbox
+ * credits and sandbox-rail holds; they are owed to nobody real.
+ */
+export interface ReserveLiabilities {
+  userWallets: number;
+  payoutsInFlight: number;
+  testFunds: number;
+  total: number; // userWallets + payoutsInFlight - testFunds
+}
+
+// What /api/reserves/report returns
+export interface ReserveReport {
+  currency: string;
+  generatedAt: string;
+  holdings: TreasuryHolding[]; // Latest holding per rail
+  missingRails: ReserveRail[]; // Rails with no holding recorded in this currency
+  totalReserves: number;
+  liabilities: ReserveLiabilities;
+  surplus: number; // Negative when liabilities exceed reserves
+  covered: boolean;
+}
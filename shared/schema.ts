@@ -1,56 +1,224 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, bigint, boolean, integer, jsonb, real, serial, timestamp, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_CURRENCY, currencySchema, minorUnitsSchema } from "./money";
+import { RESERVE_RAILS } from "./reserves";
+import { BANK_VERIFICATION_STATUSES, PAYMENT_METHOD_TYPES } from "./payment-methods";
+
+// All money columns hold integer minor units (cents) alongside an ISO currency code
+const minorUnits = (name: string) => bigint(name, { mode: "number" });
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  stripeCustomerId: text("stripe_customer_id"), // Stripe customer that owns the user's vaulted cards
 });
 
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
   type: text("type").notNull(), // 'deposit' or 'withdrawal'
-  amount: real("amount").notNull(),
-  fee: real("fee").notNull().default(0),
-  netAmount: real("net_amount").notNull(),
+  amount: minorUnits("amount").notNull(),
+  fee: minorUnits("fee").notNull().default(0),
+  netAmount: minorUnits("net_amount").notNull(),
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
-  stripePayoutId: text("stripe_payout_id"),
+  stripePayoutId: text("stripe_payout_id"), // Payout id from whichever provider sent it
+  submittedAt: timestamp("submitted_at"), // Withdrawals: when the payout request went to the provider, before its answer
+  payoutProvider: text("payout_provider"), // Registered PayoutProvider id for withdrawals
+  fundingMethod: text("funding_method"), // How a deposit was funded: 'ach', 'card', 'manual' or 'unlimited'
+  isSandbox: boolean("is_sandbox").notNull().default(false), // Unbacked test credit, or a withdrawal through the sandbox rail
   paymentMethodId: text("payment_method_id"), // For storing withdrawal method ID
   paymentMethodName: text("payment_method_name"), // For storing withdrawal method name
-  status: text("status").notNull().default('completed'), // 'pending', 'completed', 'failed'
+  status: text("status").notNull().default('completed'), // 'pending', 'completed', 'failed' or 'returned'
+  failureReason: text("failure_reason"), // Provider error for failed transactions, or the return reason
+  settlesAt: timestamp("settles_at"), // ACH deposits: when the pending credit becomes available
+  collectedAt: timestamp("collected_at"), // ACH deposits: when Stripe reported the debit succeeded; never credited before
+  returnCode: text("return_code"), // NACHA code, e.g. 'R01', for ACH deposits the bank returned
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Every status a transaction went through, oldest first; written in the same write as the change
+export const transactionStatusHistory = pgTable("transaction_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: serial("sequence"), // Orders events written in the same database transaction
+  transactionId: varchar("transaction_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  event: text("event").notNull(), // 'created', 'pending', 'submitted', 'paid', 'failed', 'reversed' or 'returned'
+  status: text("status").notNull(), // Transaction status after the event
+  detail: text("detail"), // Provider payout id, failure reason or similar
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const balances = pgTable("balances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  currentBalance: real("current_balance").notNull().default(0),
-  totalAdded: real("total_added").notNull().default(0),
-  totalWithdrawn: real("total_withdrawn").notNull().default(0),
+  userId: varchar("user_id").notNull().unique(),
+  currentBalance: minorUnits("current_balance").notNull().default(0), // Available to spend or withdraw
+  pendingBalance: minorUnits("pending_balance").notNull().default(0), // Payouts still in flight plus deposits not yet credited
+  settledBalance: minorUnits("settled_balance").notNull().default(0), // Paid out by completed withdrawals
+  sandboxBalance: minorUnits("sandbox_balance").notNull().default(0), // Part of current_balance that is test funds
+  totalAdded: minorUnits("total_added").notNull().default(0),
+  totalWithdrawn: minorUnits("total_withdrawn").notNull().default(0),
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
   lastUpdated: timestamp("last_updated").notNull().default(sql`now()`),
 });
 
+// Per-user balances in float dollars from before the journal; kept so
+// `npm run db:migrate-ledger` can open journal entries from them
+export const legacyLedger = pgTable("ledger", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  balance: real("balance").notNull().default(0),
+  pendingBalance: real("pending_balance").notNull().default(0),
+  completedBalance: real("completed_balance").notNull().default(0),
+});
+
+// Superseded by payment_methods; kept so `npm run db:migrate-cards` can copy old rows across
 export const userCards = pgTable("user_cards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   cardName: text("card_name").notNull(),
   cardLast4: text("card_last_4").notNull(),
   cardBrand: text("card_brand").notNull(),
-  stripeCardId: text("stripe_card_id"), // For storing Stripe card/payment method ID
+  stripeCardId: text("stripe_card_id"), // Stripe PaymentMethod id from a confirmed SetupIntent
+  expMonth: integer("exp_month"), // Null for cards saved before vaulting
+  expYear: integer("exp_year"),
+  fingerprint: text("fingerprint"), // Stripe's card fingerprint, the same for every token of one card number
   isDefault: text("is_default").notNull().default('false'),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("user_cards_user_fingerprint").on(table.userId, table.fingerprint),
+]);
+
+// Saved ways to pay or get paid; storage keeps at most one default per user
+export const paymentMethods = pgTable("payment_methods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").notNull(), // 'card', 'bank_account', 'cashapp', 'paypal' or 'wallet'
+  name: text("name").notNull(), // Nickname chosen by the user
+  identifier: text("identifier").notNull(), // Card or account last four, $cashtag, PayPal email or wallet address
+  brand: text("brand"), // Card brand, bank name or wallet network
+  providerToken: text("provider_token"), // Stripe PaymentMethod id for cards and bank accounts
+  expMonth: integer("exp_month"), // Cards only
+  expYear: integer("exp_year"),
+  fingerprint: text("fingerprint"), // Provider fingerprint, the same for every token of one card or account number
+  routingNumber: text("routing_number"), // Bank accounts only; the full account number is never stored
+  accountType: text("account_type"), // 'checking' or 'savings'
+  verificationStatus: text("verification_status"), // Bank accounts: 'pending', 'verified' or 'failed'
+  verificationProvider: text("verification_provider"), // Micro-deposit provider that holds the verification
+  verificationReference: text("verification_reference"), // That provider's id for it, e.g. a SetupIntent
+  verificationAttempts: integer("verification_attempts").notNull().default(0),
+  verifiedAt: timestamp("verified_at"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("payment_methods_user_fingerprint").on(table.userId, table.fingerprint),
+  uniqueIndex("payment_methods_one_default").on(table.userId).where(sql`${table.isDefault}`),
+]);
+
+// Double-entry journal: balances are derived from postings, never stored directly
+export const accounts = pgTable("accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // e.g. 'user_wallet:<userId>', 'fee_revenue'
+  name: text("name").notNull(),
+  userId: varchar("user_id"), // Set for per-user wallet accounts
+  type: text("type").notNull(), // 'asset', 'liability' or 'revenue'
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
-// Production ledger table for real payouts
-export const ledger = pgTable("ledger", {
-  id: serial("id").primaryKey(),
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id"), // Transaction that caused this entry
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const postings = pgTable("postings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull(),
+  accountId: varchar("account_id").notNull(),
+  amount: minorUnits("amount").notNull(), // Signed; postings of one entry sum to zero per currency
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// One row per Idempotency-Key a user has sent to a money-moving endpoint
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
-  balance: real("balance").notNull().default(0),
-  pendingBalance: real("pending_balance").notNull().default(0),
-  completedBalance: real("completed_balance").notNull().default(0),
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(), // sha256 of method, path and body
+  statusCode: integer("status_code"), // Null while the first request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("idempotency_keys_user_key").on(table.userId, table.key),
+]);
+
+// Provider webhook events already handled, so redelivered events are ignored
+export const webhookEvents = pgTable("webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // e.g. 'stripe'
+  eventId: text("event_id").notNull(),
+  type: text("type").notNull(),
+  receivedAt: timestamp("received_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("webhook_events_provider_event").on(table.provider, table.eventId),
+]);
+
+// Append-only audit trail; each entry's hash covers the previous entry's hash
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: integer("sequence").notNull().unique(), // Gapless, starting at 1
+  action: text("action").notNull(), // e.g. 'transaction.created', 'transaction.status_changed'
+  userId: varchar("user_id"), // User whose balance or data changed
+  entityId: varchar("entity_id"), // Transaction, card or user id
+  actor: text("actor").notNull(), // Logged-in user id, or e.g. 'system', 'webhook:stripe'
+  route: text("route"), // e.g. 'POST /api/withdraw'; null outside HTTP requests
+  requestId: text("request_id"),
+  ip: text("ip"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").notNull(), // Set by the writer because it is hashed
+});
+
+// Treasury holdings per rail, appended on every update; the latest row for a rail and currency is current
+export const treasuryHoldings = pgTable("treasury_holdings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rail: text("rail").notNull(), // 'stripe', 'bank' or 'usdc'
+  amount: minorUnits("amount").notNull(),
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  source: text("source").notNull(), // 'manual' or 'provider' (fetched from the rail's API)
+  note: text("note"),
+  recordedAt: timestamp("recorded_at").notNull().default(sql`now()`),
 });
 
+// Background work run outside HTTP requests by server/jobs.ts; failed runs retry with backoff
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // e.g. 'payout.submit', 'ach.settle'
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'succeeded' or 'dead'
+  attempts: integer("attempts").notNull().default(0), // Failed or started runs since the last success
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().default(sql`now()`), // Not picked up before this
+  lockedAt: timestamp("locked_at"), // When a worker claimed it; a stale lock means that worker died
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  uniqueKey: text("unique_key"), // At most one queued or running job per key
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  uniqueIndex("jobs_active_unique_key").on(table.uniqueKey).where(sql`${table.status} in ('queued', 'running')`),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -59,6 +227,11 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   createdAt: true,
+}).extend({
+  amount: minorUnitsSchema.positive(),
+  fee: minorUnitsSchema.nonnegative().optional(),
+  netAmount: minorUnitsSchema,
+  currency: currencySchema.optional(),
 });
 
 export const insertBalanceSchema = createInsertSchema(balances).omit({
@@ -71,17 +244,75 @@ export const insertUserCardSchema = createInsertSchema(userCards).omit({
   createdAt: true,
 });
 
-export const insertLedgerSchema = createInsertSchema(ledger).omit({
+export const insertPaymentMethodSchema = createInsertSchema(paymentMethods).omit({
   id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  type: z.enum(PAYMENT_METHOD_TYPES),
+  verificationStatus: z.enum(BANK_VERIFICATION_STATUSES).nullish(),
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPostingSchema = createInsertSchema(postings).omit({
+  id: true,
+  entryId: true,
+  createdAt: true,
+}).extend({
+  amount: minorUnitsSchema,
+  currency: currencySchema.optional(),
+});
+
+export const insertTreasuryHoldingSchema = createInsertSchema(treasuryHoldings).omit({
+  id: true,
+  recordedAt: true,
+}).extend({
+  rail: z.enum(RESERVE_RAILS),
+  amount: minorUnitsSchema.nonnegative(),
+  currency: currencySchema.optional(),
+  source: z.enum(["manual", "provider"]),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  payload: true,
+  maxAttempts: true,
+  runAt: true,
+  uniqueKey: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+// 'returned' is an ACH deposit the bank sent back, before or after it was credited
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'returned';
+export type TransactionStatusEvent = typeof transactionStatusHistory.$inferSelect;
 export type Balance = typeof balances.$inferSelect;
 export type InsertBalance = z.infer<typeof insertBalanceSchema>;
 export type UserCard = typeof userCards.$inferSelect;
 export type InsertUserCard = z.infer<typeof insertUserCardSchema>;
-export type Ledger = typeof ledger.$inferSelect;
-export type InsertLedger = z.infer<typeof insertLedgerSchema>;
+export type PaymentMethod = typeof paymentMethods.$inferSelect;
+export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type Posting = typeof postings.$inferSelect;
+export type InsertPosting = z.infer<typeof insertPostingSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type TreasuryHolding = typeof treasuryHoldings.$inferSelect;
+export type InsertTreasuryHolding = z.infer<typeof insertTreasuryHoldingSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
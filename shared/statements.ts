@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+export const STATEMENT_FORMATS = ["json", "csv", "ofx", "qfx", "pdf"] as const;
+
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+/**
+ * A statement covers one calendar month (UTC) or a custom [from, to) range
+ */
+export const statementQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM").optional(),
+  from: z.coerce.date().optional(), // Inclusive
+  to: z.coerce.date().optional(), // Exclusive
+  format: z.enum(STATEMENT_FORMATS).default("json"),
+}).refine(query => query.month ? !query.from && !query.to : query.from && query.to, {
+  message: "Pass either month or both from and to",
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from must be before to",
+});
+
+export type StatementQuery = z.infer<typeof statementQuerySchema>;
+
+// One change to the wallet; withdrawals debit the amount including the fee
+export interface StatementLine {
+  entryId: string;
+  transactionId: string;
+  date: string;
+  kind: "deposit" | "withdrawal" | "reversal" | "return";
+  description: string;
+  status: string;
+  amount: number; // Signed minor units: credits positive, debits negative
+  fee: number; // Fee charged by this line; negative when a reversal or return refunds it
+  balance: number; // Wallet balance after this line
+}
+
+export interface Statement {
+  username: string;
+  currency: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  openingBalance: number;
+  moneyIn: number;
+  moneyOut: number;
+  fees: number; // Already included in moneyIn and moneyOut
+  closingBalance: number;
+  lines: StatementLine[];
+}